@@ -0,0 +1,144 @@
+/**
+ * Code Chunker - Split source files into symbol-sized pieces
+ *
+ * Chunks start at top-level declarations (including the comments and
+ * decorators directly above them), so a search hit usually maps to one
+ * function or class. Files in unknown languages fall back to line windows.
+ */
+
+import * as path from 'path';
+
+const MAX_CHUNK_LINES = 80;
+const WINDOW_OVERLAP_LINES = 10;
+const MIN_CHUNK_LINES = 3; // Smaller declarations are merged into the previous chunk
+
+export interface CodeChunk {
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  symbol?: string; // Name of the declaration the chunk starts with
+  text: string;
+}
+
+interface LanguageRules {
+  declaration: RegExp; // Matches a top-level declaration line; group 1 is the name
+  preamble: RegExp; // Comment or decorator lines that belong to the next declaration
+}
+
+const C_STYLE_PREAMBLE = /^\s*(\/\/|\/\*|\*|@)/;
+
+const TS_JS: LanguageRules = {
+  declaration:
+    /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+|async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|namespace)\s+([A-Za-z_$][\w$]*)/,
+  preamble: C_STYLE_PREAMBLE,
+};
+
+const LANGUAGE_RULES: Record<string, LanguageRules> = {
+  '.ts': TS_JS,
+  '.tsx': TS_JS,
+  '.js': TS_JS,
+  '.jsx': TS_JS,
+  '.mjs': TS_JS,
+  '.cjs': TS_JS,
+  '.py': {
+    declaration: /^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/,
+    preamble: /^\s*(#|@)/,
+  },
+  '.go': {
+    declaration: /^(?:func(?:\s*\([^)]*\))?|type)\s+([A-Za-z_]\w*)/,
+    preamble: /^\s*\/\//,
+  },
+  '.rs': {
+    declaration: /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:fn|struct|enum|trait|impl|mod)\s+(?:<[^>]*>\s*)?([A-Za-z_]\w*)/,
+    preamble: /^\s*(\/\/|#\[)/,
+  },
+  '.java': {
+    declaration:
+      /^\s{0,4}(?:(?:public|private|protected|static|final|abstract|synchronized)\s+)+(?:class|interface|enum|record|[\w<>[\],]+)\s+([A-Za-z_]\w*)/,
+    preamble: C_STYLE_PREAMBLE,
+  },
+  '.md': {
+    declaration: /^#{1,3}\s+(.+)/,
+    preamble: /^$/,
+  },
+};
+
+// Indexed even without declaration rules, using line windows
+const WINDOWED_EXTENSIONS = ['.rb', '.php', '.cs', '.kt', '.swift', '.c', '.h', '.cpp', '.hpp', '.vue', '.svelte'];
+
+export function isIndexable(filePath: string): boolean {
+  const extension = path.extname(filePath).toLowerCase();
+  return extension in LANGUAGE_RULES || WINDOWED_EXTENSIONS.includes(extension);
+}
+
+export function chunkFile(filePath: string, content: string): CodeChunk[] {
+  const lines = content.split('\n');
+  const rules = LANGUAGE_RULES[path.extname(filePath).toLowerCase()];
+
+  const sections = rules ? splitAtDeclarations(lines, rules) : [{ start: 0, end: lines.length }];
+
+  const chunks: CodeChunk[] = [];
+  for (const section of sections) {
+    for (const window of splitLongSection(section.start, section.end)) {
+      const text = lines.slice(window.start, window.end).join('\n');
+      if (text.trim() === '') {
+        continue;
+      }
+      chunks.push({
+        startLine: window.start + 1,
+        endLine: window.end,
+        symbol: section.symbol,
+        text,
+      });
+    }
+  }
+  return chunks;
+}
+
+function splitAtDeclarations(
+  lines: string[],
+  rules: LanguageRules
+): { start: number; end: number; symbol?: string }[] {
+  const sections: { start: number; end: number; symbol?: string }[] = [{ start: 0, end: lines.length }];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(rules.declaration);
+    if (!match) {
+      continue;
+    }
+
+    // Pull leading comments and decorators into the declaration's chunk
+    let start = i;
+    while (start > 0 && rules.preamble.test(lines[start - 1]) && lines[start - 1].trim() !== '') {
+      start--;
+    }
+
+    const current = sections[sections.length - 1];
+    if (start - current.start < MIN_CHUNK_LINES && current.symbol !== undefined) {
+      continue; // Too close to the previous declaration to stand alone
+    }
+    if (start <= current.start) {
+      current.symbol = current.symbol ?? match[1].trim();
+      continue;
+    }
+
+    current.end = start;
+    sections.push({ start, end: lines.length, symbol: match[1].trim() });
+  }
+
+  return sections;
+}
+
+function splitLongSection(start: number, end: number): { start: number; end: number }[] {
+  if (end - start <= MAX_CHUNK_LINES) {
+    return [{ start, end }];
+  }
+
+  const windows: { start: number; end: number }[] = [];
+  for (let windowStart = start; windowStart < end; windowStart += MAX_CHUNK_LINES - WINDOW_OVERLAP_LINES) {
+    windows.push({ start: windowStart, end: Math.min(windowStart + MAX_CHUNK_LINES, end) });
+    if (windowStart + MAX_CHUNK_LINES >= end) {
+      break;
+    }
+  }
+  return windows;
+}
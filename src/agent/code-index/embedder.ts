@@ -0,0 +1,146 @@
+/**
+ * Embedders - Turn code and queries into vectors
+ *
+ * The default embedder is fully local (hashed n-grams), so code search works
+ * offline. Anything implementing `Embedder` can be plugged in instead.
+ */
+
+import axios from 'axios';
+
+export interface Embedder {
+  /** Stored with the index; changing it forces a full reindex */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_DIMENSIONS = 512;
+const CHAR_NGRAM_SIZE = 3;
+const CHAR_NGRAM_WEIGHT = 0.5;
+const BIGRAM_WEIGHT = 0.75;
+
+// English filler and keywords so common in code that they only add noise
+const STOP_WORDS = new Set([
+  'the', 'to', 'of', 'and', 'or', 'in', 'on', 'is', 'are', 'be', 'it', 'for', 'with', 'by', 'at', 'as',
+  'an', 'this', 'that', 'where', 'what', 'how', 'from', 'if', 'else', 'return', 'const', 'let', 'var',
+  'new', 'await', 'async', 'function', 'import', 'export', 'null', 'undefined', 'true', 'false', 'void',
+  'string', 'number', 'any', 'self', 'def', 'none',
+]);
+
+/**
+ * Feature hashing over identifier-aware tokens: words (with camelCase and
+ * snake_case split apart), word bigrams and character trigrams. Similar code
+ * and queries that share vocabulary land close together without any model.
+ */
+export class HashedNgramEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(readonly dimensions: number = DEFAULT_DIMENSIONS) {
+    this.id = `hashed-ngram-v1-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = tokenize(text);
+
+    for (let i = 0; i < words.length; i++) {
+      this.addFeature(vector, `w:${words[i]}`, 1);
+
+      if (i > 0) {
+        this.addFeature(vector, `b:${words[i - 1]} ${words[i]}`, BIGRAM_WEIGHT);
+      }
+
+      const padded = `^${words[i]}$`;
+      for (let j = 0; j + CHAR_NGRAM_SIZE <= padded.length; j++) {
+        this.addFeature(vector, `c:${padded.substring(j, j + CHAR_NGRAM_SIZE)}`, CHAR_NGRAM_WEIGHT);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so colliding features tend to cancel out
+    vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+  }
+}
+
+/**
+ * Embeddings from an HTTP service, using the same `{ text }` -> `{ embedding }`
+ * contract as the checkpoint search's local provider
+ */
+export class HttpEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private endpoint: string = process.env.EMBEDDING_ENDPOINT || 'http://localhost:8001/embeddings') {
+    this.id = `http:${endpoint}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (const text of texts) {
+      try {
+        const response = await axios.post(this.endpoint, { text });
+        vectors.push(normalize(response.data.embedding));
+      } catch (error: any) {
+        throw new Error(`Failed to generate embedding: ${error.message}`);
+      }
+    }
+    return vectors;
+  }
+}
+
+export function createEmbedder(config: { embedder?: 'hashed' | 'http'; dimensions?: number } = {}): Embedder {
+  return config.embedder === 'http' ? new HttpEmbedder() : new HashedNgramEmbedder(config.dimensions);
+}
+
+/**
+ * Lowercase words from text, splitting identifiers like `getUserById` and
+ * `MAX_RETRIES` into their parts
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Crude suffix stripping so "persisted", "persists" and "persist" share features
+ */
+function stem(word: string): string {
+  const match = word.match(/^(.{4,}?)(?:ing|ed|es|s)$/);
+  return match ? match[1] : word;
+}
+
+/**
+ * Cosine similarity of two L2-normalized vectors
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,176 @@
+/**
+ * Code Index - Semantic search over the working tree
+ *
+ * Source files are chunked at symbol boundaries, embedded, and kept in a
+ * local vector store under TEMP_DIR. Each search first reindexes files whose
+ * mtime or size changed, so results always reflect the tree on disk.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TEMP_DIR } from '../../shared/constants';
+import { loadConfig } from '../../shared/utils/config-loader';
+import { walkProject, matchesGlob } from '../../shared/utils/glob';
+import { chunkFile, isIndexable } from './chunker';
+import { Embedder, createEmbedder, normalize } from './embedder';
+import { LocalVectorStore } from './vector-store';
+
+export { Embedder, HashedNgramEmbedder, HttpEmbedder, createEmbedder } from './embedder';
+
+const MAX_INDEXED_FILES = 5000;
+const MAX_INDEXED_FILE_SIZE = 256 * 1024;
+const DEFAULT_SEARCH_LIMIT = 10;
+
+export interface CodeSearchOptions {
+  limit?: number;
+  include?: string; // Only search files matching this glob
+  signal?: AbortSignal;
+}
+
+export interface CodeSearchResult {
+  path: string; // Relative to the working directory
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  score: number;
+  snippet: string;
+}
+
+export interface IndexStats {
+  indexed: number; // Files (re)embedded by this refresh
+  removed: number;
+  unchanged: number;
+  chunks: number; // Total chunks in the index afterwards
+}
+
+export class CodeIndex {
+  private store: LocalVectorStore;
+  private refreshing?: Promise<IndexStats>;
+
+  constructor(
+    private workingDirectory: string,
+    private embedder: Embedder = createEmbedder()
+  ) {
+    this.store = new LocalVectorStore(
+      path.join(workingDirectory, TEMP_DIR, 'code-index', 'index.json'),
+      embedder.id
+    );
+  }
+
+  /**
+   * Bring the index up to date with the working tree. Concurrent callers
+   * share one refresh.
+   */
+  async refresh(signal?: AbortSignal): Promise<IndexStats> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh(signal).finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  async search(query: string, options: CodeSearchOptions = {}): Promise<CodeSearchResult[]> {
+    await this.refresh(options.signal);
+
+    const [queryVector] = await this.embedder.embed([query]);
+    const filter = options.include ? (filePath: string) => matchesGlob(filePath, options.include!) : undefined;
+    const matches = this.store.search(normalize(queryVector), options.limit || DEFAULT_SEARCH_LIMIT, filter);
+
+    const fileLines = new Map<string, string[]>();
+    const results: CodeSearchResult[] = [];
+    for (const match of matches) {
+      let lines = fileLines.get(match.path);
+      if (!lines) {
+        lines = (await fs.promises.readFile(path.join(this.workingDirectory, match.path), 'utf-8')).split('\n');
+        fileLines.set(match.path, lines);
+      }
+
+      results.push({
+        path: match.path,
+        startLine: match.chunk.startLine,
+        endLine: match.chunk.endLine,
+        symbol: match.chunk.symbol,
+        score: Math.round(match.score * 1000) / 1000,
+        snippet: lines.slice(match.chunk.startLine - 1, match.chunk.endLine).join('\n'),
+      });
+    }
+    return results;
+  }
+
+  private async doRefresh(signal?: AbortSignal): Promise<IndexStats> {
+    await this.store.load();
+
+    const stats: IndexStats = { indexed: 0, removed: 0, unchanged: 0, chunks: 0 };
+    const seen = new Set<string>();
+
+    for await (const entry of walkProject(this.workingDirectory, this.workingDirectory, { signal })) {
+      if (entry.isDirectory || !isIndexable(entry.relativePath)) {
+        continue;
+      }
+      if (seen.size >= MAX_INDEXED_FILES) {
+        break;
+      }
+
+      let stat: fs.Stats;
+      try {
+        stat = await fs.promises.stat(entry.absolutePath);
+      } catch {
+        continue; // Removed while walking
+      }
+      if (!stat.isFile() || stat.size > MAX_INDEXED_FILE_SIZE) {
+        continue;
+      }
+      seen.add(entry.relativePath);
+
+      const existing = this.store.getFile(entry.relativePath);
+      if (existing && existing.mtimeMs === stat.mtimeMs && existing.size === stat.size) {
+        stats.unchanged++;
+        continue;
+      }
+
+      const content = await fs.promises.readFile(entry.absolutePath, 'utf-8');
+      const chunks = chunkFile(entry.relativePath, content);
+      // The path and symbol name are part of what a chunk is "about"
+      const vectors = await this.embedder.embed(
+        chunks.map((chunk) => `${entry.relativePath}\n${chunk.symbol || ''}\n${chunk.text}`)
+      );
+
+      this.store.setFile(entry.relativePath, {
+        mtimeMs: stat.mtimeMs,
+        size: stat.size,
+        chunks: chunks.map((chunk, i) => ({
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          symbol: chunk.symbol,
+          vector: Float32Array.from(normalize(vectors[i])),
+        })),
+      });
+      stats.indexed++;
+    }
+
+    for (const filePath of this.store.paths()) {
+      if (!seen.has(filePath)) {
+        this.store.removeFile(filePath);
+        stats.removed++;
+      }
+    }
+
+    await this.store.save();
+    stats.chunks = this.store.chunkCount;
+    return stats;
+  }
+}
+
+// One index per working directory, so the store is loaded once per process
+const indexes = new Map<string, CodeIndex>();
+
+export function getCodeIndex(workingDirectory: string): CodeIndex {
+  const key = path.resolve(workingDirectory);
+  let index = indexes.get(key);
+  if (!index) {
+    index = new CodeIndex(key, createEmbedder(loadConfig().agent.codeSearch));
+    indexes.set(key, index);
+  }
+  return index;
+}
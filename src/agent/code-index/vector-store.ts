@@ -0,0 +1,171 @@
+/**
+ * Local Vector Store - Chunk embeddings persisted as one JSON file
+ *
+ * Vectors are kept in memory as Float32Arrays and saved base64-encoded, which
+ * keeps the file small enough to load whole. Search is a linear cosine scan,
+ * plenty for a single working tree.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { cosineSimilarity } from './embedder';
+import { ensureIgnoredByGit } from '../../shared/utils/file-utils';
+
+const STORE_VERSION = 1;
+
+export interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  vector: Float32Array;
+}
+
+export interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  chunks: IndexedChunk[];
+}
+
+export interface VectorMatch {
+  path: string;
+  chunk: IndexedChunk;
+  score: number;
+}
+
+interface StoredFile {
+  mtimeMs: number;
+  size: number;
+  chunks: { startLine: number; endLine: number; symbol?: string; vector: string }[];
+}
+
+interface StoreData {
+  version: number;
+  embedder: string;
+  files: Record<string, StoredFile>;
+}
+
+export class LocalVectorStore {
+  private files = new Map<string, IndexedFile>();
+  private loaded = false;
+  private dirty = false;
+
+  constructor(
+    private storePath: string,
+    private embedderId: string
+  ) {}
+
+  /**
+   * Load the store from disk once. A missing, corrupt, outdated or
+   * differently-embedded store starts empty, so everything gets reindexed.
+   */
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    let data: StoreData;
+    try {
+      data = JSON.parse(await fs.promises.readFile(this.storePath, 'utf-8'));
+    } catch {
+      return;
+    }
+
+    if (data.version !== STORE_VERSION || data.embedder !== this.embedderId) {
+      this.dirty = true;
+      return;
+    }
+
+    for (const [filePath, file] of Object.entries(data.files)) {
+      this.files.set(filePath, {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        chunks: file.chunks.map((chunk) => ({ ...chunk, vector: decodeVector(chunk.vector) })),
+      });
+    }
+  }
+
+  /**
+   * Write the store if anything changed, via a temp file so readers never see
+   * a half-written index
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const data: StoreData = { version: STORE_VERSION, embedder: this.embedderId, files: {} };
+    for (const [filePath, file] of this.files) {
+      data.files[filePath] = {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        chunks: file.chunks.map((chunk) => ({ ...chunk, vector: encodeVector(chunk.vector) })),
+      };
+    }
+
+    const dir = path.dirname(this.storePath);
+    await fs.promises.mkdir(dir, { recursive: true });
+    await ensureIgnoredByGit(path.dirname(dir));
+    const tempPath = `${this.storePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+    await fs.promises.rename(tempPath, this.storePath);
+    this.dirty = false;
+  }
+
+  getFile(filePath: string): IndexedFile | undefined {
+    return this.files.get(filePath);
+  }
+
+  setFile(filePath: string, file: IndexedFile): void {
+    this.files.set(filePath, file);
+    this.dirty = true;
+  }
+
+  removeFile(filePath: string): void {
+    if (this.files.delete(filePath)) {
+      this.dirty = true;
+    }
+  }
+
+  paths(): string[] {
+    return [...this.files.keys()];
+  }
+
+  get chunkCount(): number {
+    let count = 0;
+    for (const file of this.files.values()) {
+      count += file.chunks.length;
+    }
+    return count;
+  }
+
+  /**
+   * Best-scoring chunks for a normalized query vector
+   */
+  search(queryVector: ArrayLike<number>, limit: number, filter?: (filePath: string) => boolean): VectorMatch[] {
+    const matches: VectorMatch[] = [];
+
+    for (const [filePath, file] of this.files) {
+      if (filter && !filter(filePath)) {
+        continue;
+      }
+      for (const chunk of file.chunks) {
+        matches.push({ path: filePath, chunk, score: cosineSimilarity(queryVector, chunk.vector) });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64');
+  // Copy into an aligned buffer; Buffer pools may hand out unaligned offsets
+  const bytes = new Uint8Array(buffer.byteLength);
+  bytes.set(buffer);
+  return new Float32Array(bytes.buffer);
+}
@@ -0,0 +1,225 @@
+/**
+ * Command Policy - Decide whether the agent may run a shell command
+ *
+ * The command line is parsed into every program it would run, and each is
+ * checked against allow/ask/deny rules by program name and arguments.
+ * Output redirections must stay inside the path sandbox.
+ */
+
+import * as path from 'path';
+import { CommandPolicyAction, CommandPolicyConfig, CommandRule } from '../../shared/types/config';
+import { PathSandbox } from '../../shared/utils/sandbox';
+import { ApprovalHandler } from '../../shared/types/task';
+import { CommandBlockedError } from '../../shared/errors';
+import { parseShellCommand, programName, ShellParseError, SimpleCommand } from './shell-parser';
+
+export { parseShellCommand, ShellParseError } from './shell-parser';
+export type { SimpleCommand, Redirect } from './shell-parser';
+
+export interface PolicyDecision {
+  action: CommandPolicyAction;
+  reason: string;
+  command?: string; // The part of the command line that decided it
+}
+
+const RECURSIVE_FLAG = '/^(-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)$/';
+
+export const DEFAULT_COMMAND_RULES: CommandRule[] = [
+  {
+    action: 'deny',
+    program: 'rm',
+    args: [RECURSIVE_FLAG, '{/,/\\*,~,~/,~/\\*,\\*,.,./,./\\*,..,../,../\\*,$HOME,$HOME/,$HOME/\\*,.git,.git/}'],
+    reason: 'Recursive delete of the filesystem root, the home directory or the whole project',
+  },
+  { action: 'ask', program: 'rm', args: [RECURSIVE_FLAG], reason: 'Recursive delete' },
+  {
+    action: 'deny',
+    program: '{sh,bash,zsh,dash,ksh,fish}',
+    piped: true,
+    reason: 'Piping into a shell runs code nobody has reviewed',
+  },
+  { action: 'deny', program: '{mkfs,mkfs.*,mkswap,fdisk,parted,wipefs}', reason: 'Formats or repartitions disks' },
+  { action: 'deny', program: 'dd', args: ['of=/dev/*'], reason: 'Writes to a raw device' },
+  { action: 'deny', program: '{shutdown,reboot,halt,poweroff}', reason: 'Stops the machine' },
+  { action: 'deny', program: '{init,telinit}', args: ['{0,6}'], reason: 'Stops the machine' },
+  { action: 'ask', program: '{sudo,su,doas}', reason: 'Runs with elevated privileges' },
+  { action: 'ask', program: '{chmod,chown,chgrp}', args: [RECURSIVE_FLAG], reason: 'Recursive permission change' },
+];
+
+// Places output may always go
+const SAFE_REDIRECT_TARGETS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty']);
+
+const WRITE_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>', '<>', '>&']);
+
+const SEVERITY: Record<CommandPolicyAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+interface CompiledRule {
+  rule: CommandRule;
+  program: RegExp;
+  args: RegExp[];
+}
+
+export class CommandPolicy {
+  private rules: CompiledRule[];
+  private defaultAction: CommandPolicyAction;
+
+  constructor(
+    config: CommandPolicyConfig = {},
+    private sandbox?: PathSandbox
+  ) {
+    const rules = [...(config.useDefaultRules === false ? [] : DEFAULT_COMMAND_RULES), ...(config.rules || [])];
+    this.rules = rules.map((rule) => ({
+      rule,
+      program: compilePattern(rule.program),
+      args: (rule.args || []).map(compilePattern),
+    }));
+    this.defaultAction = config.defaultAction || 'allow';
+  }
+
+  /**
+   * The strictest decision over every program the command line would run.
+   * `cwd` is where relative redirection targets resolve.
+   */
+  evaluate(command: string, cwd?: string): PolicyDecision {
+    let commands: SimpleCommand[];
+    try {
+      commands = parseShellCommand(command);
+    } catch (error) {
+      if (!(error instanceof ShellParseError)) throw error;
+      // Whatever we cannot read needs a human to read it
+      return {
+        action: this.defaultAction === 'deny' ? 'deny' : 'ask',
+        reason: `Command could not be checked: ${error.message}`,
+      };
+    }
+
+    let decision: PolicyDecision | null = null;
+    for (const simple of commands) {
+      for (const candidate of [this.evaluateProgram(simple), this.evaluateRedirects(simple, cwd)]) {
+        if (candidate && (!decision || SEVERITY[candidate.action] > SEVERITY[decision.action])) {
+          decision = candidate;
+        }
+      }
+    }
+
+    return decision || { action: 'allow', reason: 'Nothing to run' };
+  }
+
+  /**
+   * Throws CommandBlockedError unless the command is allowed or a user approves it
+   */
+  async authorize(
+    command: string,
+    cwd: string | undefined,
+    requestApproval?: ApprovalHandler,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const decision = this.evaluate(command, cwd);
+    if (decision.action === 'allow') {
+      return;
+    }
+
+    if (decision.action === 'deny') {
+      throw new CommandBlockedError(`Command blocked by policy: ${decision.reason}`, command);
+    }
+
+    if (!requestApproval) {
+      throw new CommandBlockedError(`Command needs approval but nobody can be asked: ${decision.reason}`, command);
+    }
+
+    const approved = await requestApproval({ kind: 'command', command, reason: decision.reason }, signal);
+    if (!approved) {
+      throw new CommandBlockedError(`Command not approved: ${command}`, command);
+    }
+  }
+
+  private evaluateProgram(command: SimpleCommand): PolicyDecision | null {
+    if (command.argv.length === 0) {
+      return null;
+    }
+
+    const name = programName(command.argv[0]);
+    const args = command.argv.slice(1);
+    let match: CommandRule | null = null;
+
+    for (const { rule, program, args: argPatterns } of this.rules) {
+      if (!program.test(name)) continue;
+      if (rule.piped && !command.piped) continue;
+      if (!argPatterns.every((pattern) => args.some((arg) => pattern.test(arg)))) continue;
+      if (!match || SEVERITY[rule.action] > SEVERITY[match.action]) {
+        match = rule;
+      }
+    }
+
+    if (!match) {
+      return {
+        action: this.defaultAction,
+        reason: this.defaultAction === 'allow' ? 'No rule matched' : `${name} is not on the allow list`,
+        command: command.source,
+      };
+    }
+    return { action: match.action, reason: match.reason || `Matched a rule for ${match.program}`, command: command.source };
+  }
+
+  private evaluateRedirects(command: SimpleCommand, cwd?: string): PolicyDecision | null {
+    if (!this.sandbox) {
+      return null;
+    }
+
+    for (const { operator, target } of command.redirects) {
+      // 2>&1 and the like duplicate a descriptor rather than open a file
+      if (!WRITE_REDIRECTS.has(operator) || (operator === '>&' && /^(\d+|-)$/.test(target))) {
+        continue;
+      }
+      if (SAFE_REDIRECT_TARGETS.has(target)) {
+        continue;
+      }
+      if (/[$`~]/.test(target)) {
+        return { action: 'ask', reason: `Output goes to a path only known at run time: ${target}`, command: command.source };
+      }
+      if (!this.sandbox.isAllowed(path.resolve(cwd || this.sandbox.rootDir, target))) {
+        return { action: 'deny', reason: `Output goes outside the sandbox: ${target}`, command: command.source };
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Anchored RegExp for a rule pattern: `/.../flags` is a regex; otherwise `*`
+ * matches anything, `?` one character, `{a,b}` alternatives and `\` escapes
+ */
+export function compilePattern(pattern: string): RegExp {
+  const regex = /^\/(.*)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]);
+  }
+
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,112 @@
+import { parseShellCommand, programName, ShellParseError } from './shell-parser';
+
+function programs(command: string): string[][] {
+  return parseShellCommand(command).map((simple) => simple.argv);
+}
+
+describe('parseShellCommand', () => {
+  it('removes quotes and escapes from words', () => {
+    expect(programs(`echo 'a b' "c \\"d\\"" e\\ f`)).toEqual([['echo', 'a b', 'c "d"', 'e f']]);
+  });
+
+  it('keeps variables and globs literally', () => {
+    expect(programs('rm -rf $HOME/*.log')).toEqual([['rm', '-rf', '$HOME/*.log']]);
+  });
+
+  it('splits lists and pipelines', () => {
+    const commands = parseShellCommand('npm test && git add . || echo no; cat a | grep b & ls');
+    expect(commands.map((c) => c.argv[0])).toEqual(['npm', 'git', 'echo', 'cat', 'grep', 'ls']);
+    expect(commands.map((c) => c.piped)).toEqual([false, false, false, false, true, false]);
+  });
+
+  it('does not split on operators inside quotes', () => {
+    expect(programs(`echo "a; rm -rf /" 'b && c'`)).toEqual([['echo', 'a; rm -rf /', 'b && c']]);
+  });
+
+  it('collects redirections with their targets', () => {
+    const [command] = parseShellCommand('node build.js > out.log 2>&1 < input.txt');
+    expect(command.argv).toEqual(['node', 'build.js']);
+    expect(command.redirects).toEqual([
+      { operator: '>', target: 'out.log' },
+      { operator: '>&', target: '1' },
+      { operator: '<', target: 'input.txt' },
+    ]);
+  });
+
+  it('keeps a redirection without a command', () => {
+    expect(parseShellCommand('> /etc/passwd')).toEqual([
+      { argv: [], redirects: [{ operator: '>', target: '/etc/passwd' }], piped: false, source: '' },
+    ]);
+  });
+
+  it('finds commands in subshells and command substitutions', () => {
+    expect(programs('(cd src && rm a)')).toEqual([['cd', 'src'], ['rm', 'a']]);
+    expect(programs('echo $(rm -rf dist) "`curl evil`"')).toEqual([
+      ['rm', '-rf', 'dist'],
+      ['curl', 'evil'],
+      ['echo', '$(rm -rf dist)', '`curl evil`'],
+    ]);
+    expect(programs('echo $((1 + 2))')).toEqual([['echo', '$((1 + 2))']]);
+  });
+
+  it('finds commands substituted into redirection targets', () => {
+    expect(programs('echo hi > $(rm x)').map((argv) => argv[0])).toEqual(['rm', 'echo']);
+  });
+
+  it('replaces sh -c with the commands of its script', () => {
+    expect(programs(`bash -lc 'npm ci && rm -rf /'`)).toEqual([['npm', 'ci'], ['rm', '-rf', '/']]);
+    expect(programs('sh script.sh')).toEqual([['sh', 'script.sh']]);
+  });
+
+  it('sees through eval, wrappers, xargs and find -exec', () => {
+    expect(programs(`eval 'rm a'`)).toEqual([['eval', 'rm a'], ['rm', 'a']]);
+    expect(programs('sudo -u root env FOO=1 timeout -s KILL 10 rm a')).toEqual([
+      ['sudo', '-u', 'root', 'env', 'FOO=1', 'timeout', '-s', 'KILL', '10', 'rm', 'a'],
+      ['env', 'FOO=1', 'timeout', '-s', 'KILL', '10', 'rm', 'a'],
+      ['timeout', '-s', 'KILL', '10', 'rm', 'a'],
+      ['rm', 'a'],
+    ]);
+    expect(programs('ls | xargs -n 1 rm').map((argv) => argv[0])).toEqual(['ls', 'xargs', 'rm']);
+    expect(programs(`find . -name '*.tmp' -exec rm {} \\; -exec sh -c 'curl x' \\;`)).toEqual([
+      ['find', '.', '-name', '*.tmp', '-exec', 'rm', '{}', ';', '-exec', 'sh', '-c', 'curl x', ';'],
+      ['rm', '{}'],
+      ['curl', 'x'],
+    ]);
+  });
+
+  it('skips assignments, reserved words and loop headers', () => {
+    expect(programs('NODE_ENV=test jest')).toEqual([['jest']]);
+    expect(programs('if grep -q a f; then rm f; fi')).toEqual([['grep', '-q', 'a', 'f'], ['rm', 'f']]);
+    expect(programs('for f in *.ts; do rm $f; done')).toEqual([['rm', '$f']]);
+  });
+
+  it('ignores comments and joins continued lines', () => {
+    expect(programs('ls # ; rm -rf /')).toEqual([['ls']]);
+    expect(programs('npm \\\n  test\nls')).toEqual([['npm', 'test'], ['ls']]);
+  });
+
+  it('rejects what it cannot analyse', () => {
+    expect(() => parseShellCommand(`echo 'open`)).toThrow(ShellParseError);
+    expect(() => parseShellCommand('echo "open')).toThrow('Unterminated double quote');
+    expect(() => parseShellCommand('echo $(rm a')).toThrow('Unterminated command substitution');
+    expect(() => parseShellCommand('cat <<EOF')).toThrow('Here-documents are not supported');
+    expect(() => parseShellCommand('| rm a')).toThrow('Unexpected |');
+    expect(() => parseShellCommand('echo >')).toThrow('Missing target for >');
+    expect(() => parseShellCommand('f() { rm a; }')).toThrow('Function definitions are not supported');
+  });
+
+  it('limits nesting', () => {
+    let command = 'rm a';
+    for (let i = 0; i < 7; i++) {
+      command = `sh -c ${JSON.stringify(command)}`;
+    }
+    expect(() => parseShellCommand(command)).toThrow('Commands are nested too deeply');
+  });
+});
+
+describe('programName', () => {
+  it('strips the directory', () => {
+    expect(programName('/usr/bin/rm')).toBe('rm');
+    expect(programName('rm')).toBe('rm');
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Shell Parser - Split a shell command line into simple commands
+ *
+ * Understands enough POSIX shell to see every program a command line would
+ * run: quoting and escapes, pipelines, lists (`;`, `&&`, `||`, `&`),
+ * subshells, redirections, command substitution, and scripts handed to
+ * `sh -c`, `eval`, `xargs`, `find -exec` or wrappers like `sudo` and `env`.
+ * It does not expand variables or globs; words keep them literally.
+ */
+
+export interface Redirect {
+  operator: string; // e.g. '>', '>>', '<', '&>', '>&'
+  target: string;
+}
+
+export interface SimpleCommand {
+  argv: string[]; // Program and arguments, quotes removed
+  redirects: Redirect[];
+  piped: boolean; // Reads the output of a previous command in a pipeline
+  source: string; // The words as written, for messages
+}
+
+export class ShellParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellParseError';
+  }
+}
+
+const MAX_NESTING = 5;
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish']);
+
+// Reserved words that may precede a command (`if grep ...; then rm ...; fi`)
+const RESERVED_PREFIXES = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}', 'esac']);
+
+// Constructs whose words are data, not a command (`for f in *.ts`)
+const NON_COMMANDS = new Set(['for', 'select', 'case', 'in']);
+
+// Programs that run the rest of their arguments as a command, and how many
+// leading option arguments take a value
+const WRAPPERS: Record<string, { optionsWithValue: string[]; positional?: number }> = {
+  sudo: { optionsWithValue: ['-u', '-g', '-h', '-p', '-C', '-U'] },
+  doas: { optionsWithValue: ['-u', '-C'] },
+  env: { optionsWithValue: ['-u', '-C', '-S'] },
+  nohup: { optionsWithValue: [] },
+  time: { optionsWithValue: ['-f', '-o'] },
+  nice: { optionsWithValue: ['-n'] },
+  ionice: { optionsWithValue: ['-c', '-n', '-p'] },
+  timeout: { optionsWithValue: ['-s', '-k', '--signal', '--kill-after'], positional: 1 },
+  stdbuf: { optionsWithValue: ['-i', '-o', '-e'] },
+  command: { optionsWithValue: [] },
+  builtin: { optionsWithValue: [] },
+  exec: { optionsWithValue: ['-a'] },
+  xargs: { optionsWithValue: ['-I', '-i', '-n', '-P', '-L', '-l', '-d', '-E', '-e', '-s', '-a'] },
+  watch: { optionsWithValue: ['-n', '-d'] },
+};
+
+interface Token {
+  kind: 'word' | 'operator';
+  value: string; // Word with quotes removed, or the operator
+  raw: string; // As written
+  substitutions: string[]; // Bodies of $(...) and `...` inside the word
+}
+
+/**
+ * Every simple command a command line would run, including nested ones
+ */
+export function parseShellCommand(command: string, depth: number = 0): SimpleCommand[] {
+  if (depth > MAX_NESTING) {
+    throw new ShellParseError('Commands are nested too deeply');
+  }
+
+  const commands: SimpleCommand[] = [];
+  let words: Token[] = [];
+  let redirects: Redirect[] = [];
+  let piped = false;
+
+  const finish = (nextPiped: boolean) => {
+    if (words.length > 0) {
+      commands.push(...expandCommand(words, redirects, piped, depth));
+    } else if (redirects.length > 0) {
+      commands.push({ argv: [], redirects, piped, source: '' });
+    }
+    words = [];
+    redirects = [];
+    piped = nextPiped;
+  };
+
+  const tokens = tokenize(command);
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    for (const body of token.substitutions) {
+      commands.push(...parseShellCommand(body, depth + 1));
+    }
+
+    if (token.kind === 'word') {
+      words.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case '|':
+      case '|&':
+        if (words.length === 0) {
+          throw new ShellParseError(`Unexpected ${token.value}`);
+        }
+        finish(true);
+        break;
+
+      case '(':
+        if (words.length > 0) {
+          throw new ShellParseError('Function definitions are not supported');
+        }
+        finish(false);
+        break;
+
+      case ';':
+      case '&':
+      case '&&':
+      case '||':
+      case ')':
+      case '\n':
+        finish(false);
+        break;
+
+      case '<<':
+      case '<<-':
+        throw new ShellParseError('Here-documents are not supported');
+
+      default: {
+        // Redirection: the next word is its target
+        const target = tokens[i + 1];
+        if (!target || target.kind !== 'word') {
+          throw new ShellParseError(`Missing target for ${token.value}`);
+        }
+        for (const body of target.substitutions) {
+          commands.push(...parseShellCommand(body, depth + 1));
+        }
+        redirects.push({ operator: token.value.replace(/^\d+/, ''), target: target.value });
+        i++;
+      }
+    }
+  }
+  finish(false);
+
+  return commands;
+}
+
+/**
+ * A simple command plus whatever it runs in turn (sudo, sh -c, xargs, ...)
+ */
+function expandCommand(words: Token[], redirects: Redirect[], piped: boolean, depth: number): SimpleCommand[] {
+  // Leading reserved words and VAR=value assignments are not part of the command
+  let start = 0;
+  while (
+    start < words.length &&
+    (RESERVED_PREFIXES.has(words[start].raw) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[start].raw))
+  ) {
+    start++;
+  }
+  if (start < words.length && NON_COMMANDS.has(words[start].raw)) {
+    return [];
+  }
+
+  const argv = words.slice(start).map((word) => word.value);
+  const source = words.map((word) => word.raw).join(' ');
+  if (argv.length === 0) {
+    return redirects.length > 0 ? [{ argv, redirects, piped, source }] : [];
+  }
+
+  return withInnerCommands({ argv, redirects, piped, source }, depth);
+}
+
+/**
+ * A command followed by the commands it runs. `sh -c 'script'` is replaced
+ * by the script's commands; a shell without -c reads its script from stdin
+ * or a file, which is left to the rules.
+ */
+function withInnerCommands(command: SimpleCommand, depth: number): SimpleCommand[] {
+  const [program, ...args] = command.argv;
+  const name = programName(program);
+
+  if (SHELLS.has(name)) {
+    const flagIndex = args.findIndex((arg) => /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg));
+    if (flagIndex !== -1 && flagIndex + 1 < args.length) {
+      return parseShellCommand(args[flagIndex + 1], depth + 1);
+    }
+    return [command];
+  }
+
+  if (name === 'eval') {
+    return [command, ...parseShellCommand(args.join(' '), depth + 1)];
+  }
+
+  if (name === 'find') {
+    return [command, ...findExecCommands(args, depth)];
+  }
+
+  const wrapper = WRAPPERS[name];
+  if (!wrapper) {
+    return [command];
+  }
+
+  let i = 0;
+  let positional = wrapper.positional || 0;
+  while (i < args.length) {
+    const arg = args[i];
+    if (arg === '--') {
+      i++;
+      break;
+    }
+    if (name === 'env' && /^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+      i++;
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      i += wrapper.optionsWithValue.includes(arg) ? 2 : 1;
+    } else if (positional > 0) {
+      positional--;
+      i++;
+    } else {
+      break;
+    }
+  }
+
+  const rest = args.slice(i);
+  if (rest.length === 0) {
+    return [command];
+  }
+
+  const inner: SimpleCommand = { argv: rest, redirects: [], piped: command.piped, source: rest.join(' ') };
+  return [command, ...withInnerCommands(inner, depth + 1)];
+}
+
+/**
+ * Commands run by `find ... -exec cmd {} ;` (and -execdir, -ok, -okdir)
+ */
+function findExecCommands(args: string[], depth: number): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (!['-exec', '-execdir', '-ok', '-okdir'].includes(args[i])) {
+      continue;
+    }
+    const end = args.findIndex((arg, j) => j > i && (arg === ';' || arg === '+'));
+    const argv = args.slice(i + 1, end === -1 ? undefined : end);
+    if (argv.length > 0) {
+      commands.push(...withInnerCommands({ argv, redirects: [], piped: false, source: argv.join(' ') }, depth + 1));
+    }
+    if (end === -1) break;
+    i = end;
+  }
+
+  return commands;
+}
+
+/**
+ * Base name of a program, so `/usr/bin/rm` and `rm` are the same
+ */
+export function programName(program: string): string {
+  return program.split('/').pop() || program;
+}
+
+// Longest operators first so `&&` is not read as two `&`
+const OPERATORS = ['<<-', '&>>', '<<<', '&&', '||', '|&', '<<', '>>', '>|', '>&', '<&', '<>', '&>', '|', '&', ';', '(', ')', '<', '>', '\n'];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      i++;
+      continue;
+    }
+
+    // Comments run to the end of the line
+    if (char === '#') {
+      while (i < input.length && input[i] !== '\n') i++;
+      continue;
+    }
+
+    // A line continuation joins lines
+    if (char === '\\' && input[i + 1] === '\n') {
+      i += 2;
+      continue;
+    }
+
+    // File descriptor numbers belong to the redirection that follows (2>, 2>&1)
+    const fd = /^\d+(?=[<>])/.exec(input.slice(i));
+    const operator = OPERATORS.find((op) => input.startsWith(op, i + (fd ? fd[0].length : 0)));
+    if (operator && (!fd || '<>'.includes(operator[0]))) {
+      const raw = (fd ? fd[0] : '') + operator;
+      if (operator === '<<<') {
+        tokens.push({ kind: 'operator', value: '<', raw, substitutions: [] });
+      } else {
+        tokens.push({ kind: 'operator', value: raw, raw, substitutions: [] });
+      }
+      i += raw.length;
+      continue;
+    }
+
+    const word = readWord(input, i);
+    tokens.push(word.token);
+    i = word.end;
+  }
+
+  return tokens;
+}
+
+function readWord(input: string, start: number): { token: Token; end: number } {
+  let value = '';
+  const substitutions: string[] = [];
+  let i = start;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/[\s|&;()<>]/.test(char)) {
+      break;
+    }
+
+    if (char === '\\') {
+      if (i + 1 < input.length && input[i + 1] !== '\n') {
+        value += input[i + 1];
+      }
+      i += 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw new ShellParseError('Unterminated single quote');
+      value += input.slice(i + 1, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length && '"\\$`\n'.includes(input[i + 1])) {
+          value += input[i + 1];
+          i += 2;
+        } else if (input[i] === '$' && input[i + 1] === '(' && input[i + 2] !== '(') {
+          const end = findClosingParen(input, i + 1);
+          substitutions.push(input.slice(i + 2, end));
+          value += input.slice(i, end + 1);
+          i = end + 1;
+        } else if (input[i] === '`') {
+          const end = findBacktick(input, i);
+          substitutions.push(input.slice(i + 1, end));
+          value += input.slice(i, end + 1);
+          i = end + 1;
+        } else {
+          value += input[i];
+          i++;
+        }
+      }
+      if (i >= input.length) throw new ShellParseError('Unterminated double quote');
+      i++;
+      continue;
+    }
+
+    if (char === '$' && input[i + 1] === '(') {
+      // $((arithmetic)) runs nothing; $(command) does
+      const end = findClosingParen(input, i + 1);
+      if (input[i + 2] !== '(') {
+        substitutions.push(input.slice(i + 2, end));
+      }
+      value += input.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = findBacktick(input, i);
+      substitutions.push(input.slice(i + 1, end));
+      value += input.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    value += char;
+    i++;
+  }
+
+  return {
+    token: { kind: 'word', value, raw: input.slice(start, i), substitutions },
+    end: i,
+  };
+}
+
+/**
+ * Index of the `)` closing the `(` at `open`, skipping quoted text
+ */
+function findClosingParen(input: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) break;
+      i = end;
+    } else if (char === '"') {
+      i = skipDoubleQuoted(input, i);
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  throw new ShellParseError('Unterminated command substitution');
+}
+
+function skipDoubleQuoted(input: string, open: number): number {
+  for (let i = open + 1; i < input.length; i++) {
+    if (input[i] === '\\') i++;
+    else if (input[i] === '"') return i;
+  }
+  throw new ShellParseError('Unterminated double quote');
+}
+
+function findBacktick(input: string, open: number): number {
+  for (let i = open + 1; i < input.length; i++) {
+    if (input[i] === '\\') i++;
+    else if (input[i] === '`') return i;
+  }
+  throw new ShellParseError('Unterminated backquote');
+}
@@ -0,0 +1,26 @@
+/**
+ * LLM Completion - streams token deltas to the context's listener when there is one,
+ * and aborts the request when the task is cancelled
+ */
+
+import { BaseLLMClient } from '../llm/base-client';
+import { CompletionRequest, CompletionResponse } from '../llm/types';
+import { AgentContext, emitEvent } from './context';
+
+export async function requestCompletion(
+  llm: BaseLLMClient,
+  context: AgentContext,
+  request: CompletionRequest
+): Promise<CompletionResponse> {
+  request = { ...request, signal: context.signal };
+
+  if (!context.onEvent) {
+    return llm.generateCompletion(request);
+  }
+
+  return llm.streamCompletion(request, (chunk) => {
+    if (chunk.delta) {
+      emitEvent(context, { type: 'token', delta: chunk.delta });
+    }
+  });
+}
@@ -2,25 +2,49 @@
  * Agent Context - Maintains state during task execution
  */
 
-import { ExecutionLog, CommandResult } from '../shared/types/task';
+import { ExecutionLog, CommandResult, FileOperation, JournalEntry, PlanStep } from '../shared/types/task';
+import { TaskEvent } from '../shared/types/events';
+import { TaskCancelledError } from '../shared/errors';
 
 export interface AgentContext {
+  taskId?: string;
   goal: string;
   workingDirectory: string;
   filesModified: string[];
+  fileOperations: FileOperation[];
   commandsRun: CommandResult[];
   logs: ExecutionLog[];
+  journal: JournalEntry[]; // Backups of files, made before the first change to each
+  projectContext?: string[]; // Project summary and pinned files, sent as CompletionRequest.context
   metadata: Record<string, any>;
+  onEvent?: (event: TaskEvent) => void; // Live progress listener (e.g. an SSE stream)
+  signal?: AbortSignal; // Aborted when the task is cancelled
+  beforeChange?: () => Promise<void>; // Awaited before a step changes the real project
 }
 
-export function createContext(goal: string, workingDirectory?: string): AgentContext {
+export interface ContextOptions {
+  taskId?: string;
+  onEvent?: (event: TaskEvent) => void;
+  signal?: AbortSignal;
+}
+
+export function createContext(
+  goal: string,
+  workingDirectory?: string,
+  options: ContextOptions = {}
+): AgentContext {
   return {
+    taskId: options.taskId,
     goal,
     workingDirectory: workingDirectory || process.cwd(),
     filesModified: [],
+    fileOperations: [],
     commandsRun: [],
     logs: [],
+    journal: [],
     metadata: {},
+    onEvent: options.onEvent,
+    signal: options.signal,
   };
 }
 
@@ -30,12 +54,36 @@ export function addLog(
   message: string,
   data?: any
 ): void {
-  context.logs.push({
+  const log = {
     timestamp: new Date(),
     level,
     message,
     data,
-  });
+  };
+  context.logs.push(log);
+  emitEvent(context, { type: 'log', log });
+}
+
+export function setStepStatus(context: AgentContext, step: PlanStep, status: PlanStep['status']): void {
+  step.status = status;
+  emitEvent(context, { type: 'step', stepId: step.stepId, description: step.description, status });
+}
+
+export function throwIfCancelled(context: AgentContext): void {
+  if (context.signal?.aborted) {
+    throw new TaskCancelledError();
+  }
+}
+
+export function emitEvent(context: AgentContext, event: TaskEvent): void {
+  if (!context.onEvent) {
+    return;
+  }
+  try {
+    context.onEvent(event);
+  } catch {
+    // A broken listener must never break the run
+  }
 }
 
 export function addFileModified(context: AgentContext, filePath: string): void {
@@ -44,6 +92,22 @@ export function addFileModified(context: AgentContext, filePath: string): void {
   }
 }
 
+/**
+ * Record a file operation; every path it touches also lands in filesModified
+ */
+export function addFileOperation(context: AgentContext, operation: FileOperation): void {
+  const seen = context.fileOperations.some(
+    (op) => op.operation === operation.operation && op.path === operation.path && op.from === operation.from
+  );
+  if (!seen) {
+    context.fileOperations.push(operation);
+  }
+  if (operation.from) {
+    addFileModified(context, operation.from);
+  }
+  addFileModified(context, operation.path);
+}
+
 export function addCommandRun(context: AgentContext, result: CommandResult): void {
   context.commandsRun.push(result);
 }
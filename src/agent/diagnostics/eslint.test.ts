@@ -0,0 +1,51 @@
+import { eslintParser } from './eslint';
+
+const OUTPUT = `
+/home/dev/app/src/index.ts
+   3:7   error    'unused' is assigned a value but never used  @typescript-eslint/no-unused-vars
+  10:1   warning  Unexpected console statement                 no-console
+
+/home/dev/app/src/parse.ts
+  1:15  error  Parsing error: ';' expected
+
+✖ 3 problems (2 errors, 1 warning)
+`;
+
+describe('eslintParser', () => {
+  it('parses stylish output per file', () => {
+    expect(eslintParser.detect(OUTPUT)).toBe(true);
+    expect(eslintParser.parse(OUTPUT.split('\n'))).toEqual([
+      {
+        source: 'eslint',
+        severity: 'error',
+        file: '/home/dev/app/src/index.ts',
+        line: 3,
+        column: 7,
+        rule: '@typescript-eslint/no-unused-vars',
+        message: "'unused' is assigned a value but never used",
+      },
+      {
+        source: 'eslint',
+        severity: 'warning',
+        file: '/home/dev/app/src/index.ts',
+        line: 10,
+        column: 1,
+        rule: 'no-console',
+        message: 'Unexpected console statement',
+      },
+      {
+        source: 'eslint',
+        severity: 'error',
+        file: '/home/dev/app/src/parse.ts',
+        line: 1,
+        column: 15,
+        rule: undefined,
+        message: "Parsing error: ';' expected",
+      },
+    ]);
+  });
+
+  it('ignores output without problems', () => {
+    expect(eslintParser.detect('> eslint src\n')).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * ESLint's default "stylish" output: a file name, then one indented line per problem
+ */
+
+import { Diagnostic } from '../../shared/types/task';
+import type { DiagnosticParser } from '.';
+
+// "  12:5  error  'x' is defined but never used  no-unused-vars"; parse errors have no rule
+const PROBLEM = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}([@\w/.-]+))?\s*$/;
+
+export const eslintParser: DiagnosticParser = {
+  source: 'eslint',
+
+  detect: (output) => /^\s+\d+:\d+\s+(error|warning)\s{2}/m.test(output),
+
+  parse(lines) {
+    const diagnostics: Diagnostic[] = [];
+    let file: string | undefined;
+
+    for (const line of lines) {
+      const match = PROBLEM.exec(line);
+      if (match) {
+        diagnostics.push({
+          source: 'eslint',
+          severity: match[3] as Diagnostic['severity'],
+          file,
+          line: parseInt(match[1]),
+          column: parseInt(match[2]),
+          rule: match[5],
+          message: match[4].trim(),
+        });
+      } else if (/^\S/.test(line) && !/^[✖>]/.test(line)) {
+        // Each file's problems follow its path on a line of its own
+        file = line.trim();
+      }
+    }
+
+    return diagnostics;
+  },
+};
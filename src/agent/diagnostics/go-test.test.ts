@@ -0,0 +1,113 @@
+import { goTestParser } from './go-test';
+
+describe('goTestParser', () => {
+  it('parses failing tests with their messages', () => {
+    const output = `--- FAIL: TestAdd (0.00s)
+    math_test.go:12: Add(1, 2) = -1; want 3
+--- FAIL: TestTable (0.00s)
+    --- FAIL: TestTable/negative (0.00s)
+        math_test.go:30: got 1
+            want -1
+--- FAIL: TestSilent (0.00s)
+FAIL
+FAIL	example.com/math	0.002s`;
+
+    expect(goTestParser.detect(output)).toBe(true);
+    expect(goTestParser.parse(output.split('\n'))).toEqual([
+      {
+        source: 'go',
+        severity: 'error',
+        file: 'math_test.go',
+        line: 12,
+        test: 'TestAdd',
+        message: 'Add(1, 2) = -1; want 3',
+      },
+      {
+        source: 'go',
+        severity: 'error',
+        file: 'math_test.go',
+        line: 30,
+        test: 'TestTable/negative',
+        message: 'got 1\nwant -1',
+      },
+      { source: 'go', severity: 'error', test: 'TestSilent', message: 'Test failed' },
+    ]);
+  });
+
+  it('parses verbose output, where messages come before the result', () => {
+    const output = `=== RUN   TestAdd
+    math_test.go:12: Add(1, 2) = -1; want 3
+--- FAIL: TestAdd (0.00s)
+=== RUN   TestLog
+    math_test.go:40: only logging
+--- PASS: TestLog (0.00s)
+=== RUN   TestTable
+=== RUN   TestTable/negative
+    math_test.go:30: got 1
+            want -1
+--- FAIL: TestTable (0.00s)
+    --- FAIL: TestTable/negative (0.00s)
+=== RUN   TestSilent
+--- FAIL: TestSilent (0.00s)
+FAIL
+FAIL	example.com/math	0.002s`;
+
+    expect(goTestParser.detect(output)).toBe(true);
+    expect(goTestParser.parse(output.split('\n'))).toEqual([
+      {
+        source: 'go',
+        severity: 'error',
+        file: 'math_test.go',
+        line: 12,
+        test: 'TestAdd',
+        message: 'Add(1, 2) = -1; want 3',
+      },
+      {
+        source: 'go',
+        severity: 'error',
+        file: 'math_test.go',
+        line: 30,
+        test: 'TestTable/negative',
+        message: 'got 1\nwant -1',
+      },
+      { source: 'go', severity: 'error', test: 'TestSilent', message: 'Test failed' },
+    ]);
+  });
+
+  it('parses compiler errors', () => {
+    const output = ['# example.com/math', './math.go:3:9: undefined: fmt', 'FAIL	example.com/math [build failed]'];
+    expect(goTestParser.parse(output)).toEqual([
+      { source: 'go', severity: 'error', file: './math.go', line: 3, column: 9, message: 'undefined: fmt' },
+    ]);
+  });
+
+  it('locates a panic in the project code', () => {
+    const output = `=== RUN   TestDivide
+--- FAIL: TestDivide (0.00s)
+panic: runtime error: integer divide by zero [recovered]
+
+goroutine 7 [running]:
+testing.tRunner.func1.2({0x5, 0x6})
+	/usr/local/go/src/testing/testing.go:1545 +0x238
+example.com/math.Divide(...)
+	/home/dev/math/math.go:8
+example.com/math.TestDivide(0x0?)
+	/home/dev/math/math_test.go:20 +0x1d
+FAIL	example.com/math	0.003s`;
+
+    expect(goTestParser.parse(output.split('\n'))).toEqual([
+      {
+        source: 'go',
+        severity: 'error',
+        test: 'TestDivide',
+        file: '/home/dev/math/math.go',
+        line: 8,
+        message: 'panic: runtime error: integer divide by zero [recovered]',
+      },
+    ]);
+  });
+
+  it('ignores passing runs', () => {
+    expect(goTestParser.detect('ok  \texample.com/math\t0.002s')).toBe(false);
+  });
+});
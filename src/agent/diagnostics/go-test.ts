@@ -0,0 +1,117 @@
+/**
+ * go test, go build and go vet output: "--- FAIL: TestName" blocks with
+ * "file.go:12: message" lines (before the result with -v, after it without),
+ * compiler errors ("file.go:3:9: message") and panics
+ */
+
+import { Diagnostic } from '../../shared/types/task';
+import type { DiagnosticParser } from '.';
+
+const TEST_FAILURE = /^\s*--- FAIL: (\S+)/;
+const TEST_RUNNING = /^=== (?:RUN|CONT)\s+(\S+)/; // go test -v prints a test's messages before its result
+const TEST_MESSAGE = /^\s+(\S+\.go):(\d+): (.*)$/;
+const COMPILE_ERROR = /^(\S+\.go):(\d+):(\d+): (.*)$/;
+const PANIC = /^panic: (.*)$/;
+const PANIC_FRAME = /^\s+(\S+\.go):(\d+)/;
+const MAX_DETAIL_LINES = 3;
+
+export const goTestParser: DiagnosticParser = {
+  source: 'go',
+
+  detect: (output) => /^\s*--- FAIL: |^FAIL\s|^panic: |^\S+\.go:\d+:\d+: /m.test(output),
+
+  parse(lines) {
+    const diagnostics: Diagnostic[] = [];
+    const failedTests: string[] = [];
+    const testsWithMessages = new Set<string>();
+    let test: string | undefined;
+    let current: Diagnostic | undefined;
+    let details = 0;
+    let panic: Diagnostic | undefined;
+
+    for (const line of lines) {
+      const failure = TEST_FAILURE.exec(line);
+      if (failure) {
+        test = failure[1];
+        failedTests.push(test);
+        current = undefined;
+        continue;
+      }
+
+      const running = TEST_RUNNING.exec(line);
+      if (running) {
+        test = running[1];
+        current = undefined;
+        continue;
+      }
+
+      const compileError = COMPILE_ERROR.exec(line);
+      if (compileError) {
+        current = {
+          source: 'go',
+          severity: 'error',
+          file: compileError[1],
+          line: parseInt(compileError[2]),
+          column: parseInt(compileError[3]),
+          message: compileError[4].trim(),
+        };
+        diagnostics.push(current);
+        details = 0;
+        continue;
+      }
+
+      const message = test ? TEST_MESSAGE.exec(line) : null;
+      if (message && test) {
+        current = {
+          source: 'go',
+          severity: 'error',
+          file: message[1],
+          line: parseInt(message[2]),
+          test,
+          message: message[3].trim(),
+        };
+        diagnostics.push(current);
+        testsWithMessages.add(test);
+        details = 0;
+        continue;
+      }
+
+      const panicStart = PANIC.exec(line);
+      if (panicStart) {
+        panic = { source: 'go', severity: 'error', test, message: `panic: ${panicStart[1].trim()}` };
+        if (test && !failedTests.includes(test)) failedTests.push(test);
+        diagnostics.push(panic);
+        current = undefined;
+        continue;
+      }
+
+      // The first frame outside the runtime and testing packages is where the panic happened
+      const frame = panic && !panic.file ? PANIC_FRAME.exec(line) : null;
+      if (frame && panic && !/\/src\/(runtime|testing)\//.test(frame[1])) {
+        panic.file = frame[1];
+        panic.line = parseInt(frame[2]);
+        continue;
+      }
+
+      // t.Errorf messages spanning several lines continue with deeper indentation
+      if (current && /^\s{8,}\S/.test(line) && details < MAX_DETAIL_LINES) {
+        current.message += `\n${line.trim()}`;
+        details++;
+      } else if (!/^\s/.test(line)) {
+        current = undefined;
+        if (/^(FAIL|ok)\s/.test(line)) test = undefined;
+      }
+    }
+
+    // Tests that failed without a message of their own, unless only because a subtest failed
+    for (const name of failedTests) {
+      const hasFailedSubtest = failedTests.some((other) => other.startsWith(`${name}/`));
+      if (!testsWithMessages.has(name) && !hasFailedSubtest && !diagnostics.some((d) => d.test === name)) {
+        diagnostics.push({ source: 'go', severity: 'error', test: name, message: 'Test failed' });
+      }
+    }
+
+    // With -v, tests that passed may have logged messages too
+    return diagnostics.filter((diagnostic) => !diagnostic.test || failedTests.includes(diagnostic.test));
+  },
+};
@@ -0,0 +1,51 @@
+import { formatDiagnostics, parseDiagnostics } from '.';
+
+describe('parseDiagnostics', () => {
+  it('runs every parser that recognises the output, errors first', () => {
+    const output = [
+      '\u001b[31msrc/add.ts(3,10): error TS2322: Type \'string\' is not assignable to type \'number\'.\u001b[39m',
+      '/app/src/index.ts',
+      '  10:1  warning  Unexpected console statement  no-console',
+      '  11:1  error    Unexpected var               no-var',
+    ].join('\n');
+
+    expect(parseDiagnostics(output).map((d) => [d.source, d.file, d.line, d.rule])).toEqual([
+      ['tsc', 'src/add.ts', 3, 'TS2322'],
+      ['eslint', '/app/src/index.ts', 11, 'no-var'],
+      ['eslint', '/app/src/index.ts', 10, 'no-console'],
+    ]);
+  });
+
+  it('reports files relative to the base directory', () => {
+    const output = "index.ts(1,1): error TS2304: Cannot find name 'foo'.";
+    const [diagnostic] = parseDiagnostics(output, { cwd: '/app/packages/core', baseDir: '/app' });
+    expect(diagnostic.file).toBe('packages/core/index.ts');
+
+    const [outside] = parseDiagnostics('/lib/x.ts(1,1): error TS2304: Cannot find name \'foo\'.', { baseDir: '/app' });
+    expect(outside.file).toBe('/lib/x.ts');
+  });
+
+  it('drops failures repeated in a closing summary', () => {
+    const failure = ['  ● math › adds', '', '    Expected: 3', '', '      at Object.toBe (src/math.test.ts:4:23)'];
+    const output = ['FAIL src/math.test.ts', ...failure, 'Summary of all failing tests', 'FAIL src/math.test.ts', ...failure];
+    expect(parseDiagnostics(output.join('\n'))).toHaveLength(1);
+  });
+});
+
+describe('formatDiagnostics', () => {
+  it('writes one line per problem and counts the rest', () => {
+    const text = formatDiagnostics(
+      [
+        { source: 'tsc', severity: 'error', file: 'src/a.ts', line: 3, column: 10, rule: 'TS2322', message: 'Bad type' },
+        { source: 'jest', severity: 'error', test: 'math › adds', message: 'Expected: 3\nReceived: -1' },
+        { source: 'eslint', severity: 'warning', file: 'src/b.ts', line: 1, column: 1, rule: 'no-var', message: 'x' },
+      ],
+      2
+    );
+    expect(text).toBe(
+      ['src/a.ts:3:10 [tsc TS2322] Bad type', '(no file) [jest] math › adds: Expected: 3\n    Received: -1', '… and 1 more'].join(
+        '\n'
+      )
+    );
+  });
+});
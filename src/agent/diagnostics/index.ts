@@ -0,0 +1,130 @@
+/**
+ * Diagnostics - Structured problems from compiler, linter and test runner output
+ *
+ * Each parser recognises one tool's output format and turns it into a list of
+ * problems (file, line, rule or test name, message). The model gets that list
+ * instead of the raw log, where it easily picks the wrong file to fix.
+ */
+
+import * as path from 'path';
+import { Diagnostic, DiagnosticSource } from '../../shared/types/task';
+import { tscParser } from './tsc';
+import { eslintParser } from './eslint';
+import { jestParser } from './jest';
+import { vitestParser } from './vitest';
+import { mochaParser } from './mocha';
+import { pytestParser } from './pytest';
+import { goTestParser } from './go-test';
+
+export interface DiagnosticParser {
+  source: DiagnosticSource;
+  detect(output: string): boolean; // Cheap check whether the output looks like this tool's
+  parse(lines: string[]): Diagnostic[];
+}
+
+export interface ParseOptions {
+  cwd?: string; // Where the command ran; relative paths in the output are relative to it
+  baseDir?: string; // Paths inside it are reported relative to it
+}
+
+const PARSERS: DiagnosticParser[] = [
+  tscParser,
+  eslintParser,
+  jestParser,
+  vitestParser,
+  mochaParser,
+  pytestParser,
+  goTestParser,
+];
+
+const MAX_DIAGNOSTICS = 200;
+const MAX_MESSAGE_CHARS = 500;
+const DEFAULT_FORMAT_LIMIT = 30;
+
+// Colour and cursor escape sequences
+const ANSI_ESCAPE = /\u001b\[[0-9;?]*[A-Za-z]/g;
+
+/**
+ * Every problem any parser finds in the output. A command can run several
+ * tools (e.g. `tsc && jest`), so all parsers that recognise it get a turn.
+ */
+export function parseDiagnostics(output: string, options: ParseOptions = {}): Diagnostic[] {
+  const text = output.replace(ANSI_ESCAPE, '');
+  const lines = text.split(/\r?\n/);
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+
+  for (const parser of PARSERS) {
+    if (!parser.detect(text)) continue;
+
+    for (const diagnostic of parser.parse(lines)) {
+      const normalized = normalize(diagnostic, options);
+      // Runners like jest repeat every failure in their closing summary
+      const key = [normalized.source, normalized.file, normalized.line, normalized.test, normalized.message].join('|');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      diagnostics.push(normalized);
+      if (diagnostics.length >= MAX_DIAGNOSTICS) {
+        return sortBySeverity(diagnostics);
+      }
+    }
+  }
+
+  return sortBySeverity(diagnostics);
+}
+
+/**
+ * One entry per problem, e.g.
+ * `src/add.ts:3:10 [tsc TS2322] Type 'string' is not assignable to type 'number'.`
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[], limit: number = DEFAULT_FORMAT_LIMIT): string {
+  const lines = diagnostics.slice(0, limit).map((diagnostic) => {
+    const location = diagnostic.file
+      ? [diagnostic.file, diagnostic.line, diagnostic.line && diagnostic.column].filter(Boolean).join(':')
+      : '(no file)';
+    const labels = [diagnostic.source, diagnostic.rule, diagnostic.severity === 'warning' ? 'warning' : '']
+      .filter(Boolean)
+      .join(' ');
+    const test = diagnostic.test ? ` ${diagnostic.test}:` : '';
+    return `${location} [${labels}]${test} ${diagnostic.message.split('\n').join('\n    ')}`;
+  });
+
+  if (diagnostics.length > limit) {
+    lines.push(`… and ${diagnostics.length - limit} more`);
+  }
+  return lines.join('\n');
+}
+
+function normalize(diagnostic: Diagnostic, options: ParseOptions): Diagnostic {
+  const message =
+    diagnostic.message.length > MAX_MESSAGE_CHARS
+      ? `${diagnostic.message.substring(0, MAX_MESSAGE_CHARS)}…`
+      : diagnostic.message;
+
+  return { ...diagnostic, file: diagnostic.file && relativeFile(diagnostic.file, options), message };
+}
+
+function relativeFile(file: string, options: ParseOptions): string {
+  const cleaned = file.replace(/^file:\/\//, '');
+  if (!options.baseDir) {
+    return cleaned;
+  }
+
+  const absolute = path.resolve(options.cwd || options.baseDir, cleaned);
+  const relative = path.relative(options.baseDir, absolute);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return cleaned;
+  }
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * Errors first; lint warnings rarely explain why a command failed
+ */
+function sortBySeverity(diagnostics: Diagnostic[]): Diagnostic[] {
+  return [
+    ...diagnostics.filter((diagnostic) => diagnostic.severity === 'error'),
+    ...diagnostics.filter((diagnostic) => diagnostic.severity === 'warning'),
+  ];
+}
@@ -0,0 +1,67 @@
+import { jestParser } from './jest';
+
+const OUTPUT = `FAIL src/math.test.ts
+  math
+    ✕ adds numbers (6 ms)
+
+  ● math › adds numbers
+
+    expect(received).toBe(expected) // Object.is equality
+
+    Expected: 3
+    Received: -1
+
+      2 | describe('math', () => {
+      3 |   it('adds numbers', () => {
+    > 4 |     expect(add(1, 2)).toBe(3);
+        |                       ^
+      5 |   });
+
+      at Object.toBe (src/math.test.ts:4:23)
+
+FAIL src/broken.test.ts
+  ● Test suite failed to run
+
+    Cannot find module './missing' from 'src/broken.test.ts'
+
+    > 1 | import { missing } from './missing';
+        | ^
+
+      at Resolver._throwModNotFoundError (node_modules/jest-resolve/build/resolver.js:427:11)
+
+Summary of all failing tests
+FAIL src/math.test.ts
+  ● math › adds numbers
+
+Test Suites: 2 failed, 2 total
+Tests:       1 failed, 1 total
+`;
+
+describe('jestParser', () => {
+  it('parses each failing test with its location and message', () => {
+    expect(jestParser.detect(OUTPUT)).toBe(true);
+
+    const [failure, suite] = jestParser.parse(OUTPUT.split('\n'));
+    expect(failure).toEqual({
+      source: 'jest',
+      severity: 'error',
+      file: 'src/math.test.ts',
+      line: 4,
+      column: 23,
+      test: 'math › adds numbers',
+      message: 'expect(received).toBe(expected) // Object.is equality\nExpected: 3\nReceived: -1',
+    });
+
+    // Frames in dependencies are skipped; the code frame gives the line
+    expect(suite).toMatchObject({
+      file: 'src/broken.test.ts',
+      line: 1,
+      test: undefined,
+      message: "Cannot find module './missing' from 'src/broken.test.ts'",
+    });
+  });
+
+  it('ignores passing runs', () => {
+    expect(jestParser.detect('PASS src/math.test.ts\nTests: 1 passed, 1 total')).toBe(false);
+  });
+});
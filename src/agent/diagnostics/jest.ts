@@ -0,0 +1,68 @@
+/**
+ * Jest output: "FAIL <file>" headers followed by one "● <test name>" block per failure
+ */
+
+import { Diagnostic } from '../../shared/types/task';
+import { collectMessage, firstProjectFrame } from './stack';
+import type { DiagnosticParser } from '.';
+
+const FILE_HEADER = /^\s*(FAIL|PASS)\s+(\S+)/;
+const FAILURE = /^\s*● (.+)$/;
+const SUITE_FAILURE = 'Test suite failed to run';
+// The run summary, and the recap of every failure jest prints after it
+const SECTION_END = /^(Test Suites:|Tests:|Snapshots:|Time:|Ran all test suites|Summary of all failing tests)/;
+const POINTER = /^\s*>\s*(\d+)\s*\|/; // The highlighted line of a code frame
+const MAX_MESSAGE_LINES = 6;
+
+export const jestParser: DiagnosticParser = {
+  source: 'jest',
+
+  detect: (output) => /^\s*● /m.test(output),
+
+  parse(lines) {
+    const diagnostics: Diagnostic[] = [];
+    let file: string | undefined;
+    let failure: { title: string; lines: string[] } | undefined;
+
+    const finish = () => {
+      if (failure) {
+        diagnostics.push(toDiagnostic(failure.title, failure.lines, file));
+        failure = undefined;
+      }
+    };
+
+    for (const line of lines) {
+      const header = FILE_HEADER.exec(line);
+      const start = FAILURE.exec(line);
+      if (header) {
+        finish();
+        file = header[2];
+      } else if (start) {
+        finish();
+        failure = { title: start[1].trim(), lines: [] };
+      } else if (SECTION_END.test(line.trim())) {
+        finish();
+      } else if (failure) {
+        failure.lines.push(line);
+      }
+    }
+    finish();
+
+    return diagnostics;
+  },
+};
+
+function toDiagnostic(title: string, lines: string[], file?: string): Diagnostic {
+  const frame = firstProjectFrame(lines);
+  const pointer = lines.map((line) => POINTER.exec(line)).find(Boolean);
+
+  return {
+    source: 'jest',
+    severity: 'error',
+    file: frame?.file || file,
+    line: frame?.line ?? (pointer ? parseInt(pointer[1]) : undefined),
+    column: frame?.column,
+    test: title === SUITE_FAILURE ? undefined : title,
+    message: collectMessage(lines, MAX_MESSAGE_LINES) || title,
+  };
+}
@@ -0,0 +1,45 @@
+import { mochaParser } from './mocha';
+
+const OUTPUT = `
+  math
+    ✔ subtracts numbers
+    1) adds numbers
+
+  1 passing (5ms)
+  1 failing
+
+  1) math
+       adds numbers:
+
+      AssertionError [ERR_ASSERTION]: Expected values to be strictly equal:
+
+-1 !== 3
+
+      + expected - actual
+
+      at Context.<anonymous> (test/math.spec.js:9:12)
+      at process.processImmediate (node:internal/timers:476:21)
+
+`;
+
+describe('mochaParser', () => {
+  it('parses failures after the failing count', () => {
+    expect(mochaParser.detect(OUTPUT)).toBe(true);
+    expect(mochaParser.parse(OUTPUT.split('\n'))).toEqual([
+      {
+        source: 'mocha',
+        severity: 'error',
+        file: 'test/math.spec.js',
+        line: 9,
+        column: 12,
+        test: 'math adds numbers',
+        message:
+          'AssertionError [ERR_ASSERTION]: Expected values to be strictly equal:\n-1 !== 3\n+ expected - actual',
+      },
+    ]);
+  });
+
+  it('ignores passing runs', () => {
+    expect(mochaParser.detect('  2 passing (5ms)\n')).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Mocha's spec reporter: after "N failing", numbered blocks of title, message and stack
+ */
+
+import { Diagnostic } from '../../shared/types/task';
+import { collectMessage, firstProjectFrame } from './stack';
+import type { DiagnosticParser } from '.';
+
+const FAILING = /^\s*\d+ failing\b/;
+const FAILURE = /^\s*\d+\) (.*)$/;
+const MAX_MESSAGE_LINES = 6;
+
+export const mochaParser: DiagnosticParser = {
+  source: 'mocha',
+
+  detect: (output) => /^\s*\d+ failing\b/m.test(output),
+
+  parse(lines) {
+    const diagnostics: Diagnostic[] = [];
+    const start = lines.findIndex((line) => FAILING.test(line));
+    if (start === -1) {
+      return diagnostics;
+    }
+
+    let failure: { title: string[]; titleDone: boolean; lines: string[] } | undefined;
+
+    const finish = () => {
+      if (!failure) return;
+      const frame = firstProjectFrame(failure.lines);
+      diagnostics.push({
+        source: 'mocha',
+        severity: 'error',
+        file: frame?.file,
+        line: frame?.line,
+        column: frame?.column,
+        test: failure.title.join(' '),
+        message: collectMessage(failure.lines, MAX_MESSAGE_LINES) || 'Test failed',
+      });
+      failure = undefined;
+    };
+
+    for (const line of lines.slice(start + 1)) {
+      const next = FAILURE.exec(line);
+      if (next) {
+        finish();
+        failure = { title: [], titleDone: false, lines: [] };
+        addTitleLine(failure, next[1]);
+      } else if (failure && !failure.titleDone) {
+        // Nested describe() titles continue on indented lines; the last one ends with ":"
+        addTitleLine(failure, line);
+      } else if (failure) {
+        failure.lines.push(line);
+      }
+    }
+    finish();
+
+    return diagnostics;
+  },
+};
+
+function addTitleLine(failure: { title: string[]; titleDone: boolean }, line: string): void {
+  const text = line.trim();
+  if (!text) {
+    failure.titleDone = true;
+    return;
+  }
+  if (text.endsWith(':')) {
+    failure.titleDone = true;
+  }
+  failure.title.push(text.replace(/:$/, ''));
+}
@@ -0,0 +1,64 @@
+import { pytestParser } from './pytest';
+
+const OUTPUT = `============================= test session starts ==============================
+collected 3 items / 1 error
+
+tests/test_math.py F.                                                    [100%]
+
+==================================== ERRORS ====================================
+____________________ ERROR collecting tests/test_broken.py _____________________
+tests/test_broken.py:1: in <module>
+    import missing
+E   ModuleNotFoundError: No module named 'missing'
+=================================== FAILURES ===================================
+___________________________ TestMath.test_add[1-2] ____________________________
+
+self = <tests.test_math.TestMath object at 0x7f>
+
+    def test_add(self):
+>       assert add(1, 2) == 3
+E       assert -1 == 3
+E        +  where -1 = add(1, 2)
+
+tests/test_math.py:8: AssertionError
+=========================== short test summary info ============================
+FAILED tests/test_math.py::TestMath::test_add[1-2] - assert -1 == 3
+ERROR tests/test_broken.py
+========================= 1 failed, 1 passed, 1 error in 0.05s =================
+`;
+
+describe('pytestParser', () => {
+  it('parses the summary, with locations and messages from the tracebacks', () => {
+    expect(pytestParser.detect(OUTPUT)).toBe(true);
+    expect(pytestParser.parse(OUTPUT.split('\n'))).toEqual([
+      {
+        source: 'pytest',
+        severity: 'error',
+        file: 'tests/test_math.py',
+        line: 8,
+        test: 'TestMath::test_add[1-2]',
+        message: 'assert -1 == 3\n+  where -1 = add(1, 2)',
+      },
+      {
+        source: 'pytest',
+        severity: 'error',
+        file: 'tests/test_broken.py',
+        line: 1,
+        test: undefined,
+        message: "ModuleNotFoundError: No module named 'missing'",
+      },
+    ]);
+  });
+
+  it('falls back to the tracebacks without a summary', () => {
+    const output = OUTPUT.split('\n').filter((line) => !/^(FAILED|ERROR) /.test(line));
+    expect(pytestParser.parse(output).map((d) => [d.test, d.file, d.line])).toEqual([
+      ['ERROR collecting tests/test_broken.py', 'tests/test_broken.py', 1],
+      ['TestMath.test_add[1-2]', 'tests/test_math.py', 8],
+    ]);
+  });
+
+  it('ignores passing runs', () => {
+    expect(pytestParser.detect('============ 3 passed in 0.02s ============')).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * pytest output: "FAILURES"/"ERRORS" sections with one traceback per test, and
+ * the "short test summary info" listing each failed test's node ID
+ */
+
+import { Diagnostic } from '../../shared/types/task';
+import type { DiagnosticParser } from '.';
+
+const SECTION = /^_{3,} (.+?) _{3,}$/;
+const BANNER = /^={3,}/;
+const LOCATION = /^(\S+\.py):(\d+):/; // "tests/test_a.py:5: AssertionError" or "src/a.py:3: in add"
+const SUMMARY = /^(FAILED|ERROR) (\S+)(?: - (.*))?$/;
+const MAX_MESSAGE_LINES = 6;
+
+interface Section {
+  name: string; // "test_add", "TestMath.test_add[1-2]" or "ERROR collecting tests/test_a.py"
+  errors: string[]; // Lines starting with "E"
+  location?: { file: string; line: number }; // Where the exception was raised
+}
+
+export const pytestParser: DiagnosticParser = {
+  source: 'pytest',
+
+  detect: (output) => /^={3,} (FAILURES|ERRORS|short test summary info) ={3,}$/m.test(output),
+
+  parse(lines) {
+    const sections = parseSections(lines);
+    const summary = lines.map((line) => SUMMARY.exec(line)).filter((match): match is RegExpExecArray => !!match);
+
+    // Without -r summary lines, fall back to the tracebacks alone
+    if (summary.length === 0) {
+      return sections.map((section) => ({
+        source: 'pytest' as const,
+        severity: 'error' as const,
+        file: section.location?.file,
+        line: section.location?.line,
+        test: section.name,
+        message: section.errors.slice(0, MAX_MESSAGE_LINES).join('\n') || 'Test failed',
+      }));
+    }
+
+    return summary.map(([, kind, nodeId, message]) => {
+      const [file, ...names] = nodeId.split('::');
+      const test = names.length > 0 ? names.join('::') : undefined;
+      const section = sections.find((s) =>
+        test ? s.name === names.join('.') : s.name === `ERROR collecting ${file}`
+      );
+
+      return {
+        source: 'pytest' as const,
+        severity: 'error' as const,
+        file: section?.location?.file || file,
+        line: section?.location?.line,
+        test,
+        message:
+          section?.errors.slice(0, MAX_MESSAGE_LINES).join('\n') ||
+          message?.trim() ||
+          (kind === 'ERROR' ? 'Error' : 'Test failed'),
+      };
+    });
+  },
+};
+
+function parseSections(lines: string[]): Section[] {
+  const sections: Section[] = [];
+  let current: Section | undefined;
+
+  for (const line of lines) {
+    const header = SECTION.exec(line);
+    if (header) {
+      current = { name: header[1], errors: [] };
+      sections.push(current);
+      continue;
+    }
+    if (BANNER.test(line)) {
+      current = undefined;
+      continue;
+    }
+    if (!current) continue;
+
+    if (/^E\s/.test(line)) {
+      current.errors.push(line.substring(1).trim());
+    }
+    const location = LOCATION.exec(line);
+    if (location) {
+      // Tracebacks run outermost first, so the last location is where it was raised
+      current.location = { file: location[1], line: parseInt(location[2]) };
+    }
+  }
+
+  return sections;
+}
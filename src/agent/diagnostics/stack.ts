@@ -0,0 +1,47 @@
+/**
+ * Helpers shared by the JavaScript test runner parsers
+ */
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column?: number;
+}
+
+// "at fn (file:1:2)", "at file:1:2" and "at async fn (file:1:2)"
+const STACK_FRAME = /^\s*at (?:.*? \()?(?:file:\/\/)?(.+?):(\d+):(\d+)\)?\s*$/;
+
+// Jest ("> 11 |", "   |   ^") and vitest ("  5|") code frames
+const CODE_FRAME = /^\s*>?\s*\d*\s*\|/;
+
+export function isStackFrame(line: string): boolean {
+  return /^\s*at /.test(line);
+}
+
+/**
+ * The first frame in the project's own code, skipping dependencies and Node internals
+ */
+export function firstProjectFrame(lines: string[]): SourceLocation | undefined {
+  for (const line of lines) {
+    const match = STACK_FRAME.exec(line);
+    if (match && !/node_modules|^node:|^internal\//.test(match[1])) {
+      return { file: match[1], line: parseInt(match[2]), column: parseInt(match[3]) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The explanation part of a failure: non-empty lines before the stack trace,
+ * without code frames
+ */
+export function collectMessage(lines: string[], maxLines: number): string {
+  const message: string[] = [];
+  for (const line of lines) {
+    if (isStackFrame(line) || message.length >= maxLines) break;
+    if (line.trim() && !CODE_FRAME.test(line)) {
+      message.push(line.trim());
+    }
+  }
+  return message.join('\n');
+}
@@ -0,0 +1,62 @@
+import { tscParser } from './tsc';
+
+describe('tscParser', () => {
+  it('parses plain output', () => {
+    const output = [
+      "src/add.ts(3,10): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/index.ts(12,1): error TS2304: Cannot find name 'foo'.",
+    ].join('\n');
+
+    expect(tscParser.detect(output)).toBe(true);
+    expect(tscParser.parse(output.split('\n'))).toEqual([
+      {
+        source: 'tsc',
+        severity: 'error',
+        file: 'src/add.ts',
+        line: 3,
+        column: 10,
+        rule: 'TS2322',
+        message: "Type 'string' is not assignable to type 'number'.",
+      },
+      {
+        source: 'tsc',
+        severity: 'error',
+        file: 'src/index.ts',
+        line: 12,
+        column: 1,
+        rule: 'TS2304',
+        message: "Cannot find name 'foo'.",
+      },
+    ]);
+  });
+
+  it('parses pretty output with its elaboration but not the code frame', () => {
+    const output = [
+      "src/user.ts:8:3 - error TS2322: Type '{ name: string; }' is not assignable to type 'User'.",
+      "  Property 'id' is missing in type '{ name: string; }' but required in type 'User'.",
+      '',
+      '8   return { name };',
+      '    ~~~~~~',
+      '',
+      'Found 1 error in src/user.ts:8',
+    ];
+
+    const [diagnostic] = tscParser.parse(output);
+    expect(diagnostic).toMatchObject({ file: 'src/user.ts', line: 8, column: 3, rule: 'TS2322' });
+    expect(diagnostic.message).toBe(
+      "Type '{ name: string; }' is not assignable to type 'User'.\n" +
+        "Property 'id' is missing in type '{ name: string; }' but required in type 'User'."
+    );
+  });
+
+  it('parses configuration errors without a file', () => {
+    const output = ["error TS5023: Unknown compiler option 'strictest'."];
+    expect(tscParser.parse(output)).toEqual([
+      { source: 'tsc', severity: 'error', rule: 'TS5023', message: "Unknown compiler option 'strictest'." },
+    ]);
+  });
+
+  it('ignores output without compiler errors', () => {
+    expect(tscParser.detect('Compiled successfully.')).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * TypeScript compiler output, plain ("file(1,2): error TS…") or pretty ("file:1:2 - error TS…")
+ */
+
+import { Diagnostic } from '../../shared/types/task';
+import type { DiagnosticParser } from '.';
+
+const PLAIN = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+const PRETTY = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/;
+const GLOBAL = /^(error|warning) (TS\d+): (.*)$/; // Configuration errors have no file
+const MAX_DETAIL_LINES = 3;
+
+export const tscParser: DiagnosticParser = {
+  source: 'tsc',
+
+  detect: (output) => /\b(error|warning) TS\d+:/.test(output),
+
+  parse(lines) {
+    const diagnostics: Diagnostic[] = [];
+    let current: Diagnostic | undefined;
+    let details = 0;
+
+    for (const line of lines) {
+      const match = PLAIN.exec(line) || PRETTY.exec(line);
+      if (match) {
+        current = {
+          source: 'tsc',
+          severity: match[4] as Diagnostic['severity'],
+          file: match[1].trim(),
+          line: parseInt(match[2]),
+          column: parseInt(match[3]),
+          rule: match[5],
+          message: match[6].trim(),
+        };
+        diagnostics.push(current);
+        details = 0;
+        continue;
+      }
+
+      const global = GLOBAL.exec(line.trim());
+      if (global) {
+        current = {
+          source: 'tsc',
+          severity: global[1] as Diagnostic['severity'],
+          rule: global[2],
+          message: global[3].trim(),
+        };
+        diagnostics.push(current);
+        details = 0;
+        continue;
+      }
+
+      // Indented lines elaborate on the last error ("Type 'x' is not assignable to ..."),
+      // except for the "~~~" underlines of pretty output
+      if (current && /^\s+\S/.test(line) && !/^\s*~+\s*$/.test(line) && details < MAX_DETAIL_LINES) {
+        current.message += `\n${line.trim()}`;
+        details++;
+      } else if (!line.trim() || !/^\s/.test(line)) {
+        current = undefined;
+      }
+    }
+
+    return diagnostics;
+  },
+};
@@ -0,0 +1,61 @@
+import { vitestParser } from './vitest';
+
+const OUTPUT = `
+⎯⎯⎯⎯⎯⎯⎯ Failed Tests 2 ⎯⎯⎯⎯⎯⎯⎯
+
+ FAIL  src/math.test.ts > math > adds numbers
+AssertionError: expected -1 to be 3 // Object.is equality
+
+- Expected
++ Received
+
+- 3
++ -1
+
+ ❯ src/math.test.ts:5:22
+      3| describe('math', () => {
+      4|   it('adds numbers', () => {
+      5|     expect(add(1, 2)).toBe(3)
+       |                      ^
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/2]⎯
+
+ FAIL  src/broken.test.ts [ src/broken.test.ts ]
+Error: Failed to load url ./missing (resolved id: ./missing) in /app/src/broken.test.ts. Does the file exist?
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[2/2]⎯
+
+ Test Files  2 failed (2)
+      Tests  1 failed (1)
+`;
+
+describe('vitestParser', () => {
+  it('parses each failed test with its location and message', () => {
+    expect(vitestParser.detect(OUTPUT)).toBe(true);
+    expect(vitestParser.parse(OUTPUT.split('\n'))).toEqual([
+      {
+        source: 'vitest',
+        severity: 'error',
+        file: 'src/math.test.ts',
+        line: 5,
+        column: 22,
+        test: 'math > adds numbers',
+        message: 'AssertionError: expected -1 to be 3 // Object.is equality\n- Expected\n+ Received\n- 3\n+ -1',
+      },
+      {
+        source: 'vitest',
+        severity: 'error',
+        file: 'src/broken.test.ts',
+        line: undefined,
+        column: undefined,
+        test: undefined,
+        message:
+          'Error: Failed to load url ./missing (resolved id: ./missing) in /app/src/broken.test.ts. Does the file exist?',
+      },
+    ]);
+  });
+
+  it('ignores passing runs', () => {
+    expect(vitestParser.detect(' ✓ src/math.test.ts (1 test) 2ms\n Test Files  1 passed (1)')).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Vitest output: a "Failed Tests" section with one "FAIL <file> > <test>" block per failure
+ */
+
+import { Diagnostic } from '../../shared/types/task';
+import { collectMessage } from './stack';
+import type { DiagnosticParser } from '.';
+
+// " FAIL  src/a.test.ts > suite > test", or " FAIL  src/a.test.ts [ src/a.test.ts ]" when the file fails to load
+const FAILURE = /^\s*FAIL\s+(\S+)(?:\s+>\s+(.+?))?(?:\s+\[.*\])?\s*$/;
+const LOCATION = /^\s*❯\s+(?:file:\/\/)?(.+?):(\d+):(\d+)/;
+const SEPARATOR = /^\s*⎯{3,}/;
+const MAX_MESSAGE_LINES = 6;
+
+export const vitestParser: DiagnosticParser = {
+  source: 'vitest',
+
+  detect: (output) => /⎯{3,}/.test(output) || /^\s*FAIL\s+\S+\s+>\s/m.test(output),
+
+  parse(lines) {
+    const diagnostics: Diagnostic[] = [];
+    let failure: { file: string; test?: string; lines: string[] } | undefined;
+
+    const finish = () => {
+      if (!failure) return;
+      const messageLines = failure.lines.slice(0, firstLocationIndex(failure.lines));
+      const location = failure.lines.map((line) => LOCATION.exec(line)).find(Boolean);
+      diagnostics.push({
+        source: 'vitest',
+        severity: 'error',
+        file: location ? location[1] : failure.file,
+        line: location ? parseInt(location[2]) : undefined,
+        column: location ? parseInt(location[3]) : undefined,
+        test: failure.test,
+        message: collectMessage(messageLines, MAX_MESSAGE_LINES) || 'Test failed',
+      });
+      failure = undefined;
+    };
+
+    for (const line of lines) {
+      const start = FAILURE.exec(line);
+      if (start) {
+        finish();
+        failure = { file: start[1], test: start[2]?.trim(), lines: [] };
+      } else if (SEPARATOR.test(line) || /^\s*Test Files\s/.test(line)) {
+        finish();
+      } else if (failure) {
+        failure.lines.push(line);
+      }
+    }
+    finish();
+
+    return diagnostics;
+  },
+};
+
+function firstLocationIndex(lines: string[]): number {
+  const index = lines.findIndex((line) => LOCATION.test(line));
+  return index === -1 ? lines.length : index;
+}
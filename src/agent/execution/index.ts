@@ -0,0 +1,75 @@
+/**
+ * Execution Backends - Run shell commands for the agent
+ *
+ * A backend decides how a command line becomes a process: which environment
+ * it sees, which limits apply and how it is stopped.
+ */
+
+import { ExecutionLimits } from '../../shared/types/config';
+
+export { LocalExecutionBackend, DEFAULT_ENV_ALLOW_LIST } from './local-backend';
+export { resolveLimits, DEFAULT_COMMAND_TIMEOUT, DEFAULT_MAX_OUTPUT_BYTES } from './limits';
+export { OutputDigest, ERROR_LINE } from './output-digest';
+export { newLogFile, pruneLogs, commandLogDirectory, readLogTail } from './logs';
+export { ProcessManager } from './process-manager';
+export type { ProcessInfo, WaitResult } from './process-manager';
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface ExecutionRequest {
+  command: string;
+  cwd: string;
+  logFile?: string; // Receives the complete output, both streams interleaved
+  onOutput?: (stream: OutputStream, text: string) => void; // Output as it arrives
+}
+
+export interface ExecutionResult {
+  stdout: string; // Long output is cut down to its head, tail and error lines
+  stderr: string;
+  truncated: boolean; // Whether stdout or stderr was cut down; logFile has everything
+  logFile?: string; // Unset if the log could not be written
+  exitCode: number | null; // null when the process was killed by a signal
+  signal: NodeJS.Signals | null;
+  duration: number;
+  limits: ResolvedLimits;
+  timedOut: boolean;
+  cancelled: boolean;
+  outputLimitExceeded: boolean;
+}
+
+export type ResolvedLimits = ExecutionLimits & {
+  timeoutMs: number;
+  maxOutputBytes: number;
+  allowNetwork: boolean;
+};
+
+export interface ProcessExit {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * A command left running in the background, e.g. a dev server
+ */
+export interface BackgroundProcess {
+  readonly pid?: number;
+  readonly limits: ResolvedLimits;
+  readonly exited: Promise<ProcessExit>; // Settles once the process is gone and its output read
+  stop(): Promise<ProcessExit>; // Kills the whole process group
+}
+
+export interface ExecutionBackend {
+  readonly name: string;
+
+  /**
+   * Run a command to completion. Resolves for anything the process itself
+   * does (including being killed); rejects only when it cannot be started.
+   */
+  run(request: ExecutionRequest, signal?: AbortSignal): Promise<ExecutionResult>;
+
+  /**
+   * Start a command without waiting for it. The timeout does not apply; the
+   * environment, CPU, memory, output and network limits do.
+   */
+  start(request: ExecutionRequest): Promise<BackgroundProcess>;
+}
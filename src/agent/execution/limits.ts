@@ -0,0 +1,36 @@
+/**
+ * Execution Limits - Which limits apply to a command
+ */
+
+import { ExecutionConfig, ExecutionLimits } from '../../shared/types/config';
+import { compilePattern } from '../command-policy';
+import type { ResolvedLimits } from '.';
+
+export const DEFAULT_COMMAND_TIMEOUT = 60000; // 1 minute
+export const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024 * 100; // 100MB
+
+/**
+ * Limits for one command: the defaults, then config.limits, then every
+ * override whose pattern matches the command line, in order
+ */
+export function resolveLimits(config: ExecutionConfig, command: string): ResolvedLimits {
+  let limits: ResolvedLimits = {
+    timeoutMs: DEFAULT_COMMAND_TIMEOUT,
+    maxOutputBytes: DEFAULT_MAX_OUTPUT_BYTES,
+    allowNetwork: true,
+    ...definedOnly(config.limits || {}),
+  };
+
+  const trimmed = command.trim();
+  for (const { command: pattern, ...overrides } of config.overrides || []) {
+    if (compilePattern(pattern).test(trimmed)) {
+      limits = { ...limits, ...definedOnly(overrides) };
+    }
+  }
+
+  return limits;
+}
+
+function definedOnly(limits: ExecutionLimits): ExecutionLimits {
+  return Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,372 @@
+/**
+ * Local Execution Backend - Run commands on this machine with a scrubbed
+ * environment and resource limits
+ *
+ * Each command gets its own process group so a timeout or cancel kills
+ * everything it started, not just the shell.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+import { ExecutionConfig } from '../../shared/types/config';
+import { ConfigurationError } from '../../shared/errors';
+import { compilePattern } from '../command-policy';
+import { resolveLimits } from './limits';
+import { OutputDigest } from './output-digest';
+import type {
+  BackgroundProcess,
+  ExecutionBackend,
+  ExecutionRequest,
+  ExecutionResult,
+  OutputStream,
+  ProcessExit,
+  ResolvedLimits,
+} from '.';
+
+// Enough for compilers, package managers and test runners to work; no secrets
+export const DEFAULT_ENV_ALLOW_LIST = [
+  'PATH',
+  'HOME',
+  'USER',
+  'LOGNAME',
+  'SHELL',
+  'TERM',
+  'LANG',
+  'LANGUAGE',
+  'LC_*',
+  'TZ',
+  'TMPDIR',
+  'TMP',
+  'TEMP',
+  'CI',
+  'NODE_ENV',
+  // Windows programs fail to start without these
+  'SYSTEMROOT',
+  'SYSTEMDRIVE',
+  'WINDIR',
+  'COMSPEC',
+  'PATHEXT',
+  'USERPROFILE',
+  'HOMEDRIVE',
+  'HOMEPATH',
+  'APPDATA',
+  'LOCALAPPDATA',
+  'PROGRAMDATA',
+  'PROGRAMFILES',
+  'PROGRAMFILES(X86)',
+];
+
+const KILL_GRACE_MS = 2000; // Between SIGTERM and SIGKILL
+const IS_WINDOWS = process.platform === 'win32';
+
+// Process groups still alive; killed if the server exits first
+const liveProcesses = new Set<ChildProcess>();
+let exitHookInstalled = false;
+
+export class LocalExecutionBackend implements ExecutionBackend {
+  readonly name = 'local';
+  private envPatterns: RegExp[];
+
+  constructor(private config: ExecutionConfig = {}) {
+    this.envPatterns = [...DEFAULT_ENV_ALLOW_LIST, ...(config.envAllowList || [])].map((name) => {
+      const pattern = compilePattern(name);
+      // Windows variable names are case-insensitive (Path, SystemRoot, ...)
+      return IS_WINDOWS ? new RegExp(pattern.source, 'i') : pattern;
+    });
+  }
+
+  async run(request: ExecutionRequest, signal?: AbortSignal): Promise<ExecutionResult> {
+    const limits = resolveLimits(this.config, request.command);
+    const startTime = Date.now();
+
+    const log = request.logFile ? await openLog(request.logFile) : null;
+    let child: ChildProcess;
+    try {
+      child = spawnLimited(request, limits, this.scrubEnvironment(process.env));
+    } catch (error) {
+      await closeLog(log);
+      throw error;
+    }
+
+    return new Promise((resolve, reject) => {
+      const streams = {
+        stdout: { digest: new OutputDigest(), decoder: new StringDecoder('utf-8'), bytes: 0 },
+        stderr: { digest: new OutputDigest(), decoder: new StringDecoder('utf-8'), bytes: 0 },
+      };
+      let timedOut = false;
+      let cancelled = false;
+      let outputLimitExceeded = false;
+      let killTimer: NodeJS.Timeout | undefined;
+
+      const stop = () => {
+        if (killTimer) return;
+        killProcessGroup(child, 'SIGTERM');
+        killTimer = setTimeout(() => killProcessGroup(child, 'SIGKILL'), KILL_GRACE_MS);
+      };
+
+      const timeout = setTimeout(() => {
+        timedOut = true;
+        stop();
+      }, limits.timeoutMs);
+
+      const onAbort = () => {
+        cancelled = true;
+        stop();
+      };
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
+      const emit = (name: OutputStream, text: string) => {
+        if (!text) return;
+        streams[name].digest.write(text);
+        log?.write(text);
+        try {
+          request.onOutput?.(name, text);
+        } catch {
+          // A broken listener must never break the command
+        }
+      };
+
+      for (const name of ['stdout', 'stderr'] as const) {
+        child[name]?.on('data', (chunk: Buffer) => {
+          const stream = streams[name];
+          stream.bytes += chunk.length;
+          if (stream.bytes > limits.maxOutputBytes) {
+            outputLimitExceeded = true;
+            stop();
+            return;
+          }
+          emit(name, stream.decoder.write(chunk));
+        });
+      }
+
+      const cleanup = () => {
+        clearTimeout(timeout);
+        if (killTimer) clearTimeout(killTimer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      child.on('error', async (error) => {
+        cleanup();
+        await closeLog(log);
+        reject(error);
+      });
+
+      child.on('close', async (exitCode, exitSignal) => {
+        cleanup();
+        liveProcesses.delete(child);
+        emit('stdout', streams.stdout.decoder.end());
+        emit('stderr', streams.stderr.decoder.end());
+        const logWritten = await closeLog(log);
+
+        resolve({
+          stdout: streams.stdout.digest.toString(),
+          stderr: streams.stderr.digest.toString(),
+          truncated: streams.stdout.digest.truncated || streams.stderr.digest.truncated,
+          logFile: logWritten ? request.logFile : undefined,
+          exitCode,
+          signal: exitSignal,
+          duration: Date.now() - startTime,
+          limits,
+          timedOut,
+          cancelled,
+          outputLimitExceeded,
+        });
+      });
+    });
+  }
+
+  async start(request: ExecutionRequest): Promise<BackgroundProcess> {
+    const limits = resolveLimits(this.config, request.command);
+
+    const log = request.logFile ? await openLog(request.logFile) : null;
+    let child: ChildProcess;
+    try {
+      child = spawnLimited(request, limits, this.scrubEnvironment(process.env));
+      await new Promise<void>((resolve, reject) => {
+        child.once('spawn', resolve);
+        child.once('error', reject);
+      });
+    } catch (error) {
+      await closeLog(log);
+      throw error;
+    }
+
+    let stopping: NodeJS.Timeout | undefined;
+    const stop = () => {
+      if (stopping) return;
+      killProcessGroup(child, 'SIGTERM');
+      stopping = setTimeout(() => killProcessGroup(child, 'SIGKILL'), KILL_GRACE_MS);
+    };
+
+    for (const name of ['stdout', 'stderr'] as const) {
+      const decoder = new StringDecoder('utf-8');
+      let bytes = 0;
+      const emit = (text: string) => {
+        if (!text) return;
+        log?.write(text);
+        try {
+          request.onOutput?.(name, text);
+        } catch {
+          // A broken listener must never break the process
+        }
+      };
+
+      child[name]?.on('data', (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (bytes > limits.maxOutputBytes) {
+          stop();
+          return;
+        }
+        emit(decoder.write(chunk));
+      });
+      child[name]?.on('end', () => emit(decoder.end()));
+    }
+
+    const exited = new Promise<ProcessExit>((resolve) => {
+      child.once('close', async (exitCode, exitSignal) => {
+        if (stopping) clearTimeout(stopping);
+        liveProcesses.delete(child);
+        await closeLog(log);
+        resolve({ exitCode, signal: exitSignal });
+      });
+    });
+
+    return {
+      pid: child.pid,
+      limits,
+      exited,
+      stop: () => {
+        stop();
+        return exited;
+      },
+    };
+  }
+
+  /**
+   * Only allow-listed variables reach commands, so API keys and tokens in the
+   * server's environment stay out of scripts the agent runs
+   */
+  private scrubEnvironment(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+    const scrubbed: NodeJS.ProcessEnv = {};
+    for (const [name, value] of Object.entries(env)) {
+      if (value !== undefined && this.envPatterns.some((pattern) => pattern.test(name))) {
+        scrubbed[name] = value;
+      }
+    }
+    return scrubbed;
+  }
+}
+
+/**
+ * Start the command under /bin/sh, applying CPU and memory limits with ulimit
+ * and cutting off the network with unshare
+ */
+function spawnLimited(request: ExecutionRequest, limits: ResolvedLimits, env: NodeJS.ProcessEnv): ChildProcess {
+  const confined = limits.cpuSeconds !== undefined || limits.memoryMb !== undefined || !limits.allowNetwork;
+
+  if (IS_WINDOWS) {
+    if (confined) {
+      throw new ConfigurationError('CPU, memory and network limits for commands are not supported on Windows');
+    }
+    return spawn(request.command, { cwd: request.cwd, env, shell: true, windowsHide: true });
+  }
+
+  // Refuse to run rather than run without a limit that was asked for
+  const setup: string[] = [];
+  if (limits.cpuSeconds !== undefined) {
+    setup.push(`ulimit -t ${Math.max(1, Math.ceil(limits.cpuSeconds))} || exit 126`);
+  }
+  if (limits.memoryMb !== undefined) {
+    setup.push(`ulimit -d ${Math.max(1, Math.floor(limits.memoryMb * 1024))} || exit 126`);
+  }
+
+  // The command runs as its own script, exactly as written
+  const argv = setup.length > 0
+    ? ['/bin/sh', '-c', `${setup.join('; ')}; exec /bin/sh -c "$1"`, 'sh', request.command]
+    : ['/bin/sh', '-c', request.command];
+
+  if (!limits.allowNetwork) {
+    if (process.platform !== 'linux') {
+      throw new ConfigurationError('Running commands without network access needs Linux (unshare)');
+    }
+    // A user namespace lets an unprivileged user create the network namespace
+    argv.unshift('unshare', '--net', '--map-root-user');
+  }
+
+  // detached makes the shell a process group leader, so the group can be killed as one
+  const child = spawn(argv[0], argv.slice(1), { cwd: request.cwd, env, detached: true });
+  track(child);
+  return child;
+}
+
+/**
+ * Detached process groups survive their parent, so kill them when it exits
+ */
+function track(child: ChildProcess): void {
+  liveProcesses.add(child);
+  child.once('error', () => liveProcesses.delete(child));
+
+  if (!exitHookInstalled) {
+    exitHookInstalled = true;
+    process.once('exit', () => {
+      for (const live of liveProcesses) {
+        killProcessGroup(live, 'SIGKILL');
+      }
+    });
+  }
+}
+
+function killProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) {
+    return;
+  }
+
+  try {
+    if (IS_WINDOWS) {
+      // taskkill /T takes the whole process tree down
+      if (child.exitCode === null) {
+        spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true });
+      }
+    } else {
+      // Also reaches whatever the shell left running after it exited
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // The group is already gone
+  }
+}
+
+/**
+ * The log is a convenience; a command still runs if it cannot be written
+ */
+async function openLog(logFile: string): Promise<fs.WriteStream | null> {
+  try {
+    await fs.promises.mkdir(path.dirname(logFile), { recursive: true });
+    const stream = fs.createWriteStream(logFile);
+    await new Promise<void>((resolve, reject) => {
+      stream.once('open', () => resolve());
+      stream.once('error', reject);
+    });
+    stream.on('error', () => undefined); // Reported by closeLog
+    return stream;
+  } catch {
+    return null;
+  }
+}
+
+async function closeLog(log: fs.WriteStream | null): Promise<boolean> {
+  // A stream that failed while writing has already been destroyed
+  if (!log || log.destroyed) {
+    return false;
+  }
+  return new Promise((resolve) => {
+    log.once('error', () => resolve(false));
+    log.end(() => resolve(true));
+  });
+}
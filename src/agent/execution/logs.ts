@@ -0,0 +1,62 @@
+/**
+ * Command Logs - Where the complete output of commands is kept
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { TEMP_DIR } from '../../shared/constants';
+import { ensureTempDirectory } from '../../shared/utils/file-utils';
+
+const MAX_COMMAND_LOGS = 100; // Older logs are deleted
+
+export function commandLogDirectory(workingDirectory: string): string {
+  return path.join(workingDirectory, TEMP_DIR, 'command-logs');
+}
+
+/**
+ * A fresh log path, in a directory git ignores; timestamped names sort oldest first
+ */
+export async function newLogFile(workingDirectory: string, label: string = 'command'): Promise<string> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const name = `${stamp}-${label.replace(/[^\w-]/g, '_')}-${randomBytes(3).toString('hex')}.log`;
+  try {
+    await ensureTempDirectory(workingDirectory, 'command-logs');
+  } catch {
+    // The backend creates the directory itself; the log is a convenience
+  }
+  return path.join(commandLogDirectory(workingDirectory), name);
+}
+
+export async function pruneLogs(workingDirectory: string): Promise<void> {
+  const directory = commandLogDirectory(workingDirectory);
+  try {
+    const logs = (await fs.promises.readdir(directory)).filter((name) => name.endsWith('.log')).sort();
+    for (const name of logs.slice(0, Math.max(0, logs.length - MAX_COMMAND_LOGS))) {
+      await fs.promises.unlink(path.join(directory, name));
+    }
+  } catch {
+    // Old logs only take up space
+  }
+}
+
+/**
+ * The last `maxBytes` of a log, or null if it cannot be read
+ */
+export async function readLogTail(logFile: string, maxBytes: number): Promise<string | null> {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(logFile, 'r');
+    const { size } = await handle.stat();
+    const length = Math.min(size, maxBytes);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    // Starting mid-file can split a character or a line; drop the partial line
+    const text = buffer.toString('utf-8');
+    return length < size ? text.substring(text.indexOf('\n') + 1) : text;
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
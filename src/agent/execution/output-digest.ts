@@ -0,0 +1,94 @@
+/**
+ * Output Digest - Keep what matters of a command's output in bounded memory
+ *
+ * Short output is kept whole. Long output is cut down to its first and last
+ * lines plus the lines in between that look like errors, which is usually
+ * what a reader (or the LLM) needs to act on a failed build or test run.
+ */
+
+const HEAD_LINES = 40;
+const TAIL_LINES = 80;
+const MAX_ERROR_LINES = 30;
+const MAX_LINE_CHARS = 300;
+
+export const ERROR_LINE = /\b(error|errors|fail|failed|failure|failing|exception|panic|fatal|traceback|assert\w*)\b|✕|✖|×|●/i;
+
+export class OutputDigest {
+  private head: string[] = [];
+  private tail: string[] = [];
+  private errors: string[] = [];
+  private skippedErrors = 0;
+  private lineCount = 0;
+  private partial = '';
+  private partialDropped = 0; // Chars of an overlong unfinished line that were not kept
+
+  write(text: string): void {
+    const lines = (this.partial + text).split('\n');
+    const last = lines.pop() || '';
+    for (const [index, line] of lines.entries()) {
+      this.addLine(line, index === 0 ? this.partialDropped : 0);
+      this.partialDropped = 0;
+    }
+
+    // Output without newlines must not grow without bound
+    this.partial = last.substring(0, MAX_LINE_CHARS);
+    this.partialDropped += last.length - this.partial.length;
+  }
+
+  /**
+   * Whether lines were left out
+   */
+  get truncated(): boolean {
+    return this.omittedLines() > 0;
+  }
+
+  toString(): string {
+    const tail = this.partial ? [...this.tail, clip(this.partial, this.partialDropped)] : this.tail;
+    if (!this.truncated) {
+      return [...this.head, ...tail].join('\n');
+    }
+
+    const sections = [...this.head, `… ${this.omittedLines()} line(s) omitted …`];
+    if (this.errors.length > 0) {
+      sections.push('Error lines from the omitted part:', ...this.errors);
+      if (this.skippedErrors > 0) {
+        sections.push(`… and ${this.skippedErrors} more`);
+      }
+      sections.push('…');
+    }
+    sections.push(...tail);
+    return sections.join('\n');
+  }
+
+  private omittedLines(): number {
+    return this.lineCount - this.head.length - this.tail.length;
+  }
+
+  private addLine(raw: string, dropped: number): void {
+    const line = clip(raw.replace(/\r$/, ''), dropped);
+    this.lineCount++;
+
+    if (this.head.length < HEAD_LINES) {
+      this.head.push(line);
+      return;
+    }
+
+    this.tail.push(line);
+    if (this.tail.length > TAIL_LINES) {
+      // Leaving the tail means landing in the omitted middle
+      const middle = this.tail.shift()!;
+      if (ERROR_LINE.test(middle)) {
+        if (this.errors.length < MAX_ERROR_LINES) {
+          this.errors.push(`L${this.lineCount - TAIL_LINES}: ${middle}`);
+        } else {
+          this.skippedErrors++;
+        }
+      }
+    }
+  }
+}
+
+function clip(line: string, dropped: number = 0): string {
+  const extra = Math.max(0, line.length - MAX_LINE_CHARS) + dropped;
+  return extra > 0 ? `${line.substring(0, MAX_LINE_CHARS)}… (${extra} more chars)` : line;
+}
@@ -0,0 +1,292 @@
+/**
+ * Process Manager - Background processes (dev servers, watchers) of one task
+ *
+ * Keeps the recent output of each process so it can be read back or waited
+ * on, and stops everything that is still running when the task ends.
+ */
+
+import * as net from 'net';
+import { newLogFile, pruneLogs } from './logs';
+import { ToolExecutionError } from '../../shared/errors';
+import { TOOL_NAMES } from '../../shared/constants';
+import type { BackgroundProcess, ExecutionBackend, ProcessExit } from '.';
+
+const MAX_BUFFERED_LINES = 2000;
+const MAX_RUNNING_PROCESSES = 8;
+const PORT_POLL_MS = 250;
+
+export interface ProcessInfo {
+  id: string;
+  command: string;
+  cwd: string;
+  pid?: number;
+  running: boolean;
+  exitCode?: number | null;
+  signal?: NodeJS.Signals | null;
+  startedAt: Date;
+  exitedAt?: Date;
+  outputLines: number;
+  logFile?: string;
+}
+
+export type WaitResult =
+  | { ready: true; detail: string }
+  | { ready: false; reason: 'timeout' | 'exited' | 'cancelled' | 'unreachable'; detail: string };
+
+interface ProcessOutput {
+  lines: string[]; // Most recent complete lines, both streams
+  partial: Record<'stdout' | 'stderr', string>;
+  listeners: Set<(text: string) => void>;
+}
+
+interface TrackedProcess {
+  info: ProcessInfo;
+  handle: BackgroundProcess;
+  output: ProcessOutput;
+}
+
+export class ProcessManager {
+  private processes = new Map<string, TrackedProcess>();
+  private nextId = 1;
+
+  constructor(
+    private backend: ExecutionBackend,
+    private workingDirectory: string
+  ) {}
+
+  /**
+   * Start a command in the background. `name` becomes its ID; an exited
+   * process with the same name is forgotten.
+   */
+  async start(command: string, cwd: string, name?: string): Promise<ProcessInfo> {
+    const id = name || `proc-${this.nextId++}`;
+    const existing = this.processes.get(id);
+    if (existing?.info.running) {
+      throw new ToolExecutionError(`A process named ${id} is already running`, TOOL_NAMES.PROCESS);
+    }
+    if (this.list().filter((info) => info.running).length >= MAX_RUNNING_PROCESSES) {
+      throw new ToolExecutionError(
+        `At most ${MAX_RUNNING_PROCESSES} background processes can run at once; stop one first`,
+        TOOL_NAMES.PROCESS
+      );
+    }
+
+    const info: ProcessInfo = { id, command, cwd, running: true, startedAt: new Date(), outputLines: 0 };
+    const output: ProcessOutput = { lines: [], partial: { stdout: '', stderr: '' }, listeners: new Set() };
+    const logFile = await newLogFile(this.workingDirectory, id);
+
+    const handle = await this.backend.start({
+      command,
+      cwd,
+      logFile,
+      onOutput: (stream, text) => this.record(info, output, stream, text),
+    });
+    await pruneLogs(this.workingDirectory);
+
+    info.pid = handle.pid;
+    info.logFile = logFile;
+    const tracked: TrackedProcess = { info, handle, output };
+    this.processes.set(id, tracked);
+
+    tracked.handle.exited.then((exit) => this.markExited(tracked, exit));
+
+    return { ...tracked.info };
+  }
+
+  has(id: string): boolean {
+    return this.processes.has(id);
+  }
+
+  get(id: string): ProcessInfo | undefined {
+    const tracked = this.processes.get(id);
+    return tracked && { ...tracked.info };
+  }
+
+  list(): ProcessInfo[] {
+    return [...this.processes.values()].map((tracked) => ({ ...tracked.info }));
+  }
+
+  /**
+   * The last `count` lines of output, including an unfinished last line
+   */
+  tail(id: string, count: number): string[] {
+    const tracked = this.processes.get(id);
+    if (!tracked) {
+      return [];
+    }
+    const { lines, partial } = tracked.output;
+    return [...lines, ...[partial.stdout, partial.stderr].filter(Boolean)].slice(-count);
+  }
+
+  /**
+   * Wait until a line of output matches `pattern`. Output printed before the
+   * call counts too.
+   */
+  async waitForOutput(id: string, pattern: RegExp, timeoutMs: number, signal?: AbortSignal): Promise<WaitResult> {
+    const tracked = this.processes.get(id)!;
+    const earlier = this.tail(id, MAX_BUFFERED_LINES).find((line) => pattern.test(line));
+    if (earlier !== undefined) {
+      return { ready: true, detail: earlier };
+    }
+
+    return this.waitUntil(tracked, timeoutMs, signal, (settle) => {
+      const listener = (text: string) => {
+        const match = text.split('\n').find((line) => pattern.test(line));
+        if (match !== undefined) settle({ ready: true, detail: match });
+      };
+      tracked.output.listeners.add(listener);
+      return () => tracked.output.listeners.delete(listener);
+    });
+  }
+
+  /**
+   * Wait until something accepts TCP connections on `port`
+   */
+  async waitForPort(
+    id: string,
+    port: number,
+    host: string | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<WaitResult> {
+    const tracked = this.processes.get(id)!;
+    if (!tracked.handle.limits.allowNetwork) {
+      return {
+        ready: false,
+        reason: 'unreachable',
+        detail: 'The process runs without network access, so its ports cannot be reached',
+      };
+    }
+
+    // localhost may resolve to either address family; servers often listen on just one
+    const hosts = host ? [host] : ['127.0.0.1', '::1'];
+
+    return this.waitUntil(tracked, timeoutMs, signal, (settle) => {
+      let timer: NodeJS.Timeout | undefined;
+      let stopped = false;
+
+      const poll = async () => {
+        for (const candidate of hosts) {
+          if (await canConnect(candidate, port)) {
+            settle({ ready: true, detail: `Port ${port} is accepting connections on ${candidate}` });
+            return;
+          }
+        }
+        if (!stopped) timer = setTimeout(poll, PORT_POLL_MS);
+      };
+      poll();
+
+      return () => {
+        stopped = true;
+        if (timer) clearTimeout(timer);
+      };
+    });
+  }
+
+  async stop(id: string): Promise<ProcessInfo | undefined> {
+    const tracked = this.processes.get(id);
+    if (!tracked) {
+      return undefined;
+    }
+    if (tracked.info.running) {
+      this.markExited(tracked, await tracked.handle.stop());
+    }
+    return { ...tracked.info };
+  }
+
+  /**
+   * Stop every process that is still running
+   */
+  async stopAll(): Promise<void> {
+    await Promise.all([...this.processes.keys()].map((id) => this.stop(id)));
+  }
+
+  private record(info: ProcessInfo, output: ProcessOutput, stream: 'stdout' | 'stderr', text: string): void {
+    const lines = (output.partial[stream] + text).split('\n');
+    output.partial[stream] = lines.pop() || '';
+
+    for (const line of lines) {
+      output.lines.push(line.replace(/\r$/, ''));
+      info.outputLines++;
+    }
+    if (output.lines.length > MAX_BUFFERED_LINES) {
+      output.lines.splice(0, output.lines.length - MAX_BUFFERED_LINES);
+    }
+
+    // Prompts and progress output often arrive without a newline
+    const pending = output.partial[stream];
+    const fresh = pending ? [...lines, pending].join('\n') : lines.join('\n');
+    output.listeners.forEach((listener) => listener(fresh));
+  }
+
+  private markExited(tracked: TrackedProcess, exit: ProcessExit): void {
+    if (!tracked.info.running) {
+      return;
+    }
+    tracked.info.running = false;
+    tracked.info.exitCode = exit.exitCode;
+    tracked.info.signal = exit.signal;
+    tracked.info.exitedAt = new Date();
+  }
+
+  /**
+   * Settle on whatever comes first: `watch` reporting success, the process
+   * exiting, the timeout or cancellation
+   */
+  private waitUntil(
+    tracked: TrackedProcess,
+    timeoutMs: number,
+    signal: AbortSignal | undefined,
+    watch: (settle: (result: WaitResult) => void) => () => void
+  ): Promise<WaitResult> {
+    return new Promise((resolve) => {
+      let done = false;
+      let unwatch = () => {};
+
+      const settle = (result: WaitResult) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        unwatch();
+        resolve(result);
+      };
+
+      const timer = setTimeout(
+        () => settle({ ready: false, reason: 'timeout', detail: `Not ready after ${timeoutMs}ms` }),
+        timeoutMs
+      );
+      const onAbort = () => settle({ ready: false, reason: 'cancelled', detail: 'Task was cancelled' });
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      tracked.handle.exited.then((exit) =>
+        settle({
+          ready: false,
+          reason: 'exited',
+          detail: `Process exited first (${exit.signal ? `signal ${exit.signal}` : `exit code ${exit.exitCode}`})`,
+        })
+      );
+
+      unwatch = watch(settle);
+      if (done) unwatch();
+    });
+  }
+}
+
+function canConnect(host: string, port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    socket.setTimeout(PORT_POLL_MS * 4);
+    const finish = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.once('connect', () => finish(true));
+    socket.once('error', () => finish(false));
+    socket.once('timeout', () => finish(false));
+  });
+}
@@ -2,14 +2,43 @@
  * Task Executor - Executes plan steps using tools
  */
 
-import { BaseTool, ToolExecutionResult } from './tools/base-tool';
-import { PlanStep } from '../shared/types/task';
-import { AgentContext, addLog, addFileModified, addCommandRun } from './context';
+import { BaseTool, ToolExecutionResult, ToolOutputListener } from './tools/base-tool';
+import { FileOperation, PlanStep } from '../shared/types/task';
+import { AgentContext, addLog, addFileOperation, addCommandRun, setStepStatus, emitEvent, throwIfCancelled } from './context';
+import { buildPlanGraph, collectDependents } from './plan-graph';
+import { recordSnapshot } from './journal';
+
+const OUTPUT_FLUSH_MS = 200;
+const MAX_OUTPUT_DELTA_CHARS = 16 * 1024;
+
+export interface GraphExecutionOptions {
+  maxParallel: number;
+}
+
+export interface GraphExecutionResult {
+  completedSteps: string[];
+  failedSteps: string[];
+  skippedSteps: string[]; // Not run: a dependency failed, recovery skipped them, or the plan was replaced
+}
+
+/**
+ * A change to the running plan, decided while recovering from a failed step
+ */
+export type PlanRevision =
+  | { type: 'insert'; steps: PlanStep[] } // Run these first, then the failed step again
+  | { type: 'replace'; steps: PlanStep[] } // Run these instead of the failed step and every step not started yet
+  | { type: 'skip' }; // The failed step is not needed; its dependents run anyway
+
+export interface StepRunResult extends ToolExecutionResult {
+  revision?: PlanRevision;
+}
 
 export class Executor {
   constructor(private tools: BaseTool[]) {}
 
   async executeStep(step: PlanStep, context: AgentContext): Promise<ToolExecutionResult> {
+    throwIfCancelled(context);
+
     addLog(context, 'info', `Executing: ${step.description}`, { step });
 
     const tool = this.findTool(step.tool);
@@ -24,14 +53,42 @@ export class Executor {
     }
 
     try {
-      const result = await tool.execute(step.params);
+      // Snapshot files before they change on disk so the run can be rolled back
+      if (!tool.isReadOnly(step.params) && !tool.canPreview(step.params)) {
+        await context.beforeChange?.();
+        for (const filePath of tool.getAffectedPaths(step.params)) {
+          await recordSnapshot(context, filePath);
+        }
+      }
+
+      const output = context.onEvent ? forwardOutput(context, step, tool.name) : null;
+      let result: ToolExecutionResult;
+      try {
+        result = await tool.execute(step.params, context.signal, output?.listener);
+      } finally {
+        output?.flush();
+      }
+
+      // A tool stopped by cancellation did not really fail; stop the run instead
+      throwIfCancelled(context);
+
+      emitEvent(context, {
+        type: 'tool_output',
+        stepId: step.stepId,
+        tool: tool.name,
+        success: result.success,
+        output: result.output,
+        error: result.error,
+      });
 
       if (result.success) {
         addLog(context, 'info', `Step completed: ${step.description}`, { result });
 
         // Track side effects
-        if (result.metadata?.filesModified) {
-          result.metadata.filesModified.forEach((f: string) => addFileModified(context, f));
+        if (result.metadata?.fileOperations) {
+          result.metadata.fileOperations.forEach((op: FileOperation) => addFileOperation(context, op));
+        } else if (result.metadata?.filesModified) {
+          result.metadata.filesModified.forEach((f: string) => addFileOperation(context, { operation: 'write', path: f }));
         }
 
         if (result.metadata?.command) {
@@ -41,6 +98,7 @@ export class Executor {
             stdout: result.metadata.stdout || '',
             stderr: result.metadata.stderr || '',
             duration: result.metadata.duration || 0,
+            logFile: result.metadata.logFile,
           });
         }
       } else {
@@ -49,6 +107,8 @@ export class Executor {
 
       return result;
     } catch (error: any) {
+      throwIfCancelled(context);
+
       const errorMessage = `Tool execution failed: ${error.message}`;
       addLog(context, 'error', errorMessage, { error });
       return {
@@ -59,6 +119,175 @@ export class Executor {
     }
   }
 
+  /**
+   * Run plan steps as a dependency graph.
+   * Read-only steps run concurrently up to maxParallel; steps with side effects
+   * run one at a time so they never race each other. A failed step skips only
+   * the steps that (transitively) depend on it.
+   *
+   * A step's result may revise the plan; revisions are spliced into `steps`
+   * and the graph, so `steps` ends up as the plan that actually ran.
+   */
+  async executeGraph(
+    steps: PlanStep[],
+    context: AgentContext,
+    runStep: (step: PlanStep) => Promise<StepRunResult>,
+    options: GraphExecutionOptions
+  ): Promise<GraphExecutionResult> {
+    let graph = buildPlanGraph(steps);
+    const maxParallel = Math.max(1, options.maxParallel);
+    const completed = new Set<string>();
+    const failed = new Set<string>();
+    const skipped = new Set<string>();
+    const bypassed = new Set<string>(); // Skipped on purpose; counts as done for dependents
+    const running = new Map<string, Promise<void>>();
+    let exclusiveRunning = false;
+    let fatalError: Error | null = null;
+
+    const isSettled = (stepId: string) =>
+      completed.has(stepId) || failed.has(stepId) || skipped.has(stepId);
+
+    const skip = (step: PlanStep, reason: string) => {
+      setStepStatus(context, step, 'skipped');
+      skipped.add(step.stepId);
+      addLog(context, 'warn', `Skipping step ${step.stepId}: ${reason}`);
+    };
+
+    const revise = (step: PlanStep, revision: PlanRevision): boolean => {
+      if (revision.type === 'skip') {
+        skip(step, 'not needed, according to recovery');
+        bypassed.add(step.stepId);
+        return true;
+      }
+
+      // New steps may only wait on each other and on steps that already completed
+      const newIds = new Set(revision.steps.map((s) => s.stepId));
+      const invalid = revision.steps.find((s) =>
+        (s.dependencies || []).some((d) => !newIds.has(d) && !completed.has(d))
+      );
+      if (revision.steps.length === 0 || invalid) {
+        addLog(context, 'error', `Ignoring invalid plan revision for step ${step.stepId}`, { revision });
+        return false;
+      }
+
+      const previous = [...steps];
+      if (revision.type === 'insert') {
+        steps.splice(steps.indexOf(step), 0, ...revision.steps);
+        step.dependencies = [...(step.dependencies || []), ...revision.steps.map((s) => s.stepId)];
+      } else {
+        for (const other of steps) {
+          if (other !== step && !isSettled(other.stepId) && !running.has(other.stepId)) {
+            skip(other, 'replaced by a revised plan');
+          }
+        }
+        steps.push(...revision.steps);
+      }
+
+      try {
+        graph = buildPlanGraph(steps);
+      } catch (error: any) {
+        steps.splice(0, steps.length, ...previous);
+        addLog(context, 'error', `Ignoring invalid plan revision for step ${step.stepId}: ${error.message}`);
+        return false;
+      }
+
+      revision.steps.forEach((s) => setStepStatus(context, s, 'pending'));
+      if (revision.type === 'insert') {
+        setStepStatus(context, step, 'pending'); // Runs again once the new steps are done
+        addLog(context, 'info', `Inserted ${revision.steps.length} step(s) before step ${step.stepId}`);
+      } else {
+        skip(step, 'replaced by a revised plan');
+        addLog(context, 'info', `Replaced the remaining plan with ${revision.steps.length} step(s)`);
+      }
+      return true;
+    };
+
+    const start = (step: PlanStep, exclusive: boolean) => {
+      if (exclusive) exclusiveRunning = true;
+      setStepStatus(context, step, 'in-progress');
+
+      const promise = runStep(step)
+        .then((result) => {
+          if (result.revision && revise(step, result.revision)) {
+            return;
+          }
+
+          if (result.success) {
+            setStepStatus(context, step, 'completed');
+            completed.add(step.stepId);
+            return;
+          }
+
+          setStepStatus(context, step, 'failed');
+          failed.add(step.stepId);
+
+          for (const dependentId of collectDependents(graph, step.stepId)) {
+            if (!isSettled(dependentId) && !running.has(dependentId)) {
+              setStepStatus(context, graph.steps.get(dependentId)!, 'skipped');
+              skipped.add(dependentId);
+              addLog(context, 'warn', `Skipping step ${dependentId}: depends on failed step ${step.stepId}`);
+            }
+          }
+        })
+        .catch((error: Error) => {
+          setStepStatus(context, step, 'failed');
+          failed.add(step.stepId);
+          fatalError = fatalError || error;
+        })
+        .finally(() => {
+          running.delete(step.stepId);
+          if (exclusive) exclusiveRunning = false;
+        });
+
+      running.set(step.stepId, promise);
+    };
+
+    while (true) {
+      if (!fatalError && !exclusiveRunning) {
+        for (const stepId of graph.order) {
+          if (running.size >= maxParallel) break;
+
+          const step = graph.steps.get(stepId)!;
+          if (isSettled(stepId) || running.has(stepId)) continue;
+          if (!(step.dependencies || []).every((d) => completed.has(d) || bypassed.has(d))) continue;
+
+          const exclusive = !this.isReadOnlyStep(step);
+          if (exclusive && running.size > 0) continue;
+
+          start(step, exclusive);
+          if (exclusive) break;
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    if (fatalError) {
+      throw fatalError;
+    }
+
+    return {
+      completedSteps: steps.filter((s) => completed.has(s.stepId)).map((s) => s.stepId),
+      failedSteps: steps.filter((s) => failed.has(s.stepId)).map((s) => s.stepId),
+      skippedSteps: steps.filter((s) => skipped.has(s.stepId)).map((s) => s.stepId),
+    };
+  }
+
+  isReadOnlyStep(step: PlanStep): boolean {
+    const tool = this.findTool(step.tool);
+    return tool ? tool.isReadOnly(step.params) : false;
+  }
+
+  /**
+   * Whether a step can run in preview mode: either it has no side effects,
+   * or its tool can simulate them without touching the project
+   */
+  canPreviewStep(step: PlanStep): boolean {
+    const tool = this.findTool(step.tool);
+    return tool ? tool.isReadOnly(step.params) || tool.canPreview(step.params) : false;
+  }
+
   private findTool(toolName: string): BaseTool | undefined {
     return this.tools.find((t) => t.name === toolName);
   }
@@ -67,3 +296,57 @@ export class Executor {
     return this.tools;
   }
 }
+
+/**
+ * Batch a step's live output into tool_output_delta events, at most one every
+ * OUTPUT_FLUSH_MS, so chatty commands cannot flood the event stream. When a
+ * batch grows too big, only its last lines are sent.
+ */
+function forwardOutput(
+  context: AgentContext,
+  step: PlanStep,
+  toolName: string
+): { listener: ToolOutputListener; flush: () => void } {
+  let stream: 'stdout' | 'stderr' = 'stdout';
+  let buffer = '';
+  let skipped = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (!buffer && !skipped) {
+      return;
+    }
+
+    const delta = skipped > 0 ? `… ${skipped} chars skipped …\n${buffer}` : buffer;
+    buffer = '';
+    skipped = 0;
+    emitEvent(context, { type: 'tool_output_delta', stepId: step.stepId, tool: toolName, stream, delta });
+  };
+
+  const listener: ToolOutputListener = (next, text) => {
+    if (next !== stream) {
+      flush();
+      stream = next;
+    }
+
+    buffer += text;
+    if (buffer.length > MAX_OUTPUT_DELTA_CHARS) {
+      // Cut at a line start so the first line sent is whole
+      let cut = buffer.length - MAX_OUTPUT_DELTA_CHARS;
+      const lineStart = buffer.indexOf('\n', cut);
+      if (lineStart !== -1) cut = lineStart + 1;
+      skipped += cut;
+      buffer = buffer.slice(cut);
+    }
+
+    if (!timer) {
+      timer = setTimeout(flush, OUTPUT_FLUSH_MS);
+    }
+  };
+
+  return { listener, flush };
+}
@@ -3,15 +3,43 @@
  */
 
 import { Planner } from './planner';
-import { Executor } from './executor';
+import { Executor, GraphExecutionResult, StepRunResult } from './executor';
 import { Iterator } from './iterator';
+import { ToolLoop } from './tool-loop';
 import { LLMFactory } from '../llm/providers/factory';
+import { UsageListener } from '../llm/metering';
 import { BaseLLMClient } from '../llm/base-client';
-import { FileTool, CommandTool, GitTool, BaseTool } from './tools';
-import { TaskExecution } from '../shared/types/task';
-import { createContext, addLog } from './context';
+import {
+  FileTool,
+  CommandTool,
+  ProcessTool,
+  GitTool,
+  SearchTool,
+  CodeSearchTool,
+  AskUserTool,
+  BaseTool,
+  VirtualFileSystem,
+  ToolExecutionResult,
+} from './tools';
+import {
+  TaskExecution,
+  TaskPlan,
+  FileDiff,
+  ApprovalHandler,
+  QuestionHandler,
+  PlanStep,
+  VerificationResult,
+} from '../shared/types/task';
+import { TaskEvent } from '../shared/types/events';
+import { AgentContext, createContext, addLog, throwIfCancelled } from './context';
+import { rollbackJournal, sealJournal } from './journal';
+import { buildRepoContext } from './repo-context';
 import { loadConfig } from '../shared/utils/config-loader';
-import { AgentError } from '../shared/errors';
+import { PathSandbox } from '../shared/utils/sandbox';
+import { CommandPolicy } from './command-policy';
+import { LocalExecutionBackend, ProcessManager } from './execution';
+import { Verifier, RepairHandler, describeFailedChecks } from './verification';
+import { AgentError, TaskCancelledError } from '../shared/errors';
 
 export interface AgentConfig {
   taskId: string;
@@ -20,15 +48,34 @@ export interface AgentConfig {
   maxIterations?: number;
   workingDirectory?: string;
   previewMode?: boolean; // If true, generate plan without executing file writes
+  mode?: AgentMode;
+  maxParallelSteps?: number; // Upper bound on concurrently running read-only steps
+  onEvent?: (event: TaskEvent) => void; // Receives logs, step transitions, tool output and tokens live
+  signal?: AbortSignal; // Cancels the run; file changes made so far are rolled back
+  contextFiles?: string[]; // Files pinned into the LLM context, relative to the working directory
+  requestApproval?: ApprovalHandler; // Asks a user about commands the policy flags; without it they fail
+  askUser?: QuestionHandler; // Asks a user clarifying questions; without it the agent decides on its own
+  onUsage?: UsageListener; // Receives the tokens and estimated cost of every LLM request
 }
 
+/**
+ * plan: ask for a full JSON plan up front, then execute it
+ * tool-use: multi-turn native tool calls, deciding each step after seeing results
+ */
+export type AgentMode = 'plan' | 'tool-use';
+
 export class Agent {
   private llm: BaseLLMClient;
   private planner: Planner;
   private executor: Executor;
   private iterator: Iterator;
+  private toolLoop: ToolLoop;
+  private verifier: Verifier;
   private tools: BaseTool[];
   private config: AgentConfig;
+  private previewFs?: VirtualFileSystem;
+  private sandbox: PathSandbox;
+  private processes: ProcessManager;
 
   constructor(config: AgentConfig) {
     this.config = config;
@@ -37,112 +84,509 @@ export class Agent {
     const appConfig = loadConfig();
 
     // Initialize LLM
-    this.llm = LLMFactory.create(config.model);
+    this.llm = LLMFactory.create(config.model, config.onUsage);
+
+    // In preview mode file edits land in memory so they can be diffed against disk
+    if (config.previewMode) {
+      this.previewFs = new VirtualFileSystem();
+    }
+
+    // Every tool that takes a path checks it against the same sandbox
+    const { safety } = appConfig.agent;
+    this.sandbox = new PathSandbox(config.workingDirectory || process.cwd(), safety.sandbox);
+
+    // Foreground and background commands share one policy and one backend
+    const policy = new CommandPolicy(safety.commandPolicy, this.sandbox);
+    const backend = new LocalExecutionBackend(appConfig.agent.execution);
+    this.processes = new ProcessManager(backend, config.workingDirectory || process.cwd());
 
     // Initialize tools
     this.tools = [
-      new FileTool(config.workingDirectory),
-      new CommandTool(config.workingDirectory, appConfig.agent.safety.allowShellCommands),
-      new GitTool(config.workingDirectory, appConfig.agent.safety.allowGitPush),
+      new FileTool(config.workingDirectory, this.previewFs, safety.allowFileDelete, this.sandbox),
+      new CommandTool(
+        config.workingDirectory,
+        safety.allowShellCommands,
+        this.sandbox,
+        policy,
+        config.requestApproval,
+        backend
+      ),
+      new ProcessTool(
+        this.processes,
+        config.workingDirectory,
+        safety.allowShellCommands,
+        this.sandbox,
+        policy,
+        config.requestApproval
+      ),
+      new GitTool(config.workingDirectory, safety.allowGitPush, this.sandbox),
+      new SearchTool(config.workingDirectory, this.sandbox),
+      new CodeSearchTool(config.workingDirectory),
+      new AskUserTool(config.askUser),
     ];
 
     // Initialize agent components
     this.planner = new Planner(this.llm);
     this.executor = new Executor(this.tools);
     this.iterator = new Iterator(this.llm, appConfig.agent.maxRetries);
+    this.toolLoop = new ToolLoop(this.llm, this.executor);
+    this.verifier = new Verifier(this.executor, appConfig.agent.verification, safety.allowShellCommands);
   }
 
   async execute(goal: string): Promise<TaskExecution> {
-    const context = createContext(goal, this.config.workingDirectory);
+    try {
+      return await this.executeGoal(goal);
+    } finally {
+      await this.stopProcesses();
+    }
+  }
+
+  /**
+   * Execute a previously created (and approved) plan verbatim, without re-planning
+   */
+  async executePlan(plan: TaskPlan, goal: string = plan.reasoning): Promise<TaskExecution> {
+    try {
+      return await this.executeApprovedPlan(plan, goal);
+    } finally {
+      await this.stopProcesses();
+    }
+  }
+
+  private async executeGoal(goal: string): Promise<TaskExecution> {
+    const context = createContext(goal, this.config.workingDirectory, {
+      taskId: this.config.taskId,
+      onEvent: this.config.onEvent,
+      signal: this.config.signal,
+    });
     const appConfig = loadConfig();
     const maxIterations = this.config.maxIterations || appConfig.agent.maxIterations;
 
     addLog(context, 'info', 'Starting agent execution', { goal });
 
+    await this.loadProjectContext(context);
+
+    if ((this.config.mode || appConfig.agent.mode) === 'tool-use') {
+      return this.executeToolLoop(goal, context, maxIterations);
+    }
+
     try {
       // Phase 1: Planning
       addLog(context, 'info', 'Phase 1: Planning');
-      const plan = await this.planner.createPlan(goal, context);
+      const plan = await this.planner.createPlan(goal, context, this.config.askUser);
 
-      // If in preview mode, return the plan without executing
+      // If in preview mode, simulate file changes and return the plan with diffs
       if (this.config.previewMode) {
-        addLog(context, 'info', 'Preview mode: returning plan without execution');
+        addLog(context, 'info', 'Preview mode: simulating file changes without touching disk');
+        const preview = await this.previewPlan(plan, context);
         return {
           currentStep: 0,
           completedSteps: [],
-          failedSteps: [],
+          failedSteps: preview.failedSteps,
           logs: context.logs,
           filesModified: [],
           commandsRun: [],
           plan, // Include the plan for preview
+          diffs: this.getPreviewDiffs(context),
         };
       }
 
-      // Phase 2: Execution
-      addLog(context, 'info', 'Phase 2: Execution');
+      return await this.runPlan(plan, context, maxIterations);
+    } catch (error: any) {
+      throw this.failRun(context, error);
+    }
+  }
+
+  private async executeApprovedPlan(plan: TaskPlan, goal: string): Promise<TaskExecution> {
+    const context = createContext(goal, this.config.workingDirectory, {
+      taskId: this.config.taskId,
+      onEvent: this.config.onEvent,
+      signal: this.config.signal,
+    });
+    const appConfig = loadConfig();
+    const maxIterations = this.config.maxIterations || appConfig.agent.maxIterations;
+
+    addLog(context, 'info', 'Executing approved plan', { steps: plan.steps.length });
+
+    // Work on a copy so the stored plan keeps its original state
+    const steps = plan.steps.map((step) => ({ ...step, status: 'pending' as const }));
+
+    try {
+      return await this.runPlan({ ...plan, steps }, context, maxIterations, true);
+    } catch (error: any) {
+      throw this.failRun(context, error);
+    }
+  }
 
-      const completedSteps: string[] = [];
-      const failedSteps: string[] = [];
+  /**
+   * Background processes never outlive the run that started them, whether it
+   * succeeded, failed or was cancelled
+   */
+  private async stopProcesses(): Promise<void> {
+    await this.processes.stopAll();
+  }
 
-      for (let i = 0; i < plan.steps.length; i++) {
-        const step = plan.steps[i];
+  /**
+   * Summarize the project for the LLM. A failed scan only costs context, so it
+   * is logged rather than failing the run.
+   */
+  private async loadProjectContext(context: AgentContext): Promise<void> {
+    try {
+      context.projectContext = await buildRepoContext(context.workingDirectory, {
+        pinnedFiles: this.config.contextFiles,
+        sandbox: this.sandbox,
+        signal: context.signal,
+      });
+      addLog(context, 'debug', 'Project context gathered', {
+        pinnedFiles: this.config.contextFiles?.length || 0,
+      });
+    } catch (error: any) {
+      throwIfCancelled(context);
+      addLog(context, 'warn', `Could not gather project context: ${error.message}`);
+    }
+  }
 
-        addLog(context, 'info', `Executing step ${i + 1}/${plan.steps.length}: ${step.description}`);
+  /**
+   * Dry-run a plan: steps that can be simulated run against the in-memory file
+   * system, everything else (commands, git) is left for the real run
+   */
+  private async previewPlan(plan: TaskPlan, context: AgentContext): Promise<{ failedSteps: string[] }> {
+    const appConfig = loadConfig();
+    // Simulate on copies so the returned plan keeps its pending state
+    const steps = plan.steps.map((step) => ({ ...step }));
 
-        step.status = 'in-progress';
-        let result = await this.executor.executeStep(step, context);
+    const { failedSteps } = await this.executor.executeGraph(
+      steps,
+      context,
+      async (step) => {
+        if (!this.executor.canPreviewStep(step)) {
+          return { success: true, output: 'Not executed in preview mode' };
+        }
+        return this.executor.executeStep(step, context);
+      },
+      { maxParallel: this.config.maxParallelSteps || appConfig.agent.maxParallelSteps || 1 }
+    );
 
-        // Phase 3: Iteration (if step failed)
-        if (!result.success && this.iterator.canRetry(step.stepId)) {
-          addLog(context, 'warn', 'Step failed, attempting recovery');
+    if (failedSteps.length > 0) {
+      addLog(context, 'warn', `${failedSteps.length} step(s) failed during preview`, { failedSteps });
+    }
+
+    return { failedSteps };
+  }
+
+  private getPreviewDiffs(context: AgentContext): FileDiff[] | undefined {
+    return this.previewFs ? this.previewFs.getDiffs(context.workingDirectory) : undefined;
+  }
+
+  /**
+   * An `approved` plan is applied as the user reviewed it: failed steps and
+   * checks are reported, never fixed with changes the user has not seen.
+   */
+  private async runPlan(
+    plan: TaskPlan,
+    context: AgentContext,
+    maxIterations: number,
+    approved: boolean = false
+  ): Promise<TaskExecution> {
+    // Phase 2: Execution
+    addLog(context, 'info', 'Phase 2: Execution');
+
+    let graphResult: GraphExecutionResult;
+    let verification: VerificationResult;
+    this.recordBaselineOnFirstChange(context);
+
+    try {
+      graphResult = await this.executeSteps(plan.steps, context, maxIterations, !approved);
+
+      // In non-autonomous mode, any failure fails the task once independent steps have run
+      const { failedSteps, skippedSteps } = graphResult;
+      if (failedSteps.length > 0 && !this.config.autonomous) {
+        throw new AgentError(
+          `${failedSteps.length} step(s) failed` +
+            (skippedSteps.length > 0 ? `, ${skippedSteps.length} dependent step(s) skipped` : '')
+        );
+      }
+
+      // Phase 4: Verification, with repair plans for failing checks
+      verification = await this.verify(
+        context,
+        approved
+          ? undefined
+          : async (failed) => {
+              const repairPlan = await this.planner.createRepairPlan(context.goal, failed, context);
+              if (repairPlan.steps.length === 0) {
+                throw new AgentError('Repair plan has no steps');
+              }
+              const repairResult = await this.executeSteps(repairPlan.steps, context, maxIterations);
+              graphResult = {
+                completedSteps: [...graphResult.completedSteps, ...repairResult.completedSteps],
+                failedSteps: [...graphResult.failedSteps, ...repairResult.failedSteps],
+                skippedSteps: [...graphResult.skippedSteps, ...repairResult.skippedSteps],
+              };
+            }
+      );
+    } catch (error) {
+      // Leave the project as it was before the run
+      await this.rollback(context);
+      throw error;
+    }
+
+    const { completedSteps, failedSteps, skippedSteps } = graphResult;
+
+    addLog(context, 'info', 'Agent execution completed', {
+      completedSteps: completedSteps.length,
+      failedSteps: failedSteps.length,
+      skippedSteps: skippedSteps.length,
+      verified: verification.passed,
+    });
+
+    return {
+      currentStep: plan.steps.length,
+      completedSteps,
+      failedSteps,
+      skippedSteps,
+      logs: context.logs,
+      filesModified: context.filesModified,
+      fileOperations: context.fileOperations,
+      commandsRun: context.commandsRun,
+      journal: verification.rolledBack ? undefined : context.journal,
+      verification,
+    };
+  }
+
+  /**
+   * Run steps as a dependency graph, giving each failed step to the iterator
+   * for recovery unless `recoverFailures` is off
+   */
+  private async executeSteps(
+    steps: PlanStep[],
+    context: AgentContext,
+    maxIterations: number,
+    recoverFailures: boolean = true
+  ): Promise<GraphExecutionResult> {
+    const appConfig = loadConfig();
+    let executedSteps = 0;
+
+    return this.executor.executeGraph(
+      steps,
+      context,
+      async (step) => {
+        // Safety: Prevent runaway plans
+        if (++executedSteps > maxIterations + 1) {
+          throw new AgentError(`Maximum iterations (${maxIterations}) exceeded`);
+        }
 
-          result = await this.iterator.retryWithFix(step, result, context, this.executor);
+        addLog(context, 'info', `Executing step ${executedSteps}/${steps.length}: ${step.description}`);
+
+        let result: StepRunResult = await this.executor.executeStep(step, context);
+        this.iterator.recordOutcome(step.stepId, result);
+
+        // Phase 3: Iteration (if step failed)
+        if (!result.success && recoverFailures) {
+          result = await this.recover(step, result, steps, context);
         }
 
-        if (result.success) {
-          step.status = 'completed';
-          completedSteps.push(step.stepId);
+        // Recovery swallows errors, cancellation included
+        throwIfCancelled(context);
+
+        if (result.revision) {
+          // The executor applies the revision and logs it
+        } else if (result.success) {
           addLog(context, 'info', `Step completed: ${step.description}`);
         } else {
-          step.status = 'failed';
-          failedSteps.push(step.stepId);
           addLog(context, 'error', `Step failed after retries: ${step.description}`, {
             error: result.error,
           });
+        }
+
+        return result;
+      },
+      { maxParallel: this.config.maxParallelSteps || appConfig.agent.maxParallelSteps || 1 }
+    );
+  }
 
-          if (!this.config.autonomous) {
-            // In non-autonomous mode, stop on first failure
-            throw new AgentError(`Step failed: ${result.error}`);
+  /**
+   * Ask the iterator for fixes until the step passes or retries run out.
+   * Fixes that change the plan (prerequisite steps, a replacement plan,
+   * skipping the step) are returned as a revision for the executor to splice
+   * into the running graph; the step itself runs again after prerequisites.
+   * Questions go to the user, and the answer informs the next fix.
+   */
+  private async recover(
+    step: PlanStep,
+    failed: ToolExecutionResult,
+    steps: PlanStep[],
+    context: AgentContext
+  ): Promise<StepRunResult> {
+    let result = failed;
+
+    while (!result.success && this.iterator.canRetry(step.stepId)) {
+      addLog(context, 'warn', 'Step failed, attempting recovery');
+
+      const remaining = steps.filter((s) => s.status === 'pending' && s.stepId !== step.stepId);
+      const fix = await this.iterator.proposeFix(step, result, context, remaining);
+      if (!fix) {
+        break;
+      }
+
+      switch (fix.action) {
+        case 'retry':
+          result = await this.executor.executeStep(
+            { ...step, params: fix.params!, description: `${step.description} (retry with fix)` },
+            context
+          );
+          this.iterator.recordOutcome(step.stepId, result);
+          break;
+        case 'insert_steps':
+          if (fix.params) step.params = fix.params;
+          return { ...result, revision: { type: 'insert', steps: fix.steps! } };
+        case 'replace_plan':
+          return { ...result, revision: { type: 'replace', steps: fix.steps! } };
+        case 'skip':
+          return { ...result, revision: { type: 'skip' } };
+        case 'ask_user': {
+          if (!this.config.askUser) {
+            // Nobody can answer, so the question becomes the step's error
+            addLog(context, 'warn', `Recovery needs user input: ${fix.question}`, { stepId: step.stepId });
+            return { ...result, error: `${result.error}\nNeeds user input: ${fix.question}` };
           }
-        }
 
-        // Safety: Prevent infinite loops
-        if (i >= maxIterations) {
-          throw new AgentError(`Maximum iterations (${maxIterations}) exceeded`);
+          // The answer goes into the attempt history for the next fix
+          const answer = await this.config.askUser(
+            { question: fix.question!, context: `Step "${step.description}" failed: ${result.error}` },
+            context.signal
+          );
+          this.iterator.recordAnswer(step.stepId, answer);
+          addLog(context, 'info', 'The user answered', { stepId: step.stepId, answer });
+          break;
         }
       }
+    }
 
-      // Check if all steps completed
-      if (failedSteps.length > 0 && !this.config.autonomous) {
-        throw new AgentError(`${failedSteps.length} step(s) failed`);
+    return result;
+  }
+
+  /**
+   * Check the changes and seal the journal. Outside autonomous mode, changes
+   * whose checks still fail after every repair round are rolled back. Without
+   * `repair`, failing checks are only reported.
+   */
+  private async verify(context: AgentContext, repair?: RepairHandler): Promise<VerificationResult> {
+    const verification = await this.verifier.verify(context, repair);
+
+    if (!verification.passed && !this.config.autonomous) {
+      await this.rollback(context);
+      return { ...verification, rolledBack: true };
+    }
+
+    await sealJournal(context.journal);
+    return verification;
+  }
+
+  /**
+   * Run the checks right before the run first changes the project, so
+   * verification can tell the failures it causes from those already there.
+   * Runs that change nothing never pay for them.
+   */
+  private recordBaselineOnFirstChange(context: AgentContext): void {
+    context.beforeChange = async () => {
+      // Cleared first: the checks are commands, which would wait on themselves.
+      // Steps that change the project run one at a time, so none slips past.
+      context.beforeChange = undefined;
+      await this.verifier.recordBaseline(context);
+    };
+  }
+
+  /**
+   * Report an aborted run as a cancellation, whatever error the abort surfaced as
+   */
+  private failRun(context: AgentContext, error: Error): Error {
+    if (context.signal?.aborted) {
+      addLog(context, 'warn', 'Agent execution cancelled');
+      return error instanceof TaskCancelledError ? error : new TaskCancelledError();
+    }
+
+    addLog(context, 'error', 'Agent execution failed', { error: error.message });
+    return error;
+  }
+
+  /**
+   * Restore every file the run changed. Commands and git operations are not
+   * journaled, so their effects stay.
+   */
+  private async rollback(context: AgentContext): Promise<void> {
+    if (context.journal.length === 0) {
+      return;
+    }
+
+    addLog(context, 'warn', `Rolling back changes to ${context.journal.length} file(s)`);
+
+    try {
+      const restored = await rollbackJournal(context.journal);
+      addLog(context, 'info', 'Rollback completed', { restored });
+    } catch (error: any) {
+      addLog(context, 'error', 'Rollback failed', { error: error.message });
+    }
+  }
+
+  private async executeToolLoop(
+    goal: string,
+    context: AgentContext,
+    maxIterations: number
+  ): Promise<TaskExecution> {
+    if (!this.config.previewMode) {
+      this.recordBaselineOnFirstChange(context);
+    }
+
+    try {
+      addLog(context, 'info', 'Running tool-use loop');
+      const result = await this.toolLoop.run(goal, context, {
+        maxTurns: maxIterations,
+        previewMode: this.config.previewMode,
+      });
+      const completedSteps = [...result.completedSteps];
+      const failedSteps = [...result.failedSteps];
+
+      // Preview edits are only in memory, so there is nothing to check yet
+      let verification: VerificationResult | undefined;
+      if (this.config.previewMode) {
+        await sealJournal(context.journal);
+      } else {
+        verification = await this.verify(context, async (failed) => {
+          const repairGoal =
+            `${goal}\n\nThe changes for this goal have been made, but these checks now fail. ` +
+            `Fix the code so they pass, without deleting, skipping or weakening tests or checks:\n\n` +
+            describeFailedChecks(failed);
+          const repair = await this.toolLoop.run(repairGoal, context, { maxTurns: maxIterations });
+          completedSteps.push(...repair.completedSteps);
+          failedSteps.push(...repair.failedSteps);
+        });
       }
 
+      // Failed tool calls are not fatal here: the model saw each error and chose how to proceed
       addLog(context, 'info', 'Agent execution completed', {
+        turns: result.turns,
         completedSteps: completedSteps.length,
         failedSteps: failedSteps.length,
+        verified: verification?.passed,
       });
 
       return {
-        currentStep: plan.steps.length,
+        currentStep: completedSteps.length + failedSteps.length,
         completedSteps,
         failedSteps,
         logs: context.logs,
-        filesModified: context.filesModified,
+        filesModified: this.config.previewMode ? [] : context.filesModified, // Preview edits stay in memory
+        fileOperations: this.config.previewMode ? [] : context.fileOperations,
         commandsRun: context.commandsRun,
+        plan: result.plan,
+        summary: result.summary,
+        diffs: this.getPreviewDiffs(context),
+        journal: verification?.rolledBack ? undefined : context.journal,
+        verification,
       };
     } catch (error: any) {
-      addLog(context, 'error', 'Agent execution failed', { error: error.message });
-      throw error;
+      await this.rollback(context);
+      throw this.failRun(context, error);
     }
   }
 }
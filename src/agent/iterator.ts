@@ -1,15 +1,40 @@
 /**
  * Task Iterator - Handles error recovery and retries
+ *
+ * For a failed step the model picks a recovery: retry with other parameters,
+ * run prerequisite steps first, replace the rest of the plan, skip the step or
+ * ask the user. Every attempt and how it turned out is remembered per step, so
+ * the next proposal can build on it instead of repeating it.
  */
 
 import { BaseLLMClient } from '../llm/base-client';
 import { ToolExecutionResult } from './tools/base-tool';
-import { PlanStep } from '../shared/types/task';
+import { Diagnostic, PlanStep } from '../shared/types/task';
 import { AgentContext, addLog } from './context';
-import { Executor } from './executor';
+import { requestCompletion } from './completion';
+import { formatDiagnostics } from './diagnostics';
+import { TOOL_GUIDE, toPlanSteps } from './planner';
+
+export type FixAction = 'retry' | 'insert_steps' | 'replace_plan' | 'skip' | 'ask_user';
+
+export interface FixStrategy {
+  action: FixAction;
+  reasoning: string;
+  params?: Record<string, any>; // retry: the corrected parameters; insert_steps: parameters for the rerun, if they change
+  steps?: PlanStep[]; // insert_steps and replace_plan
+  question?: string; // ask_user
+}
+
+interface FixAttempt {
+  strategy: FixStrategy;
+  signature: string; // Identifies the same fix proposed twice
+  outcome?: string; // Error of the step's next run; unset until it ran again
+}
+
+const FIX_ACTIONS: FixAction[] = ['retry', 'insert_steps', 'replace_plan', 'skip', 'ask_user'];
 
 export class Iterator {
-  private retryCount: Map<string, number> = new Map();
+  private attempts: Map<string, FixAttempt[]> = new Map();
 
   constructor(
     private llm: BaseLLMClient,
@@ -17,97 +42,209 @@ export class Iterator {
   ) {}
 
   canRetry(stepId: string): boolean {
-    const count = this.retryCount.get(stepId) || 0;
-    return count < this.maxRetries;
+    return this.getAttempts(stepId).length < this.maxRetries;
   }
 
-  async retryWithFix(
+  /**
+   * Ask the model how to recover from a failed step. Returns null when the
+   * failure cannot be fixed, or when the model only repeats an earlier attempt.
+   * `remaining` are the steps not started yet, for a replacement plan to cover.
+   */
+  async proposeFix(
     step: PlanStep,
     failedResult: ToolExecutionResult,
     context: AgentContext,
-    executor: Executor
-  ): Promise<ToolExecutionResult> {
-    const retryCount = (this.retryCount.get(step.stepId) || 0) + 1;
-    this.retryCount.set(step.stepId, retryCount);
+    remaining: PlanStep[] = []
+  ): Promise<FixStrategy | null> {
+    const attempts = this.getAttempts(step.stepId);
+    addLog(context, 'info', `Attempting to fix failed step (attempt ${attempts.length + 1}/${this.maxRetries})`);
 
-    addLog(context, 'info', `Attempting to fix failed step (attempt ${retryCount}/${this.maxRetries})`);
-
-    try {
-      // Ask LLM how to fix the error
-      const fixStrategy = await this.getFixStrategy(step, failedResult, context);
+    const strategy = await this.getFixStrategy(step, failedResult, context, attempts, remaining);
+    if (!strategy) {
+      return null;
+    }
 
-      if (!fixStrategy) {
-        return failedResult;
-      }
+    const signature = this.signature(strategy);
+    const repeated = attempts.findIndex((attempt) => attempt.signature === signature);
+    attempts.push({ strategy, signature, outcome: repeated >= 0 ? 'repeated an earlier attempt' : undefined });
+    this.attempts.set(step.stepId, attempts);
 
-      addLog(context, 'info', `Fix strategy: ${fixStrategy.reasoning}`);
+    if (repeated >= 0) {
+      addLog(context, 'warn', `Fix strategy repeats attempt ${repeated + 1}; not trying it again`, {
+        stepId: step.stepId,
+      });
+      return null;
+    }
 
-      // Apply the fix by executing the modified step
-      const modifiedStep: PlanStep = {
-        ...step,
-        params: fixStrategy.modifiedParams || step.params,
-        description: `${step.description} (retry with fix)`,
-      };
+    addLog(context, 'info', `Fix strategy (${strategy.action}): ${strategy.reasoning}`, { stepId: step.stepId });
+    return strategy;
+  }
 
-      const result = await executor.executeStep(modifiedStep, context);
+  /**
+   * Note how the step's latest run went, for the attempt that led to it
+   */
+  recordOutcome(stepId: string, result: ToolExecutionResult): void {
+    const attempts = this.getAttempts(stepId);
+    const last = attempts[attempts.length - 1];
+    if (last && last.outcome === undefined) {
+      last.outcome = result.success ? 'succeeded' : result.error || 'failed';
+    }
+  }
 
-      return result;
-    } catch (error: any) {
-      addLog(context, 'error', `Fix attempt failed: ${error.message}`);
-      return failedResult;
+  /**
+   * Note the user's answer to the question the last attempt asked
+   */
+  recordAnswer(stepId: string, answer: string): void {
+    const attempts = this.getAttempts(stepId);
+    const last = attempts[attempts.length - 1];
+    if (last && last.strategy.action === 'ask_user') {
+      last.outcome = `the user answered: ${answer}`;
     }
   }
 
+  private getAttempts(stepId: string): FixAttempt[] {
+    return this.attempts.get(stepId) || [];
+  }
+
   private async getFixStrategy(
     step: PlanStep,
     failedResult: ToolExecutionResult,
-    context: AgentContext
-  ): Promise<{ reasoning: string; modifiedParams?: any } | null> {
+    context: AgentContext,
+    attempts: FixAttempt[],
+    remaining: PlanStep[]
+  ): Promise<FixStrategy | null> {
     const systemPrompt = `You are an expert debugging agent.
 A step in a software development task has failed.
-Analyze the error and suggest how to fix it.
+Analyze the error and choose how to recover:
+
+- "retry": run the step again with corrected "params" (e.g. a wrong path or a typo in a command)
+- "insert_steps": run new "steps" first, then the failed step again (e.g. install a missing dependency,
+  create a missing file); include "params" only if the rerun needs different parameters
+- "replace_plan": the approach is wrong; "steps" replace the failed step and every step not started yet
+- "skip": the step is not needed to reach the goal; the plan continues without it
+- "ask_user": only the user can decide (e.g. missing credentials or an ambiguous requirement); ask a "question"
+- "give_up": the failure cannot be fixed
+
+${TOOL_GUIDE}
 
 Return ONLY a valid JSON object:
 {
   "reasoning": "Why it failed and how to fix it",
-  "modifiedParams": {
-    // Modified parameters for the tool, or null if unfixable
-  }
+  "action": "retry|insert_steps|replace_plan|skip|ask_user|give_up",
+  "params": {
+    // Tool parameters for the failed step (retry, insert_steps)
+  },
+  "steps": [
+    {
+      "description": "What this step does",
+      "tool": "file|command|git|search|code_search|process",
+      "params": {},
+      "dependencies": [0]
+    }
+  ],
+  "question": "What to ask the user (ask_user)"
 }
 
-If the error is not fixable, return modifiedParams as null.`;
+"dependencies" lists zero-based indexes into "steps".
+Never propose a fix that was already tried; earlier attempts are listed with how they turned out.
+When problems are listed, trust their file names and line numbers over your reading of the output.`;
+
+    // Parsed compiler, lint and test problems stand in for the raw output
+    const diagnostics: Diagnostic[] = failedResult.metadata?.diagnostics || [];
+    const details =
+      diagnostics.length > 0
+        ? `Problems (file:line [tool rule] test: message):\n${formatDiagnostics(diagnostics)}\n\n` +
+          `Files with problems: ${[...new Set(diagnostics.map((d) => d.file).filter(Boolean))].join(', ') || 'none'}`
+        : `Output: ${failedResult.output}`;
+
+    const history =
+      attempts.length > 0
+        ? `\n\nEarlier attempts for this step (do not repeat them):\n${attempts
+            .map((attempt, i) => `${i + 1}. ${this.describeAttempt(attempt)}`)
+            .join('\n')}`
+        : '';
+
+    const plan =
+      remaining.length > 0
+        ? `\n\nSteps not started yet:\n${remaining.map((s) => `- ${s.description} (${s.tool})`).join('\n')}`
+        : '';
+
+    const prompt = `Goal: ${context.goal}
 
-    const prompt = `Failed step:
+Failed step:
 Description: ${step.description}
 Tool: ${step.tool}
 Parameters: ${JSON.stringify(step.params, null, 2)}
 
 Error: ${failedResult.error}
-Output: ${failedResult.output}
+${details}${history}${plan}
 
 How should this be fixed?`;
 
     try {
-      const response = await this.llm.generateCompletion({
+      const response = await requestCompletion(this.llm, context, {
         systemPrompt,
         prompt,
-        maxTokens: 1000,
+        maxTokens: 2000,
         temperature: 0.3,
       });
 
-      const fix = this.parseFixResponse(response.text);
-
-      if (!fix || fix.modifiedParams === null) {
-        return null;
-      }
-
-      return fix;
+      return this.toStrategy(this.parseFixResponse(response.text));
     } catch (error: any) {
       addLog(context, 'error', `Failed to get fix strategy: ${error.message}`);
       return null;
     }
   }
 
+  /**
+   * Validate the model's answer. Answers in the older shape, with only
+   * `modifiedParams`, are retries.
+   */
+  private toStrategy(fix: any): FixStrategy | null {
+    if (!fix) {
+      return null;
+    }
+
+    const action = fix.action ?? (fix.modifiedParams ? 'retry' : 'give_up');
+    const params = fix.params ?? fix.modifiedParams ?? undefined;
+    const reasoning = String(fix.reasoning || '');
+    if (!FIX_ACTIONS.includes(action)) {
+      return null;
+    }
+
+    switch (action as FixAction) {
+      case 'retry':
+        return params ? { action, reasoning, params } : null;
+      case 'insert_steps':
+      case 'replace_plan': {
+        const steps = Array.isArray(fix.steps) ? fix.steps.filter((s: any) => s && s.tool) : [];
+        return steps.length > 0 ? { action, reasoning, params, steps: toPlanSteps(steps) } : null;
+      }
+      case 'skip':
+        return { action, reasoning };
+      case 'ask_user':
+        return fix.question ? { action, reasoning, question: String(fix.question) } : null;
+    }
+  }
+
+  private signature(strategy: FixStrategy): string {
+    return JSON.stringify([
+      strategy.action,
+      strategy.params ?? null,
+      (strategy.steps || []).map((s) => [s.tool, s.params]),
+      strategy.question ?? null,
+    ]);
+  }
+
+  private describeAttempt(attempt: FixAttempt): string {
+    const { strategy } = attempt;
+    let fix: string = strategy.action;
+    if (strategy.params) fix += ` with params ${JSON.stringify(strategy.params)}`;
+    if (strategy.steps) fix += ` with steps: ${strategy.steps.map((s) => s.description).join('; ')}`;
+    if (strategy.question) fix += `: ${strategy.question}`;
+    return `${fix} (${strategy.reasoning}) -> ${attempt.outcome ?? 'not run yet'}`;
+  }
+
   private parseFixResponse(response: string): any {
     try {
       let cleanResponse = response.trim();
@@ -136,6 +273,6 @@ How should this be fixed?`;
   }
 
   resetRetryCount(stepId: string): void {
-    this.retryCount.delete(stepId);
+    this.attempts.delete(stepId);
   }
 }
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findChangedSince, recordSnapshot, rollbackJournal, sealJournal } from './journal';
+import { AgentContext, createContext } from './context';
+import { TEMP_DIR } from '../shared/constants';
+
+describe('change journal', () => {
+  let dir: string;
+  let context: AgentContext;
+
+  const file = (name: string) => path.join(dir, name);
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'journal-test-')));
+    context = createContext('goal', dir, { taskId: 'task-1' });
+    fs.writeFileSync(file('a.txt'), 'original a\n');
+    fs.writeFileSync(file('image.bin'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps only the first snapshot of a file, as a backup under the task directory', async () => {
+    await recordSnapshot(context, file('a.txt'));
+    fs.writeFileSync(file('a.txt'), 'changed\n');
+    await recordSnapshot(context, file('a.txt'));
+
+    expect(context.journal).toHaveLength(1);
+    const [entry] = context.journal;
+    expect(path.dirname(entry.backup!)).toBe(path.join(dir, TEMP_DIR, 'journal', 'task-1'));
+    expect(fs.readFileSync(entry.backup!, 'utf-8')).toBe('original a\n');
+    expect(fs.readFileSync(path.join(dir, TEMP_DIR, '.gitignore'), 'utf-8')).toBe('*\n');
+  });
+
+  it('restores changed, deleted and binary files, removes created ones and cleans up', async () => {
+    for (const name of ['a.txt', 'image.bin', 'new/created.txt']) {
+      await recordSnapshot(context, file(name));
+    }
+    fs.writeFileSync(file('a.txt'), 'changed\n');
+    fs.unlinkSync(file('image.bin'));
+    fs.mkdirSync(file('new'));
+    fs.writeFileSync(file('new/created.txt'), 'created\n');
+
+    const restored = await rollbackJournal(context.journal);
+
+    expect(restored).toEqual([file('a.txt'), file('image.bin'), file('new/created.txt')]);
+    expect(fs.readFileSync(file('a.txt'), 'utf-8')).toBe('original a\n');
+    expect(fs.readFileSync(file('image.bin'))).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]));
+    expect(fs.existsSync(file('new/created.txt'))).toBe(false);
+    expect(fs.existsSync(path.join(dir, TEMP_DIR, 'journal', 'task-1'))).toBe(false);
+  });
+
+  it('changes nothing when a backup is damaged', async () => {
+    await recordSnapshot(context, file('a.txt'));
+    await recordSnapshot(context, file('image.bin'));
+    fs.writeFileSync(file('a.txt'), 'changed a\n');
+    fs.writeFileSync(file('image.bin'), 'changed image');
+    fs.writeFileSync(context.journal[1].backup!, 'corrupted');
+
+    await expect(rollbackJournal(context.journal)).rejects.toThrow(
+      `Rollback aborted, no files were changed: backup of ${file('image.bin')} is missing or damaged`
+    );
+    expect(fs.readFileSync(file('a.txt'), 'utf-8')).toBe('changed a\n');
+    expect(fs.readdirSync(dir).filter((name) => name.includes('mikasa-rollback'))).toEqual([]);
+  });
+
+  it('finds files edited again after the run', async () => {
+    await recordSnapshot(context, file('a.txt'));
+    await recordSnapshot(context, file('b.txt'));
+    fs.writeFileSync(file('a.txt'), 'changed\n');
+    fs.writeFileSync(file('b.txt'), 'created\n');
+    await sealJournal(context.journal);
+
+    expect(await findChangedSince(context.journal)).toEqual([]);
+
+    fs.writeFileSync(file('a.txt'), 'edited by hand\n');
+    fs.unlinkSync(file('b.txt'));
+    expect(await findChangedSince(context.journal)).toEqual([file('a.txt'), file('b.txt')]);
+  });
+});
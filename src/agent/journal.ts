@@ -0,0 +1,136 @@
+/**
+ * Change Journal - Snapshot files before the agent changes them and roll back
+ *
+ * Snapshots are byte-for-byte copies kept under the project's TEMP_DIR, one
+ * directory per task, so binary files survive a rollback and the task itself
+ * only stores paths and hashes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import { JournalEntry } from '../shared/types/task';
+import { AgentContext } from './context';
+import { AgentError } from '../shared/errors';
+import { ensureTempDirectory } from '../shared/utils/file-utils';
+
+const readFileAsync = promisify(fs.readFile);
+const writeFileAsync = promisify(fs.writeFile);
+const renameAsync = promisify(fs.rename);
+const unlinkAsync = promisify(fs.unlink);
+const existsAsync = promisify(fs.exists);
+const mkdirAsync = promisify(fs.mkdir);
+
+/**
+ * Record a file's current contents, unless it is already in the journal.
+ * Only the first snapshot matters: that is the state rollback restores.
+ */
+export async function recordSnapshot(context: AgentContext, filePath: string): Promise<void> {
+  const absolutePath = path.resolve(filePath);
+  if (context.journal.some((entry) => entry.path === absolutePath)) {
+    return;
+  }
+
+  const original = await readIfExists(absolutePath);
+  const originalHash = hashContent(original);
+  let backup: string | null = null;
+
+  // Named by hash, so files with the same contents share one copy
+  if (original !== null) {
+    const directory = await ensureTempDirectory(context.workingDirectory, 'journal', context.taskId || 'untitled');
+    backup = path.join(directory, originalHash);
+    await writeFileAsync(backup, original);
+  }
+
+  context.journal.push({ path: absolutePath, backup, originalHash });
+}
+
+/**
+ * Record what the run left behind, so a later revert can tell whether the
+ * files were changed again since
+ */
+export async function sealJournal(journal: JournalEntry[]): Promise<void> {
+  for (const entry of journal) {
+    entry.modifiedHash = hashContent(await readIfExists(entry.path));
+  }
+}
+
+/**
+ * Journal entries whose files no longer hold what the run wrote
+ */
+export async function findChangedSince(journal: JournalEntry[]): Promise<string[]> {
+  const changed: string[] = [];
+  for (const entry of journal) {
+    if (entry.modifiedHash !== undefined && hashContent(await readIfExists(entry.path)) !== entry.modifiedHash) {
+      changed.push(entry.path);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Restore every journaled file to its original contents.
+ *
+ * Restored contents are first staged next to their targets; only once every
+ * file is staged are they renamed into place and created files removed. A
+ * failure while staging, including a missing or damaged backup, leaves the
+ * project untouched. The backups are deleted once restored.
+ */
+export async function rollbackJournal(journal: JournalEntry[]): Promise<string[]> {
+  const staged: Array<{ entry: JournalEntry; tempPath: string }> = [];
+
+  try {
+    for (const entry of journal) {
+      if (entry.backup === null) continue;
+
+      const original = await readIfExists(entry.backup);
+      if (hashContent(original) !== entry.originalHash) {
+        throw new Error(`backup of ${entry.path} is missing or damaged`);
+      }
+
+      const dir = path.dirname(entry.path);
+      if (!await existsAsync(dir)) {
+        await mkdirAsync(dir, { recursive: true });
+      }
+
+      const tempPath = `${entry.path}.mikasa-rollback-${process.pid}`;
+      await writeFileAsync(tempPath, original!);
+      staged.push({ entry, tempPath });
+    }
+  } catch (error: any) {
+    await Promise.all(staged.map(({ tempPath }) => unlinkAsync(tempPath).catch(() => undefined)));
+    throw new AgentError(`Rollback aborted, no files were changed: ${error.message}`);
+  }
+
+  for (const { tempPath, entry } of staged) {
+    await renameAsync(tempPath, entry.path);
+  }
+
+  for (const entry of journal) {
+    if (entry.backup === null && await existsAsync(entry.path)) {
+      await unlinkAsync(entry.path);
+    }
+  }
+
+  await removeBackups(journal);
+
+  return journal.map((entry) => entry.path);
+}
+
+async function removeBackups(journal: JournalEntry[]): Promise<void> {
+  const backups = journal.map((entry) => entry.backup).filter((backup): backup is string => backup !== null);
+
+  await Promise.all([...new Set(backups)].map((backup) => unlinkAsync(backup).catch(() => undefined)));
+  for (const directory of new Set(backups.map((backup) => path.dirname(backup)))) {
+    await fs.promises.rmdir(directory).catch(() => undefined); // Only if empty
+  }
+}
+
+async function readIfExists(filePath: string): Promise<Buffer | null> {
+  return (await existsAsync(filePath)) ? readFileAsync(filePath) : null;
+}
+
+function hashContent(content: Buffer | null): string {
+  return content === null ? 'deleted' : createHash('sha256').update(content).digest('hex');
+}
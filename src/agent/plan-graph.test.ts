@@ -0,0 +1,53 @@
+import { buildPlanGraph, collectDependents } from './plan-graph';
+import { PlanStep } from '../shared/types/task';
+import { AgentError } from '../shared/errors';
+
+function step(stepId: string, dependencies: string[] = []): PlanStep {
+  return { stepId, description: stepId, tool: 'file', params: {}, dependencies, status: 'pending' };
+}
+
+describe('buildPlanGraph', () => {
+  it('orders steps after their dependencies', () => {
+    const graph = buildPlanGraph([step('test', ['write', 'config']), step('write', ['read']), step('read'), step('config')]);
+    expect(graph.order).toEqual(['read', 'config', 'write', 'test']);
+    expect(graph.dependents.get('read')).toEqual(['write']);
+  });
+
+  it('treats steps without dependencies as independent', () => {
+    const graph = buildPlanGraph([{ ...step('a'), dependencies: undefined as any }, step('b')]);
+    expect(graph.order).toEqual(['a', 'b']);
+  });
+
+  it('counts a dependency listed twice once', () => {
+    expect(buildPlanGraph([step('a'), step('b', ['a', 'a'])]).order).toEqual(['a', 'b']);
+  });
+
+  it('rejects duplicate step IDs', () => {
+    expect(() => buildPlanGraph([step('a'), step('a')])).toThrow('Invalid plan: duplicate step ID a');
+  });
+
+  it('rejects unknown dependencies', () => {
+    expect(() => buildPlanGraph([step('a', ['missing'])])).toThrow(
+      new AgentError('Invalid plan: step a depends on unknown step missing')
+    );
+  });
+
+  it('rejects steps that depend on themselves', () => {
+    expect(() => buildPlanGraph([step('a', ['a'])])).toThrow('Invalid plan: step a depends on itself');
+  });
+
+  it('rejects cycles, naming the steps caught in them', () => {
+    expect(() => buildPlanGraph([step('a'), step('b', ['a', 'd']), step('c', ['b']), step('d', ['c'])])).toThrow(
+      'Invalid plan: dependency cycle between steps b, c, d'
+    );
+  });
+});
+
+describe('collectDependents', () => {
+  it('returns every step that transitively depends on a step', () => {
+    const graph = buildPlanGraph([step('a'), step('b', ['a']), step('c', ['b']), step('d', ['a', 'c']), step('e')]);
+    expect(collectDependents(graph, 'a').sort()).toEqual(['b', 'c', 'd']);
+    expect(collectDependents(graph, 'c')).toEqual(['d']);
+    expect(collectDependents(graph, 'e')).toEqual([]);
+  });
+});
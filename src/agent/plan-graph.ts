@@ -0,0 +1,86 @@
+/**
+ * Plan Graph - Dependency graph over plan steps
+ */
+
+import { PlanStep } from '../shared/types/task';
+import { AgentError } from '../shared/errors';
+
+export interface PlanGraph {
+  steps: Map<string, PlanStep>;
+  dependents: Map<string, string[]>;
+  order: string[]; // Topological order
+}
+
+/**
+ * Build and validate the dependency graph of a plan.
+ * Throws on duplicate step IDs, unknown dependencies and cycles.
+ */
+export function buildPlanGraph(steps: PlanStep[]): PlanGraph {
+  const stepMap = new Map<string, PlanStep>();
+  const dependents = new Map<string, string[]>();
+
+  for (const step of steps) {
+    if (stepMap.has(step.stepId)) {
+      throw new AgentError(`Invalid plan: duplicate step ID ${step.stepId}`);
+    }
+    stepMap.set(step.stepId, step);
+    dependents.set(step.stepId, []);
+  }
+
+  for (const step of steps) {
+    for (const dependency of step.dependencies || []) {
+      if (!stepMap.has(dependency)) {
+        throw new AgentError(`Invalid plan: step ${step.stepId} depends on unknown step ${dependency}`);
+      }
+      if (dependency === step.stepId) {
+        throw new AgentError(`Invalid plan: step ${step.stepId} depends on itself`);
+      }
+      dependents.get(dependency)!.push(step.stepId);
+    }
+  }
+
+  // Kahn's algorithm; anything left over is part of a cycle
+  const inDegree = new Map(steps.map((s) => [s.stepId, new Set(s.dependencies || []).size]));
+  const order: string[] = [];
+  let ready = steps.filter((s) => inDegree.get(s.stepId) === 0).map((s) => s.stepId);
+
+  while (ready.length > 0) {
+    const next: string[] = [];
+    for (const stepId of ready) {
+      order.push(stepId);
+      for (const dependent of new Set(dependents.get(stepId))) {
+        const remaining = inDegree.get(dependent)! - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) {
+          next.push(dependent);
+        }
+      }
+    }
+    ready = next;
+  }
+
+  if (order.length < steps.length) {
+    const cyclic = steps.filter((s) => !order.includes(s.stepId)).map((s) => s.stepId);
+    throw new AgentError(`Invalid plan: dependency cycle between steps ${cyclic.join(', ')}`);
+  }
+
+  return { steps: stepMap, dependents, order };
+}
+
+/**
+ * All steps that transitively depend on the given step
+ */
+export function collectDependents(graph: PlanGraph, stepId: string): string[] {
+  const result = new Set<string>();
+  const queue = [...(graph.dependents.get(stepId) || [])];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (!result.has(current)) {
+      result.add(current);
+      queue.push(...(graph.dependents.get(current) || []));
+    }
+  }
+
+  return [...result];
+}
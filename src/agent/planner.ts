@@ -3,43 +3,161 @@
  */
 
 import { BaseLLMClient } from '../llm/base-client';
-import { TaskPlan } from '../shared/types/task';
+import {
+  PlanStep,
+  QuestionHandler,
+  TaskPlan,
+  UserQuestion,
+  VerificationCheckResult,
+} from '../shared/types/task';
 import { AgentContext, addLog } from './context';
+import { requestCompletion } from './completion';
 import { generateStepId } from '../shared/utils/id-generator';
 import { AgentError } from '../shared/errors';
+import { buildPlanGraph } from './plan-graph';
+import { describeFailedChecks } from './verification';
+
+/**
+ * What each tool does and takes; shared by every prompt that asks for steps
+ */
+export const TOOL_GUIDE = `Available tools:
+1. file - Read, write, patch and manage files
+   - Actions: read, write, patch, multi_patch, delete, move, copy, mkdir, list, stat
+   - Use this to read existing code, create new files, or modify files
+   - Rename or remove files with move { path, destination } and delete { path } instead of shell mv/rm;
+     set recursive for directories. Deleting and moving may be disabled by the user's safety settings.
+   - Prefer multi_patch for edits to existing files: params { action, path, edits: [...] } where each edit is
+     { search, replace } (search must match exactly once; set replaceAll to change every match),
+     { startLine, endLine, replace } or { diff } (unified diff hunks). All edits apply together or not at all.
+
+2. command - Execute shell commands
+   - Use this to run npm/yarn commands, build tools, tests, etc.
+   - Example commands: npm install, npm test, npm run build
+
+3. git - Perform Git operations
+   - Actions: status, commit, branch, push, pr
+   - Use this to check status, commit changes, create branches, push code, create PRs
+
+4. search - Search the project (respects .gitignore)
+   - Actions: glob (params: pattern, e.g. "src/**/*.ts"), grep (params: pattern regex, optional include glob),
+     tree (params: optional path and depth)
+   - Use this to find files and code before reading them; never guess file paths
+
+5. code_search - Semantic code search
+   - Params: query (natural language or identifiers), optional include glob and limit
+   - Use this to find where a concept is implemented when you do not know the exact text to grep for
+
+6. process - Run long-lived commands in the background
+   - Actions: start (params: command, optional name and cwd), status, logs (params: id, optional lines),
+     wait_for (params: id and a pattern regex or a port, optional timeout), stop (params: id)
+   - Use this for dev servers and watchers that never exit on their own; start them, wait_for them to be ready,
+     then test against them. Everything still running is stopped when the task ends`;
+
+/**
+ * Turn steps as the model wrote them into plan steps. The model refers to
+ * other steps by their index in `rawSteps`; those become generated step IDs.
+ */
+export function toPlanSteps(rawSteps: any[]): PlanStep[] {
+  const stepIds: string[] = rawSteps.map((_: any, i: number) => generateStepId(i));
+
+  return rawSteps.map((s: any, i: number) => ({
+    stepId: stepIds[i],
+    description: s.description,
+    tool: s.tool,
+    params: s.params,
+    dependencies: (s.dependencies || []).map((d: any) => resolveDependency(d, stepIds)),
+    status: 'pending' as const,
+  }));
+}
+
+/**
+ * Map an index onto its generated step ID. Anything unrecognised is kept
+ * as-is so plan validation reports it.
+ */
+function resolveDependency(dependency: any, stepIds: string[]): string {
+  const raw = String(dependency).trim();
+  if (/^\d+$/.test(raw)) {
+    return stepIds[parseInt(raw)] || raw;
+  }
+  return raw;
+}
 
 export class Planner {
   constructor(private llm: BaseLLMClient) {}
 
-  async createPlan(goal: string, context: AgentContext): Promise<TaskPlan> {
+  /**
+   * Plan the goal. Given `askUser`, the model may first ask one clarifying
+   * question about an ambiguous goal; the answer becomes part of the goal,
+   * including `context.goal`, for the rest of the run.
+   */
+  async createPlan(goal: string, context: AgentContext, askUser?: QuestionHandler): Promise<TaskPlan> {
     addLog(context, 'info', 'Creating execution plan');
+    if (!askUser) {
+      return this.requestPlan(this.buildPrompt(goal, context), context);
+    }
+
+    const result = await this.requestPlan(this.buildPrompt(goal, context), context, true);
+    if ('steps' in result) {
+      return result;
+    }
+
+    addLog(context, 'info', `Asking the user: ${result.question}`);
+    const answer = await askUser(result, context.signal);
+    addLog(context, 'info', 'The user answered', { answer });
 
-    const systemPrompt = this.buildSystemPrompt();
-    const prompt = this.buildPrompt(goal, context);
+    context.goal = `${goal}\n\nClarification from the user:\nQ: ${result.question}\nA: ${answer}`;
+    return this.requestPlan(this.buildPrompt(context.goal, context), context);
+  }
+
+  /**
+   * Plan fixes for checks that fail after the goal's changes were made
+   */
+  async createRepairPlan(goal: string, failed: VerificationCheckResult[], context: AgentContext): Promise<TaskPlan> {
+    addLog(context, 'info', 'Creating repair plan', { checks: failed.map((check) => check.name) });
+    return this.requestPlan(this.buildRepairPrompt(goal, failed, context), context);
+  }
+
+  private async requestPlan(prompt: string, context: AgentContext): Promise<TaskPlan>;
+  private async requestPlan(
+    prompt: string,
+    context: AgentContext,
+    allowQuestion: true
+  ): Promise<TaskPlan | UserQuestion>;
+  private async requestPlan(
+    prompt: string,
+    context: AgentContext,
+    allowQuestion: boolean = false
+  ): Promise<TaskPlan | UserQuestion> {
+    const systemPrompt = this.buildSystemPrompt(allowQuestion);
 
     try {
-      const response = await this.llm.generateCompletion({
+      const response = await requestCompletion(this.llm, context, {
         systemPrompt,
         prompt,
+        context: context.projectContext,
         maxTokens: 2000,
         temperature: 0.3, // Lower temperature for more focused planning
       });
 
       const planData = this.parsePlanResponse(response.text);
 
+      if (allowQuestion && planData.question && !planData.steps?.length) {
+        return {
+          question: String(planData.question),
+          choices: Array.isArray(planData.choices) ? planData.choices.map(String) : undefined,
+          context: planData.reasoning,
+        };
+      }
+
       const plan: TaskPlan = {
-        steps: planData.steps.map((s: any, i: number) => ({
-          stepId: generateStepId(i),
-          description: s.description,
-          tool: s.tool,
-          params: s.params,
-          dependencies: s.dependencies || [],
-          status: 'pending' as const,
-        })),
+        steps: toPlanSteps(planData.steps),
         reasoning: planData.reasoning,
         estimatedSteps: planData.steps.length,
       };
 
+      // Reject unknown dependencies and cycles before anyone approves the plan
+      buildPlanGraph(plan.steps);
+
       addLog(context, 'info', `Plan created with ${plan.steps.length} steps`, { plan });
 
       return plan;
@@ -49,22 +167,11 @@ export class Planner {
     }
   }
 
-  private buildSystemPrompt(): string {
+  private buildSystemPrompt(allowQuestion: boolean): string {
     return `You are an expert planning agent for software development tasks.
 Your job is to break down high-level goals into concrete, executable steps.
 
-Available tools:
-1. file - Read, write, or patch files
-   - Actions: read, write, patch
-   - Use this to read existing code, create new files, or modify files
-
-2. command - Execute shell commands
-   - Use this to run npm/yarn commands, build tools, tests, etc.
-   - Example commands: npm install, npm test, npm run build
-
-3. git - Perform Git operations
-   - Actions: status, commit, branch, push, pr
-   - Use this to check status, commit changes, create branches, push code, create PRs
+${TOOL_GUIDE}
 
 Response format:
 Return ONLY a valid JSON object with this structure:
@@ -73,21 +180,42 @@ Return ONLY a valid JSON object with this structure:
   "steps": [
     {
       "description": "What this step does",
-      "tool": "file|command|git",
+      "tool": "file|command|git|search|code_search|process",
       "params": {
         // Tool-specific parameters
       },
-      "dependencies": []
+      "dependencies": [0]
     }
   ]
 }
 
+"dependencies" lists the zero-based indexes of earlier steps that must finish
+successfully before this step can run. Steps without dependencies may run in
+parallel, and a failed step skips only the steps that depend on it.
+
 Important guidelines:
 - Start by reading relevant files to understand the codebase
+- Only use file paths you are sure exist (e.g. listed in the project summary); when unsure where code lives,
+  plan search steps instead of guessing
 - Make incremental changes
 - Test after significant changes
 - Each step should be atomic and focused
-- Do NOT include git commit steps unless explicitly requested by the user`;
+- Declare dependencies precisely: a step that edits a file depends on the step that read it,
+  and tests depend on the edits they verify
+- Do NOT include git commit steps unless explicitly requested by the user${
+      allowQuestion
+        ? `
+
+If the goal can reasonably be read in ways that lead to different code (e.g. "add auth" without saying
+which kind) and neither the goal nor the project settles it, ask the user first. Return instead:
+{
+  "reasoning": "Why the answer changes the plan",
+  "question": "One question, answerable in a sentence",
+  "choices": ["Likely answer", "Another likely answer"]
+}
+Never ask about anything you can find out from the project itself.`
+        : ''
+    }`;
   }
 
   private buildPrompt(goal: string, context: AgentContext): string {
@@ -99,6 +227,22 @@ Create a detailed execution plan to achieve this goal.
 Break it down into clear, executable steps using the available tools.`;
   }
 
+  private buildRepairPrompt(goal: string, failed: VerificationCheckResult[], context: AgentContext): string {
+    return `Goal: ${goal}
+
+Working directory: ${context.workingDirectory}
+
+The changes for this goal have been made, but these checks now fail:
+
+${describeFailedChecks(failed)}
+
+Files changed so far: ${context.filesModified.join(', ')}
+
+Create a plan that makes these checks pass. Read the files the errors point at before changing them.
+Fix the code; do not delete, skip or weaken tests or checks to make them pass.
+The checks run again after the plan, so do not add steps that only re-run them.`;
+  }
+
   private parsePlanResponse(response: string): any {
     try {
       // Remove markdown code blocks if present
@@ -0,0 +1,410 @@
+/**
+ * Repository Context - Compact project summary for the LLM
+ *
+ * Scans the working directory once per run and describes the project (layout,
+ * manifests, languages, frameworks, test commands, exported symbols) so the
+ * planner does not have to guess at paths. Pinned files are included verbatim.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { walkProject, ProjectEntry } from '../shared/utils/glob';
+import { PathSandbox } from '../shared/utils/sandbox';
+
+const MAX_SCANNED_FILES = 5000;
+const TREE_DEPTH = 2;
+const MAX_TREE_LINES = 120;
+const MAX_EXPORT_FILES = 40;
+const MAX_EXPORTS_PER_FILE = 10;
+const MAX_EXPORT_FILE_SIZE = 200 * 1024;
+const MAX_PINNED_FILE_CHARS = 20000;
+const MAX_PINNED_TOTAL_CHARS = 60000;
+
+const MANIFEST_FILES = [
+  'package.json',
+  'tsconfig.json',
+  'pyproject.toml',
+  'requirements.txt',
+  'setup.py',
+  'go.mod',
+  'Cargo.toml',
+  'pom.xml',
+  'build.gradle',
+  'Gemfile',
+  'composer.json',
+];
+
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.rb': 'Ruby',
+  '.php': 'PHP',
+  '.cs': 'C#',
+  '.cpp': 'C++',
+  '.c': 'C',
+  '.swift': 'Swift',
+  '.vue': 'Vue',
+  '.svelte': 'Svelte',
+};
+
+// npm package -> framework or tool name worth telling the model about
+const NODE_FRAMEWORKS: Record<string, string> = {
+  react: 'React',
+  next: 'Next.js',
+  vue: 'Vue',
+  nuxt: 'Nuxt',
+  svelte: 'Svelte',
+  '@angular/core': 'Angular',
+  express: 'Express',
+  koa: 'Koa',
+  fastify: 'Fastify',
+  '@nestjs/core': 'NestJS',
+  mongoose: 'Mongoose',
+  prisma: 'Prisma',
+  typeorm: 'TypeORM',
+  jest: 'Jest',
+  mocha: 'Mocha',
+  vitest: 'Vitest',
+  '@playwright/test': 'Playwright',
+  cypress: 'Cypress',
+  webpack: 'webpack',
+  vite: 'Vite',
+  eslint: 'ESLint',
+  prettier: 'Prettier',
+};
+
+export interface RepoContextOptions {
+  pinnedFiles?: string[]; // Paths relative to the working directory, included in full
+  sandbox?: PathSandbox; // Pinned files must pass it; defaults to the working directory's
+  signal?: AbortSignal;
+}
+
+export interface RepoSummary {
+  tree: string[];
+  manifests: string[];
+  languages: string[];
+  frameworks: string[];
+  testCommands: string[];
+  exports: Record<string, string[]>; // Relative file path -> exported symbol names
+  truncated: boolean; // Scan stopped at MAX_SCANNED_FILES
+}
+
+/**
+ * Build the context sections passed as `CompletionRequest.context`: the
+ * project summary first, then one section per pinned file
+ */
+export async function buildRepoContext(workingDirectory: string, options: RepoContextOptions = {}): Promise<string[]> {
+  const summary = await summarizeRepo(workingDirectory, options.signal);
+  const sandbox = options.sandbox || new PathSandbox(workingDirectory);
+  const pinned = await readPinnedFiles(sandbox, options.pinnedFiles || []);
+  return [formatRepoSummary(summary), ...pinned];
+}
+
+export async function summarizeRepo(workingDirectory: string, signal?: AbortSignal): Promise<RepoSummary> {
+  const entries: ProjectEntry[] = [];
+  let truncated = false;
+
+  for await (const entry of walkProject(workingDirectory, workingDirectory, { signal })) {
+    if (entries.length >= MAX_SCANNED_FILES) {
+      truncated = true;
+      break;
+    }
+    entries.push(entry);
+  }
+
+  const files = entries.filter((e) => !e.isDirectory);
+  const manifests = files
+    .filter((e) => MANIFEST_FILES.includes(path.posix.basename(e.relativePath)) && e.depth <= 2)
+    .map((e) => e.relativePath);
+
+  const frameworks = new Set<string>();
+  const testCommands = new Set<string>();
+  for (const manifest of manifests) {
+    await inspectManifest(workingDirectory, manifest, frameworks, testCommands);
+  }
+
+  return {
+    tree: buildTree(entries),
+    manifests,
+    languages: detectLanguages(files),
+    frameworks: [...frameworks],
+    testCommands: [...testCommands],
+    exports: await collectExports(files),
+    truncated,
+  };
+}
+
+export function formatRepoSummary(summary: RepoSummary): string {
+  const sections: string[] = ['# Project summary'];
+
+  if (summary.languages.length > 0) {
+    sections.push(`Languages: ${summary.languages.join(', ')}`);
+  }
+  if (summary.frameworks.length > 0) {
+    sections.push(`Frameworks and tools: ${summary.frameworks.join(', ')}`);
+  }
+  if (summary.manifests.length > 0) {
+    sections.push(`Manifests: ${summary.manifests.join(', ')}`);
+  }
+  if (summary.testCommands.length > 0) {
+    sections.push(`Test commands: ${summary.testCommands.join('; ')}`);
+  }
+
+  sections.push(
+    `\n## File tree (depth ${TREE_DEPTH}, .gitignore applied${summary.truncated ? ', scan truncated' : ''})\n${summary.tree.join('\n')}`
+  );
+
+  const exportLines = Object.entries(summary.exports).map(([file, names]) => `${file}: ${names.join(', ')}`);
+  if (exportLines.length > 0) {
+    sections.push(`\n## Exported symbols\n${exportLines.join('\n')}`);
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Directories to TREE_DEPTH with file counts for anything collapsed below them
+ */
+function buildTree(entries: ProjectEntry[]): string[] {
+  const hiddenCounts = new Map<string, number>();
+  for (const entry of entries) {
+    if (!entry.isDirectory && entry.depth >= TREE_DEPTH) {
+      const ancestor = entry.relativePath.split('/').slice(0, TREE_DEPTH).join('/');
+      hiddenCounts.set(ancestor, (hiddenCounts.get(ancestor) || 0) + 1);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const entry of entries) {
+    if (entry.depth >= TREE_DEPTH) {
+      continue;
+    }
+    if (lines.length >= MAX_TREE_LINES) {
+      lines.push('…');
+      break;
+    }
+
+    const name = path.posix.basename(entry.relativePath);
+    const hidden = hiddenCounts.get(entry.relativePath);
+    const suffix = entry.isDirectory ? `/${hidden ? ` (${hidden} files)` : ''}` : '';
+    lines.push(`${'  '.repeat(entry.depth)}${name}${suffix}`);
+  }
+  return lines;
+}
+
+function detectLanguages(files: ProjectEntry[]): string[] {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const language = LANGUAGES_BY_EXTENSION[path.posix.extname(file.relativePath)];
+    if (language) {
+      counts.set(language, (counts.get(language) || 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([language, count]) => `${language} (${count} files)`);
+}
+
+async function inspectManifest(
+  workingDirectory: string,
+  manifest: string,
+  frameworks: Set<string>,
+  testCommands: Set<string>
+): Promise<void> {
+  const name = path.posix.basename(manifest);
+  const dir = path.posix.dirname(manifest);
+  const inDir = (command: string) => (dir === '.' ? command : `cd ${dir} && ${command}`);
+  // Checked on disk: lockfiles are often gitignored and so missing from the scan
+  const has = (file: string) => fs.existsSync(path.join(workingDirectory, dir, file));
+
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path.join(workingDirectory, manifest), 'utf-8');
+  } catch {
+    return;
+  }
+
+  switch (name) {
+    case 'package.json': {
+      let pkg: any;
+      try {
+        pkg = JSON.parse(content);
+      } catch {
+        return;
+      }
+
+      const dependencies = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies };
+      for (const [dependency, framework] of Object.entries(NODE_FRAMEWORKS)) {
+        if (dependencies[dependency]) {
+          frameworks.add(framework);
+        }
+      }
+
+      const runner = packageRunner(path.join(workingDirectory, dir));
+      const scripts: Record<string, string> = pkg.scripts || {};
+      if (scripts.test && !/no test specified/.test(scripts.test)) {
+        testCommands.add(inDir(`${runner} test`));
+      }
+      for (const script of Object.keys(scripts)) {
+        if (script !== 'test' && /^(test|lint|typecheck|type-check)(:|$)/.test(script) && !/watch/.test(script)) {
+          testCommands.add(inDir(`${runner} run ${script}`));
+        }
+      }
+      break;
+    }
+
+    case 'pyproject.toml':
+    case 'requirements.txt':
+    case 'setup.py':
+      for (const [pattern, framework] of [
+        [/django/i, 'Django'],
+        [/flask/i, 'Flask'],
+        [/fastapi/i, 'FastAPI'],
+        [/pytest/i, 'pytest'],
+      ] as const) {
+        if (pattern.test(content)) {
+          frameworks.add(framework);
+        }
+      }
+      if (/pytest/i.test(content) || has('pytest.ini')) {
+        testCommands.add(inDir('pytest'));
+      }
+      break;
+
+    case 'go.mod':
+      testCommands.add(inDir('go test ./...'));
+      break;
+
+    case 'Cargo.toml':
+      testCommands.add(inDir('cargo test'));
+      break;
+
+    case 'pom.xml':
+      testCommands.add(inDir('mvn test'));
+      break;
+
+    case 'build.gradle':
+      testCommands.add(inDir('./gradlew test'));
+      break;
+  }
+}
+
+/**
+ * Top-level exported names of TypeScript files, shallowest files first
+ */
+async function collectExports(files: ProjectEntry[]): Promise<Record<string, string[]>> {
+  const candidates = files
+    .filter((f) => /\.tsx?$/.test(f.relativePath) && !/\.(d|test|spec)\.tsx?$/.test(f.relativePath))
+    .sort((a, b) => a.depth - b.depth || a.relativePath.localeCompare(b.relativePath))
+    .slice(0, MAX_EXPORT_FILES);
+
+  const exports: Record<string, string[]> = {};
+  for (const file of candidates) {
+    const names = await readExportedNames(file.absolutePath);
+    if (names.length > 0) {
+      exports[file.relativePath] =
+        names.length > MAX_EXPORTS_PER_FILE
+          ? [...names.slice(0, MAX_EXPORTS_PER_FILE), `… ${names.length - MAX_EXPORTS_PER_FILE} more`]
+          : names;
+    }
+  }
+  return exports;
+}
+
+async function readExportedNames(filePath: string): Promise<string[]> {
+  let source: string;
+  try {
+    const stat = await fs.promises.stat(filePath);
+    if (stat.size > MAX_EXPORT_FILE_SIZE) {
+      return [];
+    }
+    source = await fs.promises.readFile(filePath, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const names = new Set<string>();
+
+  // export [default] [abstract|async|declare] class|function|interface|type|enum|const|let|var Name
+  const declaration =
+    /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+|async\s+)?(?:class|function\*?|interface|type|enum|const|let|var|namespace)\s+([A-Za-z_$][\w$]*)/gm;
+  for (const match of source.matchAll(declaration)) {
+    names.add(match[1]);
+  }
+
+  // export { A, B as C } [from '...']
+  for (const match of source.matchAll(/^export\s+(?:type\s+)?\{([^}]*)\}/gm)) {
+    for (const part of match[1].split(',')) {
+      const name = part.trim().split(/\s+as\s+/).pop()?.trim();
+      if (name) {
+        names.add(name);
+      }
+    }
+  }
+
+  // export * from './module'
+  for (const match of source.matchAll(/^export\s+\*\s+from\s+['"]([^'"]+)['"]/gm)) {
+    names.add(`* from ${match[1]}`);
+  }
+
+  return [...names];
+}
+
+/**
+ * Pinned files as context sections, within per-file and total size budgets
+ */
+async function readPinnedFiles(sandbox: PathSandbox, pinnedFiles: string[]): Promise<string[]> {
+  const sections: string[] = [];
+  let remaining = MAX_PINNED_TOTAL_CHARS;
+
+  for (const file of pinnedFiles) {
+    let absolutePath: string;
+    try {
+      absolutePath = sandbox.resolve(file);
+    } catch (error: any) {
+      sections.push(`# Pinned file ${file}\n(skipped: ${error.message})`);
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(absolutePath, 'utf-8');
+    } catch (error: any) {
+      sections.push(`# Pinned file ${file}\n(could not be read: ${error.message})`);
+      continue;
+    }
+
+    const budget = Math.min(MAX_PINNED_FILE_CHARS, remaining);
+    if (budget <= 0) {
+      sections.push(`# Pinned file ${file}\n(omitted: pinned files exceed the context budget)`);
+      continue;
+    }
+
+    const truncated = content.length > budget;
+    remaining -= Math.min(content.length, budget);
+    sections.push(
+      `# Pinned file ${file}${truncated ? ` (first ${budget} characters)` : ''}\n${content.substring(0, budget)}`
+    );
+  }
+
+  return sections;
+}
+
+/**
+ * The package manager a Node project uses, going by its lockfile. Checked on
+ * disk rather than in the scan, which skips gitignored lockfiles.
+ */
+export function packageRunner(directory: string): 'pnpm' | 'yarn' | 'npm' {
+  const has = (file: string) => fs.existsSync(path.join(directory, file));
+  return has('pnpm-lock.yaml') ? 'pnpm' : has('yarn.lock') ? 'yarn' : 'npm';
+}
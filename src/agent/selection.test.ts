@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyDiffSelection, findChangedSincePreview } from './selection';
+import { VirtualFileSystem } from './tools/file-system';
+import { createFileDiff } from '../shared/utils/diff';
+import { PlanStep, TaskPlan } from '../shared/types/task';
+
+function step(stepId: string, params: Record<string, any>, dependencies: string[] = []): PlanStep {
+  const tool = params.command ? 'command' : 'file';
+  return { stepId, description: stepId, tool, params, dependencies, status: 'pending' };
+}
+
+function plan(steps: PlanStep[]): TaskPlan {
+  return { steps, reasoning: '', estimatedSteps: steps.length };
+}
+
+const ORIGINAL = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+const MODIFIED = ORIGINAL.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+
+describe('applyDiffSelection', () => {
+  let dir: string;
+
+  // Edit a.txt in two steps, create b.txt, then run the tests
+  const steps = [
+    step('edit-1', { action: 'patch', path: 'a.txt', search: 'line 2\n', replace: 'line two\n' }),
+    step('edit-2', { action: 'patch', path: 'a.txt', search: 'line 18\n', replace: 'line eighteen\n' }, ['edit-1']),
+    step('create', { action: 'write', path: 'b.txt', content: 'new\n' }),
+    step('test', { command: 'npm test' }, ['edit-2', 'create']),
+  ];
+  const diffs = [createFileDiff('a.txt', ORIGINAL, MODIFIED), createFileDiff('b.txt', null, 'new\n')];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'selection-test-'));
+    fs.writeFileSync(path.join(dir, 'a.txt'), ORIGINAL);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the plan when everything is accepted', async () => {
+    const selected = await applyDiffSelection(plan(steps), diffs, { files: { 'a.txt': { accepted: true } } }, dir);
+    expect(selected.steps).toEqual(steps);
+  });
+
+  it('collapses a partially accepted file into one write of the selected hunks', async () => {
+    const selection = { files: { 'a.txt': { accepted: true, hunks: [{ accepted: true }, { accepted: false }] } } };
+    const selected = await applyDiffSelection(plan(steps), diffs, selection, dir);
+
+    expect(selected.steps.map((s) => s.stepId)).toEqual(['edit-1', 'create', 'test']);
+    expect(selected.steps[0].params).toEqual({
+      action: 'write',
+      path: 'a.txt',
+      content: ORIGINAL.replace('line 2\n', 'line two\n'),
+    });
+    expect(selected.steps[2].dependencies).toEqual(['edit-1', 'create']);
+    expect(selected.estimatedSteps).toBe(3);
+  });
+
+  it('uses edited hunk lines and edited content', async () => {
+    const lines = diffs[0].hunks[0].lines.map((line) => line.replace('+line two', '+line 2 (edited)'));
+    const hunks = { files: { 'a.txt': { accepted: true, hunks: [{ accepted: true, lines }, { accepted: false }] } } };
+    const selected = await applyDiffSelection(plan(steps), diffs, hunks, dir);
+    expect(selected.steps[0].params.content).toBe(ORIGINAL.replace('line 2\n', 'line 2 (edited)\n'));
+
+    const content = { files: { 'b.txt': { accepted: true, content: 'edited\n' } } };
+    const withContent = await applyDiffSelection(plan(steps), diffs, content, dir);
+    expect(withContent.steps.find((s) => s.stepId === 'create')!.params.content).toBe('edited\n');
+  });
+
+  it('drops the steps of a rejected file and repoints their dependents', async () => {
+    const selection = { files: { 'a.txt': { accepted: false }, 'b.txt': { accepted: true } } };
+    const selected = await applyDiffSelection(plan(steps), diffs, selection, dir);
+
+    expect(selected.steps.map((s) => s.stepId)).toEqual(['create', 'test']);
+    expect(selected.steps[1].dependencies).toEqual(['create']);
+  });
+
+  it('rejects selections of files that are not in the preview', async () => {
+    await expect(
+      applyDiffSelection(plan(steps), diffs, { files: { 'c.txt': { accepted: false } } }, dir)
+    ).rejects.toThrow('Selection refers to a file that is not part of the preview: c.txt');
+  });
+
+  it('rejects hunks that no longer match the file', async () => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), ORIGINAL.replace('line 1\n', 'changed\n'));
+    const selection = { files: { 'a.txt': { accepted: true, hunks: [{ accepted: true }, { accepted: false }] } } };
+    await expect(applyDiffSelection(plan(steps), diffs, selection, dir)).rejects.toThrow('a.txt changed since preview');
+  });
+
+  it('keeps or drops a move as a whole', async () => {
+    const moveSteps = [
+      step('move', { action: 'move', path: 'a.txt', destination: 'c.txt' }),
+      step('test', { command: 'npm test' }, ['move']),
+    ];
+    const moveDiffs = [createFileDiff('a.txt', ORIGINAL, null), createFileDiff('c.txt', null, ORIGINAL)];
+
+    const rejected = { files: { 'a.txt': { accepted: false }, 'c.txt': { accepted: false } } };
+    const selected = await applyDiffSelection(plan(moveSteps), moveDiffs, rejected, dir);
+    expect(selected.steps).toEqual([{ ...moveSteps[1], dependencies: [] }]);
+
+    const partial = { files: { 'a.txt': { accepted: false } } };
+    await expect(applyDiffSelection(plan(moveSteps), moveDiffs, partial, dir)).rejects.toThrow(
+      '"move" changes a.txt, c.txt; accept or reject all of them together'
+    );
+  });
+});
+
+describe('findChangedSincePreview', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'selection-test-'));
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'one\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function preview() {
+    const fileSystem = new VirtualFileSystem();
+    await fileSystem.writeFile(path.join(dir, 'a.txt'), 'two\n');
+    await fileSystem.writeFile(path.join(dir, 'b.txt'), 'new\n');
+    return fileSystem.getDiffs(dir);
+  }
+
+  it('finds nothing while the files are as previewed', async () => {
+    expect(await findChangedSincePreview(await preview(), dir)).toEqual([]);
+  });
+
+  it('reports files edited or created since the preview', async () => {
+    const diffs = await preview();
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'edited\n');
+    fs.writeFileSync(path.join(dir, 'b.txt'), 'created\n');
+    expect(await findChangedSincePreview(diffs, dir)).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('reports files deleted since the preview', async () => {
+    const diffs = await preview();
+    fs.unlinkSync(path.join(dir, 'a.txt'));
+    expect(await findChangedSincePreview(diffs, dir)).toEqual(['a.txt']);
+  });
+
+  it('skips diffs stored without a hash', async () => {
+    const diffs = (await preview()).map(({ originalHash, ...diff }) => diff);
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'edited\n');
+    expect(await findChangedSincePreview(diffs, dir)).toEqual([]);
+  });
+});
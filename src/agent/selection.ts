@@ -0,0 +1,232 @@
+/**
+ * Diff Selection - Narrow an approved plan down to the hunks the user accepted
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TaskPlan, PlanStep, FileDiff, DiffSelection, FileSelection } from '../shared/types/task';
+import { applyHunks } from '../shared/utils/diff';
+import { hashFileContent } from '../shared/utils/plan-hash';
+import { FileSystemBackend, DiskFileSystem } from './tools/file-system';
+import { AgentError } from '../shared/errors';
+
+// File actions whose combined effect is what the previewed diff shows
+export const FILE_EDIT_ACTIONS = ['write', 'patch', 'multi_patch', 'delete'];
+
+// File actions that change several files at once and cannot be split up
+const TRANSFER_ACTIONS = ['move', 'copy'];
+
+/**
+ * Rewrite a plan so its file edits produce exactly the selected changes.
+ *
+ * For every partially accepted or edited file, the file's edit steps collapse
+ * into a single write of the selected content at the position of the first
+ * edit. Rejected files lose their edit steps. Steps that depended on a removed
+ * step now depend on its replacement (or on its own dependencies).
+ */
+export async function applyDiffSelection(
+  plan: TaskPlan,
+  diffs: FileDiff[],
+  selection: DiffSelection,
+  baseDir: string,
+  fileSystem: FileSystemBackend = new DiskFileSystem()
+): Promise<TaskPlan> {
+  let steps: PlanStep[] = plan.steps.map((step) => ({ ...step, dependencies: [...(step.dependencies || [])] }));
+
+  // Moves, copies and directory deletes are kept or dropped as a whole
+  const handled = new Set<string>();
+  for (const step of steps.filter((s) => isWholeOperation(s, baseDir))) {
+    const covered = diffs.filter((diff) => coversPath(step, path.resolve(baseDir, diff.path), baseDir));
+    const choices = covered.map((diff) => selection.files?.[diff.path]);
+    if (choices.every((choice) => !choice || isFullyAccepted(choice))) {
+      continue;
+    }
+    if (!choices.every((choice) => choice && !choice.accepted)) {
+      throw new AgentError(
+        `"${step.description}" changes ${covered.map((d) => d.path).join(', ')}; accept or reject all of them together`
+      );
+    }
+    covered.forEach((diff) => handled.add(diff.path));
+    steps = replaceSteps(steps, new Map([[step.stepId, step.dependencies]]));
+  }
+
+  for (const [filePath, fileSelection] of Object.entries(selection.files || {})) {
+    const diff = diffs.find((d) => d.path === filePath);
+    if (!diff) {
+      throw new AgentError(`Selection refers to a file that is not part of the preview: ${filePath}`);
+    }
+
+    if (isFullyAccepted(fileSelection)) {
+      continue;
+    }
+
+    const absolutePath = path.resolve(baseDir, filePath);
+    const editSteps = steps.filter((step) => isEditOf(step, absolutePath, baseDir));
+    if (editSteps.length === 0) {
+      if (handled.has(filePath)) continue;
+      throw new AgentError(`No plan step edits ${filePath}`);
+    }
+
+    const finalContent = await resolveContent(diff, fileSelection, absolutePath, fileSystem);
+    const [first, ...rest] = editSteps;
+    const replacements = new Map<string, string[]>();
+
+    if (finalContent === null) {
+      editSteps.forEach((step) => replacements.set(step.stepId, step.dependencies));
+    } else {
+      rest.forEach((step) => replacements.set(step.stepId, [first.stepId]));
+      const index = steps.indexOf(first);
+      steps[index] = {
+        ...first,
+        description: `Write selected changes to ${filePath}`,
+        params: { action: 'write', path: filePath, content: finalContent },
+      };
+    }
+
+    steps = replaceSteps(steps, replacements);
+  }
+
+  return { ...plan, steps, estimatedSteps: steps.length };
+}
+
+/**
+ * Previewed files whose contents on disk are no longer what their diff was
+ * computed against; applying the plan to them would not produce that diff
+ */
+export async function findChangedSincePreview(
+  diffs: FileDiff[],
+  baseDir: string,
+  fileSystem: FileSystemBackend = new DiskFileSystem()
+): Promise<string[]> {
+  const changed: string[] = [];
+  for (const diff of diffs) {
+    if (diff.originalHash === undefined) continue;
+    const absolutePath = path.resolve(baseDir, diff.path);
+    const current = (await fileSystem.exists(absolutePath)) ? await fileSystem.readFile(absolutePath) : null;
+    if (hashFileContent(current) !== diff.originalHash) {
+      changed.push(diff.path);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Drop steps, pointing anything that depended on them at their replacements
+ */
+function replaceSteps(steps: PlanStep[], replacements: Map<string, string[]>): PlanStep[] {
+  // Removed steps may depend on other removed steps, so resolve transitively
+  const resolve = (dependency: string, seen: Set<string>): string[] => {
+    if (!replacements.has(dependency) || seen.has(dependency)) return [dependency];
+    seen.add(dependency);
+    return replacements.get(dependency)!.flatMap((d) => resolve(d, seen));
+  };
+
+  return steps
+    .filter((step) => !replacements.has(step.stepId))
+    .map((step) => ({
+      ...step,
+      dependencies: unique(step.dependencies.flatMap((d) => resolve(d, new Set()))).filter(
+        (d) => d !== step.stepId
+      ),
+    }));
+}
+
+function isFullyAccepted(selection: FileSelection): boolean {
+  return (
+    selection.accepted &&
+    selection.content === undefined &&
+    (!selection.hunks || selection.hunks.every((h) => h.accepted && !h.lines))
+  );
+}
+
+function isEditOf(step: PlanStep, absolutePath: string, baseDir: string): boolean {
+  return (
+    step.tool === 'file' &&
+    FILE_EDIT_ACTIONS.includes(step.params?.action) &&
+    typeof step.params?.path === 'string' &&
+    path.resolve(baseDir, step.params.path) === absolutePath
+  );
+}
+
+function isWholeOperation(step: PlanStep, baseDir: string): boolean {
+  if (step.tool !== 'file' || typeof step.params?.path !== 'string') {
+    return false;
+  }
+  return (
+    TRANSFER_ACTIONS.includes(step.params.action) ||
+    (step.params.action === 'delete' && isDirectory(path.resolve(baseDir, step.params.path)))
+  );
+}
+
+/**
+ * Whether a step changes a file, directly or as part of a directory it acts on
+ */
+function coversPath(step: PlanStep, absolutePath: string, baseDir: string): boolean {
+  return operationRoots(step, baseDir).some(
+    (root) => absolutePath === root || absolutePath.startsWith(root + path.sep)
+  );
+}
+
+function operationRoots(step: PlanStep, baseDir: string): string[] {
+  const source = path.resolve(baseDir, step.params.path);
+  if (step.params.action === 'delete') {
+    return [source];
+  }
+
+  // A file moved or copied into a directory lands inside it
+  const destination = path.resolve(baseDir, String(step.params.destination ?? ''));
+  const target =
+    isDirectory(destination) && !isDirectory(source) ? path.join(destination, path.basename(source)) : destination;
+  return step.params.action === 'move' ? [source, target] : [target];
+}
+
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Final content of a file under the selection, or null to leave it untouched
+ */
+async function resolveContent(
+  diff: FileDiff,
+  selection: FileSelection,
+  absolutePath: string,
+  fileSystem: FileSystemBackend
+): Promise<string | null> {
+  if (!selection.accepted) {
+    return null;
+  }
+
+  if (selection.content !== undefined) {
+    return selection.content;
+  }
+
+  const hunkSelections = selection.hunks || [];
+  const hunks = diff.hunks
+    .map((hunk, i) => {
+      const choice = hunkSelections[i];
+      if (choice && !choice.accepted) return null;
+      return choice?.lines ? { ...hunk, lines: choice.lines } : hunk;
+    })
+    .filter((hunk): hunk is NonNullable<typeof hunk> => hunk !== null);
+
+  if (hunks.length === 0) {
+    return null;
+  }
+
+  const current = (await fileSystem.exists(absolutePath)) ? await fileSystem.readFile(absolutePath) : '';
+
+  try {
+    return applyHunks(current, hunks);
+  } catch (error: any) {
+    throw new AgentError(`${diff.path} changed since preview: ${error.message}`);
+  }
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,175 @@
+/**
+ * Tool Loop - Multi-turn native tool-use conversation
+ *
+ * Instead of asking for a whole plan up front, the model calls tools one turn
+ * at a time, sees each result, and decides what to do next until it stops.
+ */
+
+import { BaseLLMClient } from '../llm/base-client';
+import { Message, ToolCall } from '../llm/types';
+import { PlanStep, TaskPlan } from '../shared/types/task';
+import { AgentContext, addLog, setStepStatus, throwIfCancelled } from './context';
+import { requestCompletion } from './completion';
+import { Executor } from './executor';
+import { ToolExecutionResult } from './tools/base-tool';
+import { generateStepId } from '../shared/utils/id-generator';
+import { AgentError } from '../shared/errors';
+
+export interface ToolLoopOptions {
+  maxTurns: number;
+  previewMode?: boolean; // If true, only read-only tool calls are executed
+}
+
+export interface ToolLoopResult {
+  summary: string;
+  turns: number;
+  completedSteps: string[];
+  failedSteps: string[];
+  plan?: TaskPlan; // Mutating calls recorded in preview mode, for approval
+}
+
+export class ToolLoop {
+  constructor(
+    private llm: BaseLLMClient,
+    private executor: Executor
+  ) {}
+
+  async run(goal: string, context: AgentContext, options: ToolLoopOptions): Promise<ToolLoopResult> {
+    const tools = this.executor.getAvailableTools().map((t) => t.toDefinition());
+    const messages: Message[] = [{ role: 'user', content: this.buildPrompt(goal, context) }];
+    const completedSteps: string[] = [];
+    const failedSteps: string[] = [];
+    const deferredSteps: PlanStep[] = [];
+    let stepIndex = 0;
+
+    for (let turn = 1; turn <= options.maxTurns; turn++) {
+      throwIfCancelled(context);
+      addLog(context, 'debug', `Tool loop turn ${turn}/${options.maxTurns}`);
+
+      const response = await requestCompletion(this.llm, context, {
+        systemPrompt: this.buildSystemPrompt(options.previewMode),
+        messages,
+        tools,
+        context: context.projectContext,
+        maxTokens: 4096,
+        temperature: 0.3,
+      });
+
+      if (response.text) {
+        addLog(context, 'info', response.text);
+        messages.push({ role: 'assistant', content: response.text });
+      }
+
+      // No tool calls means the model considers the goal done
+      if (!response.toolCalls || response.toolCalls.length === 0) {
+        addLog(context, 'info', `Tool loop finished after ${turn} turn(s)`);
+        return {
+          summary: response.text,
+          turns: turn,
+          completedSteps,
+          failedSteps,
+          plan: this.buildDeferredPlan(deferredSteps, response.text),
+        };
+      }
+
+      messages.push(...response.toolCalls.map((toolCall): Message => ({ role: 'tool_use', toolCall })));
+
+      for (const toolCall of response.toolCalls) {
+        const step = this.toStep(toolCall, stepIndex++);
+        let result: ToolExecutionResult;
+
+        if (options.previewMode && !this.executor.isReadOnlyStep(step)) {
+          // Deferred calls were decided in sequence, so each one depends on the previous
+          const previous = deferredSteps[deferredSteps.length - 1];
+          step.dependencies = previous ? [previous.stepId] : [];
+          deferredSteps.push(step);
+          addLog(context, 'info', `Deferred for approval: ${step.description}`, { step });
+
+          // Simulate what we can (e.g. file edits in memory) so the model sees real results
+          if (this.executor.canPreviewStep(step)) {
+            result = await this.executor.executeStep({ ...step }, context);
+            if (!result.success) {
+              // A call that already fails in preview would fail on apply too
+              deferredSteps.pop();
+            }
+          } else {
+            result = {
+              success: true,
+              output: 'Recorded for user approval (preview mode); not executed yet. Assume it will succeed.',
+            };
+          }
+        } else {
+          setStepStatus(context, step, 'in-progress');
+          result = await this.executor.executeStep(step, context);
+          setStepStatus(context, step, result.success ? 'completed' : 'failed');
+          (result.success ? completedSteps : failedSteps).push(step.stepId);
+        }
+
+        messages.push({
+          role: 'tool_result',
+          result: {
+            toolCallId: toolCall.id,
+            output: result.output,
+            error: result.success ? undefined : result.error || 'Tool call failed',
+          },
+        });
+      }
+    }
+
+    throw new AgentError(`Maximum iterations (${options.maxTurns}) exceeded`);
+  }
+
+  private toStep(toolCall: ToolCall, index: number): PlanStep {
+    const action = toolCall.arguments?.action || toolCall.arguments?.operation;
+    return {
+      stepId: generateStepId(index),
+      description: `${toolCall.name}${action ? ` ${action}` : ''}${
+        toolCall.arguments?.path ? ` ${toolCall.arguments.path}` : ''
+      }${toolCall.arguments?.command ? `: ${toolCall.arguments.command}` : ''}`,
+      tool: toolCall.name,
+      params: toolCall.arguments || {},
+      dependencies: [],
+      status: 'pending',
+    };
+  }
+
+  private buildDeferredPlan(steps: PlanStep[], reasoning: string): TaskPlan | undefined {
+    if (steps.length === 0) {
+      return undefined;
+    }
+
+    return {
+      steps,
+      reasoning,
+      estimatedSteps: steps.length,
+    };
+  }
+
+  private buildSystemPrompt(previewMode?: boolean): string {
+    return `You are an expert software engineering agent working inside a code repository.
+Use the provided tools to achieve the user's goal. Work one step at a time:
+call a tool, look at its result, then decide what to do next.
+
+Guidelines:
+- Use the search tool to find files and code; never guess at file paths
+- Read the relevant files before changing them; never guess at file contents
+- Prefer small, targeted patches over rewriting whole files
+- Move, copy and delete files with the file tool rather than shell commands
+- Run tests or builds after significant changes when a command tool is available
+- Start dev servers and watchers with the process tool and wait_for them, rather than running them as a command
+- If the goal can be read in ways that lead to different code and the project does not settle it, ask the user
+  with ask_user before changing anything; never ask what you can find out yourself
+- Do NOT commit or push unless explicitly requested by the user
+- When the goal is achieved, stop calling tools and reply with a short summary of what you did${
+      previewMode
+        ? '\n- Preview mode is on: file edits go to an in-memory copy of the project; edits, commands and git operations are recorded for user approval rather than run for real'
+        : ''
+    }`;
+  }
+
+  private buildPrompt(goal: string, context: AgentContext): string {
+    return `Goal: ${goal}
+
+Working directory: ${context.workingDirectory}`;
+  }
+}
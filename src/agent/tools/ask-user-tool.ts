@@ -0,0 +1,97 @@
+/**
+ * Ask User Tool - Ask the user a clarifying question mid-task
+ */
+
+import { BaseTool, ToolExecutionResult } from './base-tool';
+import { ToolExecutionError } from '../../shared/errors';
+import { QuestionHandler } from '../../shared/types/task';
+
+const MAX_QUESTIONS = 3; // Per task; past that the agent decides on its own
+const MAX_CHOICES = 10;
+
+export class AskUserTool extends BaseTool {
+  name = 'ask_user';
+  description =
+    'Ask the user a question and wait for the answer. Use it only when the goal is ambiguous in a way ' +
+    'that changes the result (e.g. which auth method to add) or when something only the user knows is ' +
+    `missing; otherwise decide yourself. At most ${MAX_QUESTIONS} questions per task.`;
+  parameters = {
+    type: 'object' as const,
+    properties: {
+      question: {
+        type: 'string',
+        description: 'The question, answerable in a sentence',
+      },
+      choices: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Suggested answers, if there are obvious options (optional)',
+      },
+      context: {
+        type: 'string',
+        description: 'Why you are asking, in one sentence (optional)',
+      },
+    },
+    required: ['question'],
+  };
+
+  private askUser?: QuestionHandler;
+  private asked = 0;
+  private queue: Promise<unknown> = Promise.resolve(); // Parallel steps ask one at a time
+
+  constructor(askUser?: QuestionHandler) {
+    super();
+    this.askUser = askUser;
+  }
+
+  // Asking changes nothing, so it also runs in preview mode, before any plan is approved
+  isReadOnly(_params: Record<string, any>): boolean {
+    return true;
+  }
+
+  async execute(params: Record<string, any>, signal?: AbortSignal): Promise<ToolExecutionResult> {
+    const { question, context } = params;
+
+    try {
+      if (!this.askUser) {
+        throw new ToolExecutionError(
+          'No user is available to answer; decide yourself and mention the assumption in your summary',
+          this.name
+        );
+      }
+      if (!question || typeof question !== 'string') {
+        throw new ToolExecutionError('question is required', this.name);
+      }
+      if (this.asked >= MAX_QUESTIONS) {
+        throw new ToolExecutionError(
+          `Already asked ${MAX_QUESTIONS} questions; decide yourself and mention the assumption in your summary`,
+          this.name
+        );
+      }
+      this.asked++;
+
+      const choices = Array.isArray(params.choices)
+        ? params.choices.filter((choice: any) => typeof choice === 'string').slice(0, MAX_CHOICES)
+        : undefined;
+      const askUser = this.askUser;
+
+      const answer = this.queue.then(() =>
+        askUser({ question, choices: choices?.length ? choices : undefined, context }, signal)
+      );
+      this.queue = answer.catch(() => undefined);
+
+      const reply = await answer;
+      return {
+        success: true,
+        output: `The user answered: ${reply}`,
+        metadata: { question, answer: reply },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        output: '',
+        error: error.message,
+      };
+    }
+  }
+}
@@ -17,12 +17,45 @@ export interface ToolExecutionResult {
   metadata?: Record<string, any>;
 }
 
+export type ToolOutputListener = (stream: 'stdout' | 'stderr', text: string) => void;
+
 export abstract class BaseTool {
   abstract name: string;
   abstract description: string;
   abstract parameters: ToolParameterSchema;
 
-  abstract execute(params: Record<string, any>): Promise<ToolExecutionResult>;
+  /**
+   * Run the tool. Long-running tools should stop promptly once `signal` is
+   * aborted, and may report output through `onOutput` as it is produced.
+   */
+  abstract execute(
+    params: Record<string, any>,
+    signal?: AbortSignal,
+    onOutput?: ToolOutputListener
+  ): Promise<ToolExecutionResult>;
+
+  /**
+   * Whether a call has no side effects and is safe to run in preview mode
+   */
+  isReadOnly(_params: Record<string, any>): boolean {
+    return false;
+  }
+
+  /**
+   * Whether a call with side effects can run in preview mode without touching
+   * the real project (e.g. against an in-memory file system)
+   */
+  canPreview(_params: Record<string, any>): boolean {
+    return false;
+  }
+
+  /**
+   * Absolute paths of the files a call may change, so they can be snapshotted
+   * before it runs and restored on rollback
+   */
+  getAffectedPaths(_params: Record<string, any>): string[] {
+    return [];
+  }
 
   toDefinition(): ToolDefinition {
     return {
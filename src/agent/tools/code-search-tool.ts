@@ -0,0 +1,84 @@
+/**
+ * Code Search Tool - Semantic search over the project's code
+ */
+
+import { BaseTool, ToolExecutionResult } from './base-tool';
+import { getCodeIndex } from '../code-index';
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 30;
+const SNIPPET_PREVIEW_LINES = 12;
+
+export class CodeSearchTool extends BaseTool {
+  name = 'code_search';
+  description =
+    'Find code by meaning rather than exact text (e.g. "where are tasks persisted"). Returns the best-matching functions and classes with file paths and line ranges.';
+  parameters = {
+    type: 'object' as const,
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Natural-language description or identifiers of the code to find',
+      },
+      include: {
+        type: 'string',
+        description: 'Only search files matching this glob (e.g. "src/server/**")',
+      },
+      limit: {
+        type: 'number',
+        description: `Maximum number of results (default: ${DEFAULT_LIMIT})`,
+      },
+    },
+    required: ['query'],
+  };
+
+  private baseDir: string;
+
+  constructor(baseDir?: string) {
+    super();
+    this.baseDir = baseDir || process.cwd();
+  }
+
+  async execute(params: Record<string, any>, signal?: AbortSignal): Promise<ToolExecutionResult> {
+    const { query, include } = params;
+    const limit = Math.min(Math.max(Number(params.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    try {
+      if (!query) {
+        throw new Error('Query is required');
+      }
+
+      const results = await getCodeIndex(this.baseDir).search(query, { limit, include, signal });
+
+      if (results.length === 0) {
+        return { success: true, output: 'No indexed code found', metadata: { count: 0 } };
+      }
+
+      const output = results
+        .map((result) => {
+          const lines = result.snippet.split('\n');
+          const preview = lines.slice(0, SNIPPET_PREVIEW_LINES).join('\n');
+          const more = lines.length > SNIPPET_PREVIEW_LINES ? `\n… ${lines.length - SNIPPET_PREVIEW_LINES} more line(s)` : '';
+          const symbol = result.symbol ? ` ${result.symbol}` : '';
+          return `${result.path}:${result.startLine}-${result.endLine}${symbol} (score ${result.score})\n${preview}${more}`;
+        })
+        .join('\n\n');
+
+      return {
+        success: true,
+        output,
+        metadata: { count: results.length },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        output: '',
+        error: error.message,
+      };
+    }
+  }
+
+  isReadOnly(_params: Record<string, any>): boolean {
+    return true;
+  }
+}
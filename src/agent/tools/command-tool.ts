@@ -2,12 +2,23 @@
  * Command Tool - Execute Shell Commands
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { BaseTool, ToolExecutionResult } from './base-tool';
-import { ToolExecutionError } from '../../shared/errors';
+import * as path from 'path';
+import { BaseTool, ToolExecutionResult, ToolOutputListener } from './base-tool';
+import { PathSandbox } from '../../shared/utils/sandbox';
+import { ApprovalHandler, Diagnostic } from '../../shared/types/task';
+import { CommandPolicy } from '../command-policy';
+import {
+  ExecutionBackend,
+  ExecutionResult,
+  LocalExecutionBackend,
+  newLogFile,
+  pruneLogs,
+  readLogTail,
+} from '../execution';
+import { formatDiagnostics, parseDiagnostics } from '../diagnostics';
 
-const execAsync = promisify(exec);
+const MAX_PARSED_LOG_BYTES = 4 * 1024 * 1024; // Failures are reported near the end of long logs
+const OUTPUT_TAIL_LINES = 15; // Kept under the diagnostics for context
 
 export class CommandTool extends BaseTool {
   name = 'command';
@@ -21,7 +32,7 @@ export class CommandTool extends BaseTool {
       },
       cwd: {
         type: 'string',
-        description: 'Working directory for the command (optional)',
+        description: 'Working directory for the command, relative to the project directory (optional)',
       },
     },
     required: ['command'],
@@ -29,14 +40,33 @@ export class CommandTool extends BaseTool {
 
   private allowShellCommands: boolean;
   private baseDir: string;
+  private sandbox: PathSandbox;
+  private policy: CommandPolicy;
+  private requestApproval?: ApprovalHandler;
+  private backend: ExecutionBackend;
 
-  constructor(baseDir?: string, allowShellCommands: boolean = true) {
+  constructor(
+    baseDir?: string,
+    allowShellCommands: boolean = true,
+    sandbox?: PathSandbox,
+    policy?: CommandPolicy,
+    requestApproval?: ApprovalHandler,
+    backend?: ExecutionBackend
+  ) {
     super();
     this.baseDir = baseDir || process.cwd();
     this.allowShellCommands = allowShellCommands;
+    this.sandbox = sandbox || new PathSandbox(this.baseDir);
+    this.policy = policy || new CommandPolicy({}, this.sandbox);
+    this.requestApproval = requestApproval;
+    this.backend = backend || new LocalExecutionBackend();
   }
 
-  async execute(params: Record<string, any>): Promise<ToolExecutionResult> {
+  async execute(
+    params: Record<string, any>,
+    signal?: AbortSignal,
+    onOutput?: ToolOutputListener
+  ): Promise<ToolExecutionResult> {
     const { command, cwd } = params;
 
     if (!this.allowShellCommands) {
@@ -48,72 +78,95 @@ export class CommandTool extends BaseTool {
     }
 
     try {
-      // Safety: Block potentially dangerous commands
-      if (this.isDangerousCommand(command)) {
-        throw new ToolExecutionError(
-          `Command blocked for safety: ${command}`,
-          this.name
-        );
-      }
+      const workingDir = cwd ? this.sandbox.resolveDirectory(cwd) : this.baseDir;
+      await this.policy.authorize(command, workingDir, this.requestApproval, signal);
 
-      const workingDir = cwd || this.baseDir;
-      const startTime = Date.now();
+      const result = await this.backend.run(
+        { command, cwd: workingDir, logFile: await newLogFile(this.baseDir), onOutput },
+        signal
+      );
+      await pruneLogs(this.baseDir);
 
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: workingDir,
-        timeout: 60000, // 1 minute timeout
-        maxBuffer: 1024 * 1024 * 10, // 10MB buffer
-      });
+      const stdout = result.stdout.trim();
+      const stderr = result.stderr.trim();
+      const failure = describeFailure(command, result);
+      const logFile = result.logFile && toRelative(this.baseDir, result.logFile);
+      const diagnostics = failure ? await this.parseFailure(result, workingDir) : [];
 
-      const duration = Date.now() - startTime;
-      const output = stdout || stderr;
+      // Long output reaches the LLM cut down, or as the problems parsed from it; the log has the rest
+      let output = failure ? `${stdout}\n${stderr}` : stdout || stderr;
+      if (diagnostics.length > 0) {
+        const tail = output.trim().split('\n').slice(-OUTPUT_TAIL_LINES).join('\n');
+        output = `Problems found in the output:\n${formatDiagnostics(diagnostics)}\n\nEnd of output:\n${tail}`;
+      }
+      if ((result.truncated || diagnostics.length > 0) && logFile) {
+        output += `\n\n[Output was shortened. Full log: ${logFile}]`;
+      }
 
       return {
-        success: true,
-        output: output.trim(),
+        success: !failure,
+        output,
+        error: failure,
         metadata: {
           command,
-          exitCode: 0,
-          duration,
-          stdout: stdout.trim(),
-          stderr: stderr.trim(),
+          exitCode: result.exitCode ?? 1,
+          signal: result.signal || undefined,
+          duration: result.duration,
+          stdout,
+          stderr,
+          logFile,
+          diagnostics: diagnostics.length > 0 ? diagnostics : undefined,
         },
       };
     } catch (error: any) {
-      const duration = Date.now() - (error.startTime || Date.now());
-
       return {
         success: false,
-        output: (error.stdout || '') + '\n' + (error.stderr || ''),
+        output: '',
         error: error.message,
         metadata: {
           command,
-          exitCode: error.code || 1,
-          duration,
-          stdout: error.stdout || '',
-          stderr: error.stderr || '',
+          exitCode: 1,
+          duration: 0,
+          stdout: '',
+          stderr: '',
         },
       };
     }
   }
 
-  private isDangerousCommand(command: string): boolean {
-    const dangerous = [
-      'rm -rf /',
-      'rm -rf ~',
-      'rm -rf *',
-      'mkfs',
-      'dd if=',
-      ':(){:|:&};:',
-      'curl | sh',
-      'wget | sh',
-      'shutdown',
-      'reboot',
-      'init 0',
-      'init 6',
-    ];
+  /**
+   * Compiler, linter and test failures parsed from the complete output when
+   * the log has it, or else from what was kept in memory
+   */
+  private async parseFailure(result: ExecutionResult, cwd: string): Promise<Diagnostic[]> {
+    const log = result.logFile ? await readLogTail(result.logFile, MAX_PARSED_LOG_BYTES) : null;
+    const output = log ?? `${result.stdout}\n${result.stderr}`;
+    return parseDiagnostics(output, { cwd, baseDir: this.baseDir });
+  }
+}
 
-    const lowerCommand = command.toLowerCase();
-    return dangerous.some((d) => lowerCommand.includes(d.toLowerCase()));
+function describeFailure(command: string, result: ExecutionResult): string | undefined {
+  if (result.cancelled) {
+    return `Command cancelled: ${command}`;
   }
+  if (result.timedOut) {
+    return `Command timed out after ${result.limits.timeoutMs}ms and was killed: ${command}`;
+  }
+  if (result.outputLimitExceeded) {
+    return `Command output exceeded ${result.limits.maxOutputBytes} bytes and was killed: ${command}`;
+  }
+  if (result.signal) {
+    // The kernel sends SIGXCPU, then SIGKILL, once RLIMIT_CPU runs out
+    const cpuLimited = result.limits.cpuSeconds !== undefined && ['SIGXCPU', 'SIGKILL'].includes(result.signal);
+    const hint = cpuLimited ? ` (CPU time limit is ${result.limits.cpuSeconds}s)` : '';
+    return `Command killed by ${result.signal}${hint}: ${command}`;
+  }
+  if (result.exitCode !== 0) {
+    return `Command failed with exit code ${result.exitCode}: ${command}`;
+  }
+  return undefined;
+}
+
+function toRelative(baseDir: string, filePath: string): string {
+  return path.relative(baseDir, filePath).split(path.sep).join('/');
 }
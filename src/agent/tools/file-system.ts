@@ -0,0 +1,271 @@
+/**
+ * File System Backends - Disk and in-memory overlay used by FileTool
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { FileDiff } from '../../shared/types/task';
+import { createFileDiff } from '../../shared/utils/diff';
+import { hashFileContent } from '../../shared/utils/plan-hash';
+
+const readFileAsync = promisify(fs.readFile);
+const writeFileAsync = promisify(fs.writeFile);
+const existsAsync = promisify(fs.exists);
+const mkdirAsync = promisify(fs.mkdir);
+const unlinkAsync = promisify(fs.unlink);
+const readdirAsync = promisify(fs.readdir);
+const statAsync = promisify(fs.stat);
+const rmdirAsync = promisify(fs.rmdir);
+const copyFileAsync = promisify(fs.copyFile);
+
+export interface FileStat {
+  isDirectory: boolean;
+  size: number;
+  modifiedAt?: Date; // Unknown for files that only exist in memory
+}
+
+export interface DirectoryEntry {
+  name: string;
+  isDirectory: boolean;
+}
+
+export interface FileSystemBackend {
+  readonly virtual: boolean;
+  readFile(filePath: string): Promise<string>;
+  writeFile(filePath: string, content: string): Promise<void>;
+  exists(filePath: string): Promise<boolean>;
+  deleteFile(filePath: string): Promise<void>;
+  copyFile(source: string, destination: string): Promise<void>;
+  makeDirectory(dirPath: string): Promise<void>;
+  removeDirectory(dirPath: string): Promise<void>; // Only removes empty directories
+  listDirectory(dirPath: string): Promise<DirectoryEntry[]>;
+  stat(filePath: string): Promise<FileStat | null>;
+}
+
+export class DiskFileSystem implements FileSystemBackend {
+  readonly virtual = false;
+
+  async readFile(filePath: string): Promise<string> {
+    return readFileAsync(filePath, 'utf-8');
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    // Ensure directory exists
+    const dir = path.dirname(filePath);
+    if (!await existsAsync(dir)) {
+      await mkdirAsync(dir, { recursive: true });
+    }
+
+    await writeFileAsync(filePath, content, 'utf-8');
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return existsAsync(filePath);
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    await unlinkAsync(filePath);
+  }
+
+  async copyFile(source: string, destination: string): Promise<void> {
+    // Byte-for-byte, so binary files survive
+    await mkdirAsync(path.dirname(destination), { recursive: true });
+    await copyFileAsync(source, destination);
+  }
+
+  async makeDirectory(dirPath: string): Promise<void> {
+    await mkdirAsync(dirPath, { recursive: true });
+  }
+
+  async removeDirectory(dirPath: string): Promise<void> {
+    await rmdirAsync(dirPath);
+  }
+
+  async listDirectory(dirPath: string): Promise<DirectoryEntry[]> {
+    const entries = await readdirAsync(dirPath, { withFileTypes: true });
+    return entries
+      .map((entry) => ({ name: entry.name, isDirectory: entry.isDirectory() }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async stat(filePath: string): Promise<FileStat | null> {
+    try {
+      const stats = await statAsync(filePath);
+      return { isDirectory: stats.isDirectory(), size: stats.size, modifiedAt: stats.mtime };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Copy-on-write overlay over the disk: reads fall through to disk until a file
+ * is written or deleted, changes only ever land in memory. Used to preview
+ * changes. A null overlay entry marks a deleted file.
+ */
+export class VirtualFileSystem implements FileSystemBackend {
+  readonly virtual = true;
+  private disk = new DiskFileSystem();
+  private overlay = new Map<string, string | null>();
+  private originals = new Map<string, string | null>();
+  private directories = new Set<string>(); // Created in memory
+  private removedDirectories = new Set<string>();
+
+  async readFile(filePath: string): Promise<string> {
+    const key = path.resolve(filePath);
+    if (this.overlay.has(key)) {
+      const content = this.overlay.get(key);
+      if (content === null || content === undefined) {
+        throw new Error(`ENOENT: no such file or directory, open '${key}'`);
+      }
+      return content;
+    }
+    return this.disk.readFile(key);
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    const key = path.resolve(filePath);
+    await this.rememberOriginal(key);
+    this.overlay.set(key, content);
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return (await this.stat(filePath)) !== null;
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    const key = path.resolve(filePath);
+    const stat = await this.stat(key);
+    if (!stat || stat.isDirectory) {
+      throw new Error(`ENOENT: no such file, unlink '${key}'`);
+    }
+    await this.rememberOriginal(key);
+    this.overlay.set(key, null);
+  }
+
+  async copyFile(source: string, destination: string): Promise<void> {
+    await this.writeFile(destination, await this.readFile(source));
+  }
+
+  async makeDirectory(dirPath: string): Promise<void> {
+    const key = path.resolve(dirPath);
+    this.removedDirectories.delete(key);
+    this.directories.add(key);
+  }
+
+  async removeDirectory(dirPath: string): Promise<void> {
+    const key = path.resolve(dirPath);
+    if ((await this.listDirectory(key)).length > 0) {
+      throw new Error(`ENOTEMPTY: directory not empty, rmdir '${key}'`);
+    }
+    this.directories.delete(key);
+    this.removedDirectories.add(key);
+  }
+
+  async listDirectory(dirPath: string): Promise<DirectoryEntry[]> {
+    const key = path.resolve(dirPath);
+    const stat = await this.stat(key);
+    if (!stat?.isDirectory) {
+      throw new Error(`ENOTDIR: not a directory, scandir '${key}'`);
+    }
+
+    const entries = new Map<string, DirectoryEntry>();
+    if (!this.removedDirectories.has(key) && (await this.disk.stat(key))?.isDirectory) {
+      for (const entry of await this.disk.listDirectory(key)) {
+        entries.set(entry.name, entry);
+      }
+    }
+
+    // Layer in-memory files and directories on top of what is on disk
+    for (const [filePath, content] of this.overlay) {
+      const child = this.childOf(key, filePath);
+      if (!child) continue;
+      if (child.direct) {
+        content === null ? entries.delete(child.name) : entries.set(child.name, { name: child.name, isDirectory: false });
+      } else if (content !== null) {
+        entries.set(child.name, { name: child.name, isDirectory: true });
+      }
+    }
+    for (const dir of this.directories) {
+      const child = this.childOf(key, dir);
+      if (child) entries.set(child.name, { name: child.name, isDirectory: true });
+    }
+
+    // Directories on disk whose contents were all deleted in memory are gone too
+    const result: DirectoryEntry[] = [];
+    for (const entry of entries.values()) {
+      if (!entry.isDirectory || (await this.stat(path.join(key, entry.name)))) {
+        result.push(entry);
+      }
+    }
+    return result.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async stat(filePath: string): Promise<FileStat | null> {
+    const key = path.resolve(filePath);
+
+    if (this.overlay.has(key)) {
+      const content = this.overlay.get(key);
+      return content === null || content === undefined
+        ? null
+        : { isDirectory: false, size: Buffer.byteLength(content) };
+    }
+
+    if (this.directories.has(key) || this.hasOverlayFileUnder(key)) {
+      return { isDirectory: true, size: 0 };
+    }
+
+    if (this.removedDirectories.has(key)) {
+      return null;
+    }
+
+    return this.disk.stat(key);
+  }
+
+  /**
+   * Unified diffs of every file written or deleted so far against its contents on disk
+   */
+  getDiffs(baseDir: string): FileDiff[] {
+    const diffs: FileDiff[] = [];
+
+    for (const [filePath, content] of this.overlay) {
+      const original = this.originals.get(filePath) ?? null;
+      if (original === content) {
+        continue;
+      }
+      const relativePath = path.relative(baseDir, filePath).split(path.sep).join('/');
+      diffs.push({ ...createFileDiff(relativePath, original, content), originalHash: hashFileContent(original) });
+    }
+
+    return diffs.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private async rememberOriginal(key: string): Promise<void> {
+    if (!this.originals.has(key)) {
+      this.originals.set(key, (await this.disk.exists(key)) ? await this.disk.readFile(key) : null);
+    }
+  }
+
+  private hasOverlayFileUnder(dir: string): boolean {
+    const prefix = dir + path.sep;
+    for (const [filePath, content] of this.overlay) {
+      if (content !== null && filePath.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Name of the entry directly inside `dir` that contains `target`, if any
+   */
+  private childOf(dir: string, target: string): { name: string; direct: boolean } | null {
+    const relative = path.relative(dir, target);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return null;
+    }
+    const parts = relative.split(path.sep);
+    return { name: parts[0], direct: parts.length === 1 };
+  }
+}
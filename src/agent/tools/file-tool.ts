@@ -1,33 +1,45 @@
 /**
- * File Tool - Read, Write, and Patch Files
+ * File Tool - Read, Write, Patch and Manage Files
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { promisify } from 'util';
 import { BaseTool, ToolExecutionResult } from './base-tool';
+import { FileSystemBackend, DiskFileSystem } from './file-system';
+import { FileOperation } from '../../shared/types/task';
 import { ToolExecutionError } from '../../shared/errors';
-import { isPathSafe } from '../../shared/utils/file-utils';
+import { PathSandbox } from '../../shared/utils/sandbox';
+import { applyEdits, FileEdit } from '../../shared/utils/patch';
 
-const readFileAsync = promisify(fs.readFile);
-const writeFileAsync = promisify(fs.writeFile);
-const existsAsync = promisify(fs.exists);
-const mkdirAsync = promisify(fs.mkdir);
+const MAX_LIST_ENTRIES = 500;
 
 export class FileTool extends BaseTool {
   name = 'file';
-  description = 'Read, write, or patch files in the project directory';
+  description =
+    'Read, write, patch, delete, move, copy, list and inspect files in the project directory. multi_patch applies several edits (search/replace, line ranges or unified diffs) atomically. Use delete and move instead of shell rm/mv.';
   parameters = {
     type: 'object' as const,
     properties: {
       action: {
         type: 'string',
-        enum: ['read', 'write', 'patch'],
+        enum: ['read', 'write', 'patch', 'multi_patch', 'delete', 'move', 'copy', 'mkdir', 'list', 'stat'],
         description: 'The file operation to perform',
       },
       path: {
         type: 'string',
-        description: 'File path relative to project directory',
+        description: 'File or directory path relative to project directory (the source for move and copy)',
+      },
+      destination: {
+        type: 'string',
+        description: 'Target path relative to project directory (for move and copy)',
+      },
+      recursive: {
+        type: 'boolean',
+        description: 'Allow delete, move and copy to act on a whole directory',
+      },
+      overwrite: {
+        type: 'boolean',
+        description: 'Allow move and copy to replace an existing destination file',
       },
       content: {
         type: 'string',
@@ -41,30 +53,53 @@ export class FileTool extends BaseTool {
         type: 'string',
         description: 'Text to replace with (for patch action)',
       },
+      edits: {
+        type: 'array',
+        description:
+          'Edits for multi_patch, all located against the file as it is now and applied together or not at all. ' +
+          'Each is one of: { search, replace, replaceAll? } (search must match exactly once unless replaceAll; ' +
+          'whitespace differences are tolerated), { startLine, endLine, replace } (1-based inclusive lines; ' +
+          'endLine = startLine - 1 inserts), or { diff } (unified diff hunks, matched fuzzily)',
+        items: {
+          type: 'object',
+          properties: {
+            search: { type: 'string' },
+            replace: { type: 'string' },
+            replaceAll: { type: 'boolean' },
+            startLine: { type: 'number' },
+            endLine: { type: 'number' },
+            diff: { type: 'string' },
+          },
+        },
+      },
     },
     required: ['action', 'path'],
   };
 
   private baseDir: string;
+  private fs: FileSystemBackend;
+  private allowFileDelete: boolean;
+  private sandbox: PathSandbox;
 
-  constructor(baseDir?: string) {
+  constructor(
+    baseDir?: string,
+    fileSystem?: FileSystemBackend,
+    allowFileDelete: boolean = false,
+    sandbox?: PathSandbox
+  ) {
     super();
     this.baseDir = baseDir || process.cwd();
+    this.fs = fileSystem || new DiskFileSystem();
+    this.allowFileDelete = allowFileDelete;
+    this.sandbox = sandbox || new PathSandbox(this.baseDir);
   }
 
   async execute(params: Record<string, any>): Promise<ToolExecutionResult> {
-    const { action, path: filePath, content, search, replace } = params;
+    const { action, path: filePath, content, search, replace, edits, destination, recursive, overwrite } = params;
 
     try {
-      // Safety check: ensure file is within base directory
-      if (!isPathSafe(filePath, this.baseDir)) {
-        throw new ToolExecutionError(
-          `Access denied: ${filePath} is outside the project directory`,
-          this.name
-        );
-      }
-
-      const absolutePath = path.resolve(this.baseDir, filePath);
+      // Safety check: ensure file is within the sandbox
+      const absolutePath = this.sandbox.resolve(filePath);
 
       switch (action) {
         case 'read':
@@ -82,6 +117,40 @@ export class FileTool extends BaseTool {
           }
           return await this.patchFile(absolutePath, search, replace);
 
+        case 'multi_patch':
+          if (!Array.isArray(edits) || edits.length === 0) {
+            throw new Error('Edits are required for multi_patch action');
+          }
+          return await this.multiPatchFile(absolutePath, edits);
+
+        case 'delete':
+          this.assertDeleteAllowed(action);
+          return await this.deletePath(absolutePath, Boolean(recursive));
+
+        case 'move':
+        case 'copy': {
+          if (!destination) {
+            throw new Error(`Destination is required for ${action} action`);
+          }
+          if (action === 'move') {
+            this.assertDeleteAllowed(action);
+          }
+          const absoluteDestination = this.sandbox.resolve(destination);
+          if (overwrite && await this.fs.exists(absoluteDestination)) {
+            this.assertDeleteAllowed(`overwrite by ${action}`);
+          }
+          return await this.transferPath(action, absolutePath, absoluteDestination, Boolean(recursive), Boolean(overwrite));
+        }
+
+        case 'mkdir':
+          return await this.makeDirectory(absolutePath);
+
+        case 'list':
+          return await this.listDirectory(absolutePath);
+
+        case 'stat':
+          return await this.statPath(absolutePath);
+
         default:
           throw new Error(`Invalid action: ${action}`);
       }
@@ -94,9 +163,73 @@ export class FileTool extends BaseTool {
     }
   }
 
+  isReadOnly(params: Record<string, any>): boolean {
+    return ['read', 'list', 'stat'].includes(params.action);
+  }
+
+  canPreview(_params: Record<string, any>): boolean {
+    return this.fs.virtual;
+  }
+
+  getAffectedPaths(params: Record<string, any>): string[] {
+    const { action, path: filePath, destination } = params;
+    if (!this.sandbox.isAllowed(filePath)) {
+      return [];
+    }
+    const absolutePath = path.resolve(this.baseDir, filePath);
+
+    switch (action) {
+      case 'write':
+      case 'patch':
+      case 'multi_patch':
+        return [absolutePath];
+
+      case 'delete':
+        return listFilesSync(absolutePath);
+
+      case 'move':
+      case 'copy': {
+        if (!this.sandbox.isAllowed(destination)) {
+          return [];
+        }
+        const sources = listFilesSync(absolutePath);
+        const targets = sources.map((source) =>
+          path.join(this.resolveTarget(absolutePath, path.resolve(this.baseDir, destination)), path.relative(absolutePath, source))
+        );
+        return action === 'move' ? [...sources, ...targets] : targets;
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private assertDeleteAllowed(operation: string): void {
+    if (!this.allowFileDelete) {
+      throw new ToolExecutionError(
+        `File ${operation} is disabled in agent configuration (safety.allowFileDelete)`,
+        this.name
+      );
+    }
+  }
+
+  /**
+   * Moving or copying into an existing directory puts the source inside it, like mv and cp
+   */
+  private resolveTarget(source: string, destination: string): string {
+    try {
+      if (fs.statSync(destination).isDirectory() && !fs.statSync(source).isDirectory()) {
+        return path.join(destination, path.basename(source));
+      }
+    } catch {
+      // Destination does not exist yet
+    }
+    return destination;
+  }
+
   private async readFile(filePath: string): Promise<ToolExecutionResult> {
     try {
-      const content = await readFileAsync(filePath, 'utf-8');
+      const content = await this.fs.readFile(filePath);
       return {
         success: true,
         output: content,
@@ -112,13 +245,7 @@ export class FileTool extends BaseTool {
 
   private async writeFile(filePath: string, content: string): Promise<ToolExecutionResult> {
     try {
-      // Ensure directory exists
-      const dir = path.dirname(filePath);
-      if (!await existsAsync(dir)) {
-        await mkdirAsync(dir, { recursive: true });
-      }
-
-      await writeFileAsync(filePath, content, 'utf-8');
+      await this.fs.writeFile(filePath, content);
 
       return {
         success: true,
@@ -140,7 +267,7 @@ export class FileTool extends BaseTool {
   ): Promise<ToolExecutionResult> {
     try {
       // Read current content
-      const content = await readFileAsync(filePath, 'utf-8');
+      const content = await this.fs.readFile(filePath);
 
       // Check if search text exists
       if (!content.includes(search)) {
@@ -151,7 +278,7 @@ export class FileTool extends BaseTool {
       const newContent = content.replace(search, replace);
 
       // Write back
-      await writeFileAsync(filePath, newContent, 'utf-8');
+      await this.fs.writeFile(filePath, newContent);
 
       return {
         success: true,
@@ -165,4 +292,269 @@ export class FileTool extends BaseTool {
       throw new Error(`Failed to patch file ${filePath}: ${error.message}`);
     }
   }
+
+  private async multiPatchFile(filePath: string, edits: FileEdit[]): Promise<ToolExecutionResult> {
+    try {
+      const content = await this.fs.readFile(filePath);
+
+      // Throws before anything is written if any edit fails
+      const newContent = applyEdits(content, edits);
+
+      await this.fs.writeFile(filePath, newContent);
+
+      return {
+        success: true,
+        output: `Applied ${edits.length} edit(s) to ${filePath}`,
+        metadata: {
+          filePath,
+          filesModified: [filePath],
+          edits: edits.length,
+        },
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to patch file ${filePath}: ${error.message}; no changes were made`);
+    }
+  }
+
+  private async deletePath(targetPath: string, recursive: boolean): Promise<ToolExecutionResult> {
+    try {
+      if (targetPath === path.resolve(this.baseDir)) {
+        throw new Error('Refusing to delete the project directory');
+      }
+
+      const stat = await this.fs.stat(targetPath);
+      if (!stat) {
+        throw new Error('No such file or directory');
+      }
+
+      let files = [targetPath];
+      if (stat.isDirectory) {
+        if (!recursive) {
+          throw new Error('Path is a directory; set recursive to delete it with its contents');
+        }
+        const tree = await this.walk(targetPath);
+        files = tree.files;
+        for (const file of files) {
+          await this.fs.deleteFile(file);
+        }
+        // Deepest directories first, so each is empty when it is removed
+        for (const dir of tree.directories.reverse()) {
+          await this.fs.removeDirectory(dir);
+        }
+      } else {
+        await this.fs.deleteFile(targetPath);
+      }
+
+      const fileOperations: FileOperation[] = files.map((file) => ({ operation: 'delete', path: file }));
+      return {
+        success: true,
+        output: stat.isDirectory
+          ? `Deleted directory ${targetPath} (${files.length} file(s))`
+          : `File deleted: ${targetPath}`,
+        metadata: {
+          filePath: targetPath,
+          filesModified: files,
+          fileOperations,
+        },
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to delete ${targetPath}: ${error.message}`);
+    }
+  }
+
+  private async transferPath(
+    action: 'move' | 'copy',
+    source: string,
+    destination: string,
+    recursive: boolean,
+    overwrite: boolean
+  ): Promise<ToolExecutionResult> {
+    try {
+      const stat = await this.fs.stat(source);
+      if (!stat) {
+        throw new Error('No such file or directory');
+      }
+
+      const target = this.sandbox.resolve(await this.resolveTransferTarget(source, destination, stat.isDirectory));
+      if (target === source) {
+        throw new Error('Source and destination are the same');
+      }
+
+      let pairs: Array<{ from: string; to: string }> = [{ from: source, to: target }];
+      let directories: string[] = [];
+      if (stat.isDirectory) {
+        if (!recursive) {
+          throw new Error(`Path is a directory; set recursive to ${action} it with its contents`);
+        }
+        if (target.startsWith(source + path.sep)) {
+          throw new Error(`Cannot ${action} a directory into itself`);
+        }
+        const tree = await this.walk(source);
+        pairs = tree.files.map((file) => ({
+          from: file,
+          to: this.sandbox.resolve(path.join(target, path.relative(source, file))),
+        }));
+        directories = tree.directories;
+      }
+
+      // Check every target before touching anything, so a clash leaves the project as it was
+      if (!overwrite) {
+        for (const { to } of pairs) {
+          if (await this.fs.exists(to)) {
+            throw new Error(`${to} already exists; set overwrite to replace it`);
+          }
+        }
+      }
+
+      // Recreate the directory structure first so empty directories come along too
+      for (const dir of directories) {
+        await this.fs.makeDirectory(path.join(target, path.relative(source, dir)));
+      }
+      for (const { from, to } of pairs) {
+        await this.fs.copyFile(from, to);
+        if (action === 'move') {
+          await this.fs.deleteFile(from);
+        }
+      }
+      if (action === 'move') {
+        for (const dir of directories.reverse()) {
+          await this.fs.removeDirectory(dir);
+        }
+      }
+
+      const fileOperations: FileOperation[] = pairs.map(({ from, to }) => ({ operation: action, path: to, from }));
+      const verb = action === 'move' ? 'Moved' : 'Copied';
+      return {
+        success: true,
+        output: stat.isDirectory
+          ? `${verb} directory ${source} to ${target} (${pairs.length} file(s))`
+          : `${verb} ${source} to ${target}`,
+        metadata: {
+          filePath: target,
+          filesModified: action === 'move' ? pairs.flatMap(({ from, to }) => [from, to]) : pairs.map(({ to }) => to),
+          fileOperations,
+        },
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to ${action} ${source} to ${destination}: ${error.message}`);
+    }
+  }
+
+  private async resolveTransferTarget(source: string, destination: string, sourceIsDirectory: boolean): Promise<string> {
+    const stat = await this.fs.stat(destination);
+    if (stat?.isDirectory) {
+      if (!sourceIsDirectory) {
+        return path.join(destination, path.basename(source));
+      }
+      throw new Error(`${destination} already exists`);
+    }
+    return destination;
+  }
+
+  private async makeDirectory(dirPath: string): Promise<ToolExecutionResult> {
+    try {
+      const stat = await this.fs.stat(dirPath);
+      if (stat && !stat.isDirectory) {
+        throw new Error('A file with that name already exists');
+      }
+
+      await this.fs.makeDirectory(dirPath);
+
+      return {
+        success: true,
+        output: stat ? `Directory already exists: ${dirPath}` : `Directory created: ${dirPath}`,
+        metadata: {
+          filePath: dirPath,
+          fileOperations: stat ? [] : [{ operation: 'mkdir', path: dirPath }],
+        },
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to create directory ${dirPath}: ${error.message}`);
+    }
+  }
+
+  private async listDirectory(dirPath: string): Promise<ToolExecutionResult> {
+    try {
+      const entries = await this.fs.listDirectory(dirPath);
+      const shown = entries.slice(0, MAX_LIST_ENTRIES).map((entry) => (entry.isDirectory ? `${entry.name}/` : entry.name));
+      if (entries.length > MAX_LIST_ENTRIES) {
+        shown.push(`… ${entries.length - MAX_LIST_ENTRIES} more entries`);
+      }
+
+      return {
+        success: true,
+        output: shown.length > 0 ? shown.join('\n') : '(empty directory)',
+        metadata: {
+          filePath: dirPath,
+          count: entries.length,
+        },
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list directory ${dirPath}: ${error.message}`);
+    }
+  }
+
+  private async statPath(filePath: string): Promise<ToolExecutionResult> {
+    const stat = await this.fs.stat(filePath);
+    if (!stat) {
+      return {
+        success: true,
+        output: `${filePath} does not exist`,
+        metadata: { filePath, exists: false },
+      };
+    }
+
+    const lines = [`Path: ${filePath}`, `Type: ${stat.isDirectory ? 'directory' : 'file'}`];
+    if (!stat.isDirectory) {
+      lines.push(`Size: ${stat.size} bytes`);
+    }
+    if (stat.modifiedAt) {
+      lines.push(`Modified: ${stat.modifiedAt.toISOString()}`);
+    }
+
+    return {
+      success: true,
+      output: lines.join('\n'),
+      metadata: {
+        filePath,
+        exists: true,
+        isDirectory: stat.isDirectory,
+        size: stat.size,
+      },
+    };
+  }
+
+  /**
+   * Every file and directory under a directory, parents before children.
+   * Fails if any of them is off limits, so directories are handled whole.
+   */
+  private async walk(dir: string): Promise<{ files: string[]; directories: string[] }> {
+    const files: string[] = [];
+    const directories: string[] = [dir];
+
+    for (let i = 0; i < directories.length; i++) {
+      for (const entry of await this.fs.listDirectory(directories[i])) {
+        const entryPath = this.sandbox.resolve(path.join(directories[i], entry.name));
+        (entry.isDirectory ? directories : files).push(entryPath);
+      }
+    }
+
+    return { files, directories };
+  }
+}
+
+/**
+ * Files at a path on disk: the path itself, or every file beneath a directory
+ */
+function listFilesSync(targetPath: string): string[] {
+  try {
+    if (!fs.statSync(targetPath).isDirectory()) {
+      return [targetPath];
+    }
+    return fs
+      .readdirSync(targetPath, { withFileTypes: true })
+      .flatMap((entry) => listFilesSync(path.join(targetPath, entry.name)));
+  } catch {
+    return [targetPath];
+  }
 }
@@ -4,9 +4,13 @@
 
 import simpleGit, { SimpleGit } from 'simple-git';
 import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import { promisify } from 'util';
 import { BaseTool, ToolExecutionResult } from './base-tool';
 import { ToolExecutionError } from '../../shared/errors';
+import { PathSandbox } from '../../shared/utils/sandbox';
+import { TEMP_DIR } from '../../shared/constants';
 
 const execAsync = promisify(exec);
 
@@ -43,18 +47,25 @@ export class GitTool extends BaseTool {
 
   private git: SimpleGit;
   private allowGitPush: boolean;
+  private sandbox: PathSandbox;
 
-  constructor(baseDir?: string, allowGitPush: boolean = true) {
+  constructor(baseDir?: string, allowGitPush: boolean = true, sandbox?: PathSandbox) {
     super();
     this.git = simpleGit(baseDir || process.cwd());
     this.allowGitPush = allowGitPush;
+    this.sandbox = sandbox || new PathSandbox(baseDir || process.cwd());
   }
 
-  async execute(params: Record<string, any>): Promise<ToolExecutionResult> {
+  async execute(params: Record<string, any>, signal?: AbortSignal): Promise<ToolExecutionResult> {
     const { action, operation, message, branchName, prTitle, prBody } = params;
     const op = operation || action; // Support both 'operation' and 'action'
 
     try {
+      // Git operations are short; just don't start one for a cancelled task
+      if (signal?.aborted) {
+        throw new Error(`Git ${op} cancelled`);
+      }
+
       switch (op) {
         case 'status':
           return await this.getStatus();
@@ -111,6 +122,10 @@ export class GitTool extends BaseTool {
     }
   }
 
+  isReadOnly(params: Record<string, any>): boolean {
+    return (params.operation || params.action) === 'status';
+  }
+
   private async getStatus(): Promise<ToolExecutionResult> {
     try {
       const status = await this.git.status();
@@ -151,14 +166,14 @@ export class GitTool extends BaseTool {
       const status = await this.git.status();
 
       // Collect all files that need to be staged
-      const filesToAdd = [
+      const changedFiles = [
         ...status.modified,
         ...status.created,
         ...status.deleted,
         ...status.not_added,
       ];
 
-      if (filesToAdd.length === 0) {
+      if (changedFiles.length === 0) {
         return {
           success: false,
           output: 'No changes to commit',
@@ -168,6 +183,8 @@ export class GitTool extends BaseTool {
 
       // Filter out Windows reserved names and invalid paths
       const WINDOWS_RESERVED = ['CON', 'PRN', 'AUX', 'NUL', 'COM1', 'COM2', 'COM3', 'COM4', 'LPT1', 'LPT2', 'LPT3'];
+      // Changes outside the sandbox (e.g. a stray .env) are never committed
+      const filesToAdd = await this.filterSandboxed(changedFiles);
       const validFiles = filesToAdd.filter(file => {
         const fileName = file.split(/[/\\]/).pop()?.toUpperCase();
         return fileName && !WINDOWS_RESERVED.includes(fileName);
@@ -177,7 +194,7 @@ export class GitTool extends BaseTool {
         return {
           success: false,
           output: 'No valid files to commit',
-          error: 'All files are invalid or Windows reserved names',
+          error: 'All changed files are protected by the sandbox, invalid or Windows reserved names',
         };
       }
 
@@ -235,6 +252,23 @@ export class GitTool extends BaseTool {
 
   private async addFiles(files: string[]): Promise<ToolExecutionResult> {
     try {
+      const toStage: string[] = [];
+      for (const file of files) {
+        const absolutePath = this.sandbox.resolve(file);
+
+        // Staging a directory, the project included, must not sweep up the protected files in it
+        if (await isDirectory(absolutePath)) {
+          toStage.push(...(await this.filterSandboxed(await this.changedFilesIn(absolutePath))));
+        } else {
+          toStage.push(file);
+        }
+      }
+
+      files = [...new Set(toStage)];
+      if (files.length === 0) {
+        return { success: true, output: 'Nothing to stage', metadata: { files } };
+      }
+
       await this.git.add(files);
 
       return {
@@ -313,4 +347,41 @@ export class GitTool extends BaseTool {
       throw new Error(`Failed to create PR: ${error.message}`);
     }
   }
+
+  /**
+   * Modified, deleted and untracked files under a directory, relative to the
+   * repository root like the paths `git status` reports
+   */
+  private async changedFilesIn(directory: string): Promise<string[]> {
+    const output = await this.git.raw([
+      'ls-files',
+      '-z',
+      '--modified',
+      '--others',
+      '--exclude-standard',
+      '--full-name',
+      '--',
+      directory,
+    ]);
+    return output.split('\0').filter(Boolean);
+  }
+
+  /**
+   * Files the agent may stage. Its own scratch files never are, even where
+   * their `.gitignore` is missing: command logs can hold secrets.
+   */
+  private async filterSandboxed(files: string[]): Promise<string[]> {
+    const root = (await this.git.revparse(['--show-toplevel'])).trim();
+    return files.filter(
+      (file) => !file.split('/').includes(TEMP_DIR) && this.sandbox.isAllowed(path.join(root, file))
+    );
+  }
+}
+
+async function isDirectory(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(filePath)).isDirectory();
+  } catch {
+    return false;
+  }
 }
@@ -4,5 +4,10 @@
 
 export { BaseTool, ToolExecutionResult, ToolParameterSchema } from './base-tool';
 export { FileTool } from './file-tool';
+export { FileSystemBackend, DiskFileSystem, VirtualFileSystem } from './file-system';
 export { CommandTool } from './command-tool';
+export { ProcessTool } from './process-tool';
 export { GitTool } from './git-tool';
+export { SearchTool } from './search-tool';
+export { CodeSearchTool } from './code-search-tool';
+export { AskUserTool } from './ask-user-tool';
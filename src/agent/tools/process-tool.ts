@@ -0,0 +1,251 @@
+/**
+ * Process Tool - Run dev servers and watchers alongside the task
+ */
+
+import * as path from 'path';
+import { BaseTool, ToolExecutionResult } from './base-tool';
+import { ToolExecutionError } from '../../shared/errors';
+import { PathSandbox } from '../../shared/utils/sandbox';
+import { ApprovalHandler } from '../../shared/types/task';
+import { CommandPolicy } from '../command-policy';
+import { ProcessInfo, ProcessManager, WaitResult } from '../execution';
+
+const DEFAULT_WAIT_MS = 30000;
+const MAX_WAIT_MS = 300000; // 5 minutes
+const DEFAULT_LOG_LINES = 50;
+const MAX_LOG_LINES = 500;
+
+const READ_ONLY_ACTIONS = ['status', 'logs', 'wait_for'];
+
+export class ProcessTool extends BaseTool {
+  name = 'process';
+  description =
+    'Run long-lived commands in the background (dev servers, watchers) and check on them: ' +
+    'start, status, logs, wait_for (output pattern or open port) and stop. ' +
+    'Everything still running is stopped when the task ends.';
+  parameters = {
+    type: 'object' as const,
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['start', 'status', 'logs', 'wait_for', 'stop'],
+        description: 'The action to perform',
+      },
+      id: {
+        type: 'string',
+        description: 'Process ID returned by start (status, logs, wait_for, stop; status without it lists all)',
+      },
+      command: {
+        type: 'string',
+        description: 'Shell command to start (start action)',
+      },
+      name: {
+        type: 'string',
+        description: 'ID to give the process, e.g. "dev-server" (start action, optional)',
+      },
+      cwd: {
+        type: 'string',
+        description: 'Working directory, relative to the project directory (start action, optional)',
+      },
+      pattern: {
+        type: 'string',
+        description: 'Regular expression a line of output must match (wait_for action)',
+      },
+      port: {
+        type: 'number',
+        description: 'TCP port that must accept connections (wait_for action)',
+      },
+      host: {
+        type: 'string',
+        description: 'Host for the port check; defaults to localhost (wait_for action)',
+      },
+      timeout: {
+        type: 'number',
+        description: `Milliseconds to wait, default ${DEFAULT_WAIT_MS}, at most ${MAX_WAIT_MS} (wait_for action)`,
+      },
+      lines: {
+        type: 'number',
+        description: `Number of most recent output lines, default ${DEFAULT_LOG_LINES} (logs action)`,
+      },
+    },
+    required: ['action'],
+  };
+
+  private processes: ProcessManager;
+  private allowShellCommands: boolean;
+  private baseDir: string;
+  private sandbox: PathSandbox;
+  private policy: CommandPolicy;
+  private requestApproval?: ApprovalHandler;
+
+  constructor(
+    processes: ProcessManager,
+    baseDir?: string,
+    allowShellCommands: boolean = true,
+    sandbox?: PathSandbox,
+    policy?: CommandPolicy,
+    requestApproval?: ApprovalHandler
+  ) {
+    super();
+    this.processes = processes;
+    this.baseDir = baseDir || process.cwd();
+    this.allowShellCommands = allowShellCommands;
+    this.sandbox = sandbox || new PathSandbox(this.baseDir);
+    this.policy = policy || new CommandPolicy({}, this.sandbox);
+    this.requestApproval = requestApproval;
+  }
+
+  isReadOnly(params: Record<string, any>): boolean {
+    return READ_ONLY_ACTIONS.includes(params.action);
+  }
+
+  async execute(params: Record<string, any>, signal?: AbortSignal): Promise<ToolExecutionResult> {
+    const { action } = params;
+
+    try {
+      switch (action) {
+        case 'start':
+          return await this.start(params, signal);
+        case 'status':
+          return this.status(params.id);
+        case 'logs':
+          return this.logs(params.id, params.lines);
+        case 'wait_for':
+          return await this.waitFor(params, signal);
+        case 'stop':
+          return await this.stop(params.id);
+        default:
+          throw new ToolExecutionError(`Unknown action: ${action}`, this.name);
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        output: '',
+        error: error.message,
+      };
+    }
+  }
+
+  private async start(params: Record<string, any>, signal?: AbortSignal): Promise<ToolExecutionResult> {
+    const { command, cwd, name } = params;
+
+    if (!this.allowShellCommands) {
+      throw new ToolExecutionError('Shell command execution is disabled in agent configuration', this.name);
+    }
+    if (!command) {
+      throw new ToolExecutionError('command is required to start a process', this.name);
+    }
+    if (name !== undefined && !/^[\w.-]{1,64}$/.test(name)) {
+      throw new ToolExecutionError('name may only contain letters, digits, ".", "-" and "_"', this.name);
+    }
+
+    const workingDir = cwd ? this.sandbox.resolveDirectory(cwd) : this.baseDir;
+    await this.policy.authorize(command, workingDir, this.requestApproval, signal);
+
+    const info = await this.processes.start(command, workingDir, name);
+
+    return {
+      success: true,
+      output:
+        `Started ${info.id} (pid ${info.pid}): ${command}\n` +
+        `Use wait_for to wait until it is ready. Full output: ${this.relative(info.logFile)}`,
+      metadata: { process: info },
+    };
+  }
+
+  private status(id?: string): ToolExecutionResult {
+    const processes = id ? [this.find(id)] : this.processes.list();
+    if (processes.length === 0) {
+      return { success: true, output: 'No background processes', metadata: { processes } };
+    }
+
+    return {
+      success: true,
+      output: processes.map((info) => this.describe(info)).join('\n'),
+      metadata: { processes },
+    };
+  }
+
+  private logs(id: string, lines?: number): ToolExecutionResult {
+    const info = this.find(id);
+    const count = Math.min(Math.max(1, lines || DEFAULT_LOG_LINES), MAX_LOG_LINES);
+    const tail = this.processes.tail(id, count);
+
+    const header =
+      info.outputLines > tail.length
+        ? `Last ${tail.length} of ${info.outputLines} line(s); full output: ${this.relative(info.logFile)}`
+        : `${tail.length} line(s)`;
+
+    return {
+      success: true,
+      output: `${this.describe(info)}\n${header}\n${tail.join('\n')}`.trimEnd(),
+      metadata: { process: info },
+    };
+  }
+
+  private async waitFor(params: Record<string, any>, signal?: AbortSignal): Promise<ToolExecutionResult> {
+    const { id, pattern, port, host } = params;
+    const info = this.find(id);
+    const timeout = Math.min(Math.max(1, params.timeout || DEFAULT_WAIT_MS), MAX_WAIT_MS);
+
+    let result: WaitResult;
+    if (pattern) {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern);
+      } catch (error: any) {
+        throw new ToolExecutionError(`Invalid pattern: ${error.message}`, this.name);
+      }
+      result = await this.processes.waitForOutput(id, regex, timeout, signal);
+    } else if (port !== undefined) {
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new ToolExecutionError(`Invalid port: ${port}`, this.name);
+      }
+      result = await this.processes.waitForPort(id, port, host, timeout, signal);
+    } else {
+      throw new ToolExecutionError('wait_for needs a pattern or a port', this.name);
+    }
+
+    if (result.ready) {
+      return { success: true, output: `${info.id} is ready: ${result.detail}`, metadata: { process: info } };
+    }
+
+    // Whatever the process printed last usually explains why it never got ready
+    const recent = this.processes.tail(id, 20).join('\n');
+    return {
+      success: false,
+      output: recent,
+      error: `${info.id} did not become ready: ${result.detail}`,
+      metadata: { process: this.processes.get(id) },
+    };
+  }
+
+  private async stop(id: string): Promise<ToolExecutionResult> {
+    this.find(id);
+    const info = (await this.processes.stop(id))!;
+    return { success: true, output: `Stopped. ${this.describe(info)}`, metadata: { process: info } };
+  }
+
+  private find(id: string): ProcessInfo {
+    const info = id ? this.processes.get(id) : undefined;
+    if (!info) {
+      const known = this.processes.list().map((p) => p.id);
+      throw new ToolExecutionError(
+        `Unknown process: ${id}` + (known.length > 0 ? ` (known: ${known.join(', ')})` : ''),
+        this.name
+      );
+    }
+    return info;
+  }
+
+  private describe(info: ProcessInfo): string {
+    const state = info.running
+      ? `running for ${Math.round((Date.now() - info.startedAt.getTime()) / 1000)}s`
+      : `exited (${info.signal ? `signal ${info.signal}` : `exit code ${info.exitCode}`})`;
+    return `${info.id} [pid ${info.pid}] ${state}: ${info.command}`;
+  }
+
+  private relative(filePath?: string): string {
+    return filePath ? path.relative(this.baseDir, filePath).split(path.sep).join('/') : '(no log)';
+  }
+}
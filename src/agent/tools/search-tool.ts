@@ -0,0 +1,245 @@
+/**
+ * Search Tool - Find Files, Search Contents, and List Directory Trees
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseTool, ToolExecutionResult } from './base-tool';
+import { PathSandbox } from '../../shared/utils/sandbox';
+import { ProjectEntry, matchesGlob, walkProject } from '../../shared/utils/glob';
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 1000;
+const DEFAULT_TREE_DEPTH = 3;
+const MAX_TREE_ENTRIES = 500;
+const MAX_SEARCH_FILE_SIZE = 1024 * 1024; // Skip larger files, they are rarely source
+const MAX_MATCH_LINE_LENGTH = 200;
+
+export class SearchTool extends BaseTool {
+  name = 'search';
+  description =
+    'Search the project: find files by glob, search file contents by regex, or list a directory tree. Respects .gitignore.';
+  parameters = {
+    type: 'object' as const,
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['glob', 'grep', 'tree'],
+        description: 'glob lists files matching a pattern, grep searches contents, tree lists a directory',
+      },
+      pattern: {
+        type: 'string',
+        description:
+          'Glob for the glob action (e.g. "src/**/*.ts", "*.json"), regular expression for the grep action',
+      },
+      path: {
+        type: 'string',
+        description: 'Directory to search in, relative to the project directory (default: project root)',
+      },
+      include: {
+        type: 'string',
+        description: 'Only grep files matching this glob (e.g. "*.ts")',
+      },
+      caseSensitive: {
+        type: 'boolean',
+        description: 'Case-sensitive grep (default: false)',
+      },
+      depth: {
+        type: 'number',
+        description: `Maximum depth for the tree action (default: ${DEFAULT_TREE_DEPTH})`,
+      },
+      maxResults: {
+        type: 'number',
+        description: `Maximum number of results (default: ${DEFAULT_MAX_RESULTS})`,
+      },
+    },
+    required: ['action'],
+  };
+
+  private baseDir: string;
+  private sandbox: PathSandbox;
+
+  constructor(baseDir?: string, sandbox?: PathSandbox) {
+    super();
+    this.baseDir = baseDir || process.cwd();
+    this.sandbox = sandbox || new PathSandbox(this.baseDir);
+  }
+
+  async execute(params: Record<string, any>, signal?: AbortSignal): Promise<ToolExecutionResult> {
+    const { action, pattern, path: searchPath = '.', include, caseSensitive, depth } = params;
+    const maxResults = Math.min(Math.max(Number(params.maxResults) || DEFAULT_MAX_RESULTS, 1), MAX_RESULTS_LIMIT);
+
+    try {
+      const root = this.sandbox.resolve(searchPath);
+      const stat = await fs.promises.stat(root).catch(() => null);
+      if (!stat?.isDirectory()) {
+        throw new Error(`Not a directory: ${searchPath}`);
+      }
+
+      switch (action) {
+        case 'glob':
+          if (!pattern) {
+            throw new Error('Pattern is required for glob action');
+          }
+          return await this.globFiles(root, pattern, maxResults, signal);
+
+        case 'grep':
+          if (!pattern) {
+            throw new Error('Pattern is required for grep action');
+          }
+          return await this.grepFiles(root, pattern, include, caseSensitive === true, maxResults, signal);
+
+        case 'tree':
+          return await this.listTree(root, Number(depth) || DEFAULT_TREE_DEPTH, signal);
+
+        default:
+          throw new Error(`Invalid action: ${action}`);
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        output: '',
+        error: error.message,
+      };
+    }
+  }
+
+  isReadOnly(_params: Record<string, any>): boolean {
+    return true;
+  }
+
+  private async globFiles(
+    root: string,
+    pattern: string,
+    maxResults: number,
+    signal?: AbortSignal
+  ): Promise<ToolExecutionResult> {
+    const matches: string[] = [];
+    let truncated = false;
+
+    for await (const entry of walkProject(this.baseDir, root, { signal })) {
+      if (entry.isDirectory || !matchesGlob(this.relativeToRoot(root, entry), pattern)) {
+        continue;
+      }
+      if (matches.length >= maxResults) {
+        truncated = true;
+        break;
+      }
+      matches.push(entry.relativePath);
+    }
+
+    return {
+      success: true,
+      output: this.formatList(matches, truncated, `No files match ${pattern}`),
+      metadata: { count: matches.length, truncated },
+    };
+  }
+
+  private async grepFiles(
+    root: string,
+    pattern: string,
+    include: string | undefined,
+    caseSensitive: boolean,
+    maxResults: number,
+    signal?: AbortSignal
+  ): Promise<ToolExecutionResult> {
+    // An invalid pattern throws a SyntaxError that is reported as the tool error
+    const regex = new RegExp(pattern, caseSensitive ? '' : 'i');
+
+    const matches: string[] = [];
+    const files = new Set<string>();
+    let truncated = false;
+
+    walk: for await (const entry of walkProject(this.baseDir, root, { signal })) {
+      if (entry.isDirectory || (include && !matchesGlob(this.relativeToRoot(root, entry), include))) {
+        continue;
+      }
+      // Never read secrets or files that links point at outside the project
+      if (!this.sandbox.isAllowed(entry.absolutePath)) {
+        continue;
+      }
+
+      const content = await this.readText(entry.absolutePath);
+      if (content === null) {
+        continue;
+      }
+
+      const lines = content.split('\n');
+      for (let i = 0; i < lines.length; i++) {
+        if (!regex.test(lines[i])) {
+          continue;
+        }
+        if (matches.length >= maxResults) {
+          truncated = true;
+          break walk;
+        }
+        files.add(entry.relativePath);
+        matches.push(`${entry.relativePath}:${i + 1}: ${this.truncateLine(lines[i].trim())}`);
+      }
+    }
+
+    return {
+      success: true,
+      output: this.formatList(matches, truncated, `No matches for ${pattern}`),
+      metadata: { count: matches.length, files: files.size, truncated },
+    };
+  }
+
+  private async listTree(root: string, maxDepth: number, signal?: AbortSignal): Promise<ToolExecutionResult> {
+    const lines: string[] = [];
+    let truncated = false;
+
+    for await (const entry of walkProject(this.baseDir, root, { maxDepth, signal })) {
+      if (lines.length >= MAX_TREE_ENTRIES) {
+        truncated = true;
+        break;
+      }
+      const name = path.posix.basename(entry.relativePath);
+      lines.push(`${'  '.repeat(entry.depth)}${name}${entry.isDirectory ? '/' : ''}`);
+    }
+
+    return {
+      success: true,
+      output: this.formatList(lines, truncated, 'Directory is empty'),
+      metadata: { count: lines.length, truncated },
+    };
+  }
+
+  /**
+   * Path of an entry relative to the search root, which is what globs match against
+   */
+  private relativeToRoot(root: string, entry: ProjectEntry): string {
+    return path.relative(root, entry.absolutePath).split(path.sep).join('/');
+  }
+
+  /**
+   * Read a file as text, or null if it is too large or looks binary
+   */
+  private async readText(filePath: string): Promise<string | null> {
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (!stat.isFile() || stat.size > MAX_SEARCH_FILE_SIZE) {
+        return null;
+      }
+      const buffer = await fs.promises.readFile(filePath);
+      if (buffer.subarray(0, 8000).includes(0)) {
+        return null;
+      }
+      return buffer.toString('utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  private truncateLine(line: string): string {
+    return line.length > MAX_MATCH_LINE_LENGTH ? `${line.substring(0, MAX_MATCH_LINE_LENGTH)}…` : line;
+  }
+
+  private formatList(items: string[], truncated: boolean, emptyMessage: string): string {
+    if (items.length === 0) {
+      return emptyMessage;
+    }
+    const output = items.join('\n');
+    return truncated ? `${output}\n… results truncated at ${items.length}; narrow the search` : output;
+  }
+}
@@ -0,0 +1,67 @@
+import { compareWithBaseline, isNewFailure, newDiagnostics } from './baseline';
+import { Diagnostic, VerificationCheckResult } from '../../shared/types/task';
+
+function diagnostic(message: string, line: number = 1): Diagnostic {
+  return { source: 'tsc', severity: 'error', file: 'src/a.ts', line, rule: 'TS2322', message };
+}
+
+function result(overrides: Partial<VerificationCheckResult>): VerificationCheckResult {
+  return {
+    name: 'Type check',
+    kind: 'typecheck',
+    command: 'npm run typecheck',
+    passed: false,
+    exitCode: 2,
+    duration: 100,
+    failure: 'Type check failed',
+    ...overrides,
+  };
+}
+
+describe('newDiagnostics', () => {
+  it('ignores line moves but counts repeated problems', () => {
+    const before = [diagnostic('Bad type', 3)];
+    expect(newDiagnostics([diagnostic('Bad type', 10)], before)).toEqual([]);
+    expect(newDiagnostics([diagnostic('Bad type', 3), diagnostic('Bad type', 20)], before)).toEqual([
+      diagnostic('Bad type', 20),
+    ]);
+    expect(newDiagnostics([diagnostic('Other')], before)).toEqual([diagnostic('Other')]);
+  });
+});
+
+describe('compareWithBaseline', () => {
+  it('leaves passing checks and checks without a failing baseline alone', () => {
+    const passed = result({ passed: true, exitCode: 0 });
+    expect(compareWithBaseline(passed, result({}))).toBe(passed);
+
+    const failed = result({});
+    expect(compareWithBaseline(failed)).toBe(failed);
+    expect(compareWithBaseline(failed, result({ passed: true, exitCode: 0 }))).toBe(failed);
+  });
+
+  it('marks a failure with only old problems as preexisting', () => {
+    const compared = compareWithBaseline(
+      result({ diagnostics: [diagnostic('Bad type', 7)] }),
+      result({ diagnostics: [diagnostic('Bad type', 5)] })
+    );
+    expect(compared.preexisting).toBe(true);
+    expect(isNewFailure(compared)).toBe(false);
+  });
+
+  it('keeps only the new problems of a failure', () => {
+    const compared = compareWithBaseline(
+      result({ diagnostics: [diagnostic('Bad type'), diagnostic('New problem', 9)], failure: 'Type check failed\n…' }),
+      result({ diagnostics: [diagnostic('Bad type')] })
+    );
+    expect(compared.preexisting).toBeUndefined();
+    expect(compared.diagnostics).toEqual([diagnostic('New problem', 9)]);
+    expect(compared.failure).toBe('Type check failed\nNew since before the changes:\nsrc/a.ts:9 [tsc TS2322] New problem');
+    expect(isNewFailure(compared)).toBe(true);
+  });
+
+  it('compares exit codes when there are no problems to compare', () => {
+    expect(compareWithBaseline(result({}), result({})).preexisting).toBe(true);
+    expect(compareWithBaseline(result({ exitCode: 1 }), result({})).preexisting).toBeUndefined();
+    expect(compareWithBaseline(result({}), result({ diagnostics: [diagnostic('Bad type')] })).preexisting).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Check Baseline - Tell failures the run caused from ones that were already there
+ *
+ * The checks run once before the first change. Afterwards, a check that
+ * failed back then only counts as failed if it reports problems it did not
+ * report before; a project whose lint or test script is already broken does
+ * not fail every run.
+ */
+
+import { Diagnostic, VerificationCheckResult } from '../../shared/types/task';
+import { formatDiagnostics } from '../diagnostics';
+
+/**
+ * Line and column are left out: edits above a problem move it without changing it
+ */
+function diagnosticKey(diagnostic: Diagnostic): string {
+  return [diagnostic.source, diagnostic.file, diagnostic.rule, diagnostic.test, diagnostic.message].join('|');
+}
+
+/**
+ * Diagnostics in `current` beyond those in `baseline`; a problem reported
+ * twice now and once before counts once
+ */
+export function newDiagnostics(current: Diagnostic[], baseline: Diagnostic[]): Diagnostic[] {
+  const remaining = new Map<string, number>();
+  for (const diagnostic of baseline) {
+    const key = diagnosticKey(diagnostic);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  }
+
+  return current.filter((diagnostic) => {
+    const key = diagnosticKey(diagnostic);
+    const count = remaining.get(key) || 0;
+    if (count === 0) return true;
+    remaining.set(key, count - 1);
+    return false;
+  });
+}
+
+/**
+ * A failed check's result, judged against the same check before the run.
+ * Without parsed problems on both sides, failing with the same exit code
+ * counts as the same failure.
+ */
+export function compareWithBaseline(
+  result: VerificationCheckResult,
+  baseline?: VerificationCheckResult
+): VerificationCheckResult {
+  if (result.passed || !baseline || baseline.passed) {
+    return result;
+  }
+
+  if (result.diagnostics && baseline.diagnostics) {
+    const added = newDiagnostics(result.diagnostics, baseline.diagnostics);
+    if (added.length === 0) {
+      return { ...result, preexisting: true };
+    }
+    // Only what the run introduced goes to the repair
+    return {
+      ...result,
+      diagnostics: added,
+      failure: `${result.failure?.split('\n')[0] || ''}\nNew since before the changes:\n${formatDiagnostics(added)}`,
+    };
+  }
+
+  if (!result.diagnostics && !baseline.diagnostics && result.exitCode === baseline.exitCode) {
+    return { ...result, preexisting: true };
+  }
+  return result;
+}
+
+/**
+ * Whether a check fails because of the run
+ */
+export function isNewFailure(result: VerificationCheckResult): boolean {
+  return !result.passed && !result.preexisting;
+}
@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { detectChecks } from './detect';
+
+describe('detectChecks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'detect-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, file), content);
+    }
+  }
+
+  it('uses package.json scripts with the project package manager', async () => {
+    write({
+      'package.json': JSON.stringify({ scripts: { typecheck: 'tsc --noEmit', lint: 'eslint .', test: 'jest' } }),
+      'pnpm-lock.yaml': '',
+    });
+    expect(await detectChecks(dir)).toEqual([
+      { kind: 'typecheck', command: 'pnpm run typecheck' },
+      { kind: 'lint', command: 'pnpm run lint' },
+      { kind: 'test', command: 'pnpm test' },
+    ]);
+  });
+
+  it('falls back to tsc for TypeScript projects and skips the placeholder test script', async () => {
+    write({
+      'package.json': JSON.stringify({
+        scripts: { test: 'echo "Error: no test specified" && exit 1' },
+        devDependencies: { typescript: '^5.0.0' },
+      }),
+      'tsconfig.json': '{}',
+    });
+    expect(await detectChecks(dir)).toEqual([{ kind: 'typecheck', command: 'npx --no-install tsc --noEmit' }]);
+  });
+
+  it('finds no checks in an unreadable package.json', async () => {
+    write({ 'package.json': '{ not json' });
+    expect(await detectChecks(dir)).toEqual([]);
+  });
+
+  it('detects Python tools from the project manifests', async () => {
+    write({ 'pyproject.toml': '[tool.mypy]\n[tool.ruff]\n', 'pytest.ini': '' });
+    expect(await detectChecks(dir)).toEqual([
+      { kind: 'typecheck', command: 'mypy .' },
+      { kind: 'lint', command: 'ruff check .' },
+      { kind: 'test', command: 'pytest' },
+    ]);
+  });
+
+  it('detects Go and Rust projects', async () => {
+    write({ 'go.mod': 'module example.com/app\n' });
+    expect((await detectChecks(dir)).map((check) => check.command)).toEqual([
+      'go build ./...',
+      'go vet ./...',
+      'go test ./...',
+    ]);
+
+    fs.unlinkSync(path.join(dir, 'go.mod'));
+    write({ 'Cargo.toml': '[package]\n' });
+    expect((await detectChecks(dir)).map((check) => check.command)).toEqual(['cargo check', 'cargo test']);
+  });
+
+  it('finds nothing in an unknown project', async () => {
+    expect(await detectChecks(dir)).toEqual([]);
+  });
+});
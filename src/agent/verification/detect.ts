@@ -0,0 +1,100 @@
+/**
+ * Check Detection - Work out how a project is type-checked, linted and tested
+ *
+ * Only manifests in the working directory itself are read; projects laid out
+ * differently can list their checks in `agent.verification.checks`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { VerificationCheck } from '../../shared/types/config';
+import { packageRunner } from '../repo-context';
+
+const TYPECHECK_SCRIPTS = ['typecheck', 'type-check', 'check-types', 'tsc'];
+
+export async function detectChecks(workingDirectory: string): Promise<VerificationCheck[]> {
+  const read = async (file: string): Promise<string | null> => {
+    try {
+      return await fs.promises.readFile(path.join(workingDirectory, file), 'utf-8');
+    } catch {
+      return null;
+    }
+  };
+
+  const packageJson = await read('package.json');
+  if (packageJson !== null) {
+    return detectNodeChecks(workingDirectory, packageJson, (await read('tsconfig.json')) !== null);
+  }
+
+  const pythonManifests = await Promise.all(['pyproject.toml', 'requirements.txt', 'setup.py', 'setup.cfg'].map(read));
+  if (pythonManifests.some((content) => content !== null)) {
+    return detectPythonChecks(pythonManifests.join('\n'), (await read('pytest.ini')) !== null);
+  }
+
+  if ((await read('go.mod')) !== null) {
+    return [
+      { kind: 'typecheck', command: 'go build ./...' },
+      { kind: 'lint', command: 'go vet ./...' },
+      { kind: 'test', command: 'go test ./...' },
+    ];
+  }
+
+  if ((await read('Cargo.toml')) !== null) {
+    return [
+      { kind: 'typecheck', command: 'cargo check' },
+      { kind: 'test', command: 'cargo test' },
+    ];
+  }
+
+  return [];
+}
+
+function detectNodeChecks(workingDirectory: string, content: string, hasTsconfig: boolean): VerificationCheck[] {
+  let pkg: any;
+  try {
+    pkg = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const runner = packageRunner(workingDirectory);
+  const scripts: Record<string, string> = pkg.scripts || {};
+  const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+  const checks: VerificationCheck[] = [];
+
+  const typecheckScript = TYPECHECK_SCRIPTS.find((script) => scripts[script]);
+  if (typecheckScript) {
+    checks.push({ kind: 'typecheck', command: `${runner} run ${typecheckScript}` });
+  } else if (hasTsconfig && dependencies.typescript) {
+    checks.push({ kind: 'typecheck', command: 'npx --no-install tsc --noEmit' });
+  }
+
+  if (scripts.lint) {
+    checks.push({ kind: 'lint', command: `${runner} run lint` });
+  }
+
+  // npm init's placeholder fails on purpose
+  if (scripts.test && !/no test specified/.test(scripts.test)) {
+    checks.push({ kind: 'test', command: `${runner} test` });
+  }
+
+  return checks;
+}
+
+function detectPythonChecks(content: string, hasPytestIni: boolean): VerificationCheck[] {
+  const checks: VerificationCheck[] = [];
+
+  if (/\bmypy\b/i.test(content)) {
+    checks.push({ kind: 'typecheck', command: 'mypy .' });
+  }
+  if (/\bruff\b/i.test(content)) {
+    checks.push({ kind: 'lint', command: 'ruff check .' });
+  } else if (/\bflake8\b/i.test(content)) {
+    checks.push({ kind: 'lint', command: 'flake8' });
+  }
+  if (/\bpytest\b/i.test(content) || hasPytestIni) {
+    checks.push({ kind: 'test', command: 'pytest' });
+  }
+
+  return checks;
+}
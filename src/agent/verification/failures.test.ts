@@ -0,0 +1,44 @@
+import { describeFailedChecks, extractFailure } from './failures';
+
+describe('extractFailure', () => {
+  it('keeps short output whole', () => {
+    expect(extractFailure('\nline one\nline two\n')).toBe('line one\nline two');
+  });
+
+  it('keeps error lines with their context and the summary of long output', () => {
+    const lines = Array.from({ length: 100 }, (_, i) => `progress ${i}`);
+    lines[20] = 'Error: expected 3';
+    lines[21] = '  received -1';
+    lines[80] = 'FAIL src/math.test.ts';
+
+    const failure = extractFailure(lines.join('\n')).split('\n');
+    expect(failure.slice(0, 6)).toEqual(['…', 'Error: expected 3', '  received -1', 'progress 22', 'progress 23', '…']);
+    expect(failure).toContain('FAIL src/math.test.ts');
+    expect(failure.slice(-10)).toEqual(lines.slice(-10));
+    expect(failure).not.toContain('progress 50');
+  });
+
+  it('shortens very long output', () => {
+    const failure = extractFailure('x'.repeat(10000));
+    expect(failure).toHaveLength(6000 + '\n… (output shortened)'.length);
+    expect(failure.endsWith('… (output shortened)')).toBe(true);
+  });
+});
+
+describe('describeFailedChecks', () => {
+  it('writes one section per check', () => {
+    const text = describeFailedChecks([
+      {
+        name: 'Tests',
+        kind: 'test',
+        command: 'npm test',
+        passed: false,
+        exitCode: 1,
+        duration: 10,
+        failure: 'FAIL src/a.test.ts',
+      },
+      { name: 'Lint', kind: 'lint', command: 'npm run lint', passed: false, exitCode: 2, duration: 10 },
+    ]);
+    expect(text).toBe('### Tests (`npm test`, exit code 1)\nFAIL src/a.test.ts\n\n### Lint (`npm run lint`, exit code 2)');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Check Failures - Boil a failed check's output down to what needs fixing
+ */
+
+import { VerificationCheckResult } from '../../shared/types/task';
+import { ERROR_LINE } from '../execution';
+
+const MAX_FAILURE_LINES = 60;
+const CONTEXT_LINES = 3; // Kept after each error line: expected/received values, code frames
+const SUMMARY_LINES = 10;
+const MAX_FAILURE_CHARS = 6000;
+
+/**
+ * Short output is kept whole. Longer output keeps its error lines, each with
+ * the few lines that follow it, and the last lines, where most tools print
+ * their summary.
+ */
+export function extractFailure(output: string): string {
+  const lines = output.trim().split('\n');
+  if (lines.length <= MAX_FAILURE_LINES) {
+    return clip(lines.join('\n'));
+  }
+
+  // Error lines first, leaving room for the summary at the end
+  const keep = new Set<number>();
+  for (let index = 0; index < lines.length && keep.size < MAX_FAILURE_LINES - SUMMARY_LINES; index++) {
+    if (ERROR_LINE.test(lines[index])) {
+      for (let i = index; i <= Math.min(index + CONTEXT_LINES, lines.length - 1); i++) {
+        keep.add(i);
+      }
+    }
+  }
+  for (let i = lines.length - SUMMARY_LINES; i < lines.length; i++) {
+    keep.add(i);
+  }
+
+  const selected: string[] = [];
+  let previous = -1;
+  for (const index of [...keep].sort((a, b) => a - b)) {
+    if (index > previous + 1) {
+      selected.push('…');
+    }
+    selected.push(lines[index]);
+    previous = index;
+  }
+  return clip(selected.join('\n'));
+}
+
+/**
+ * Failed checks as one prompt section each
+ */
+export function describeFailedChecks(checks: VerificationCheckResult[]): string {
+  return checks
+    .map((check) => `### ${check.name} (\`${check.command}\`, exit code ${check.exitCode})\n${check.failure || ''}`.trim())
+    .join('\n\n');
+}
+
+function clip(text: string): string {
+  return text.length > MAX_FAILURE_CHARS ? `${text.substring(0, MAX_FAILURE_CHARS)}\n… (output shortened)` : text;
+}
@@ -0,0 +1,196 @@
+/**
+ * Verification - Check that the project still builds and passes its tests
+ *
+ * After a run changes files, the configured or detected checks (type-check,
+ * lint, test) run through the command tool. Failures go back to the agent for
+ * a bounded number of repair rounds, so a finished run means the checks pass,
+ * not just that every tool call returned. Checks that already failed before
+ * the run only count with problems the run introduced.
+ */
+
+import { PlanStep, VerificationCheckResult, VerificationResult } from '../../shared/types/task';
+import { VerificationCheck, VerificationConfig } from '../../shared/types/config';
+import { TOOL_NAMES, DEFAULT_MAX_REPAIR_ROUNDS } from '../../shared/constants';
+import { AgentContext, addLog, setStepStatus, throwIfCancelled } from '../context';
+import { Executor } from '../executor';
+import { detectChecks } from './detect';
+import { extractFailure } from './failures';
+import { formatDiagnostics } from '../diagnostics';
+import { compareWithBaseline, isNewFailure } from './baseline';
+
+export { detectChecks } from './detect';
+export { extractFailure, describeFailedChecks } from './failures';
+export { newDiagnostics, compareWithBaseline, isNewFailure } from './baseline';
+
+/**
+ * Makes changes meant to fix the failed checks; they run again afterwards
+ */
+export type RepairHandler = (failed: VerificationCheckResult[], round: number) => Promise<void>;
+
+export class Verifier {
+  private baseline?: Map<string, VerificationCheckResult>; // By checkKey
+
+  constructor(
+    private executor: Executor,
+    private config: VerificationConfig = {},
+    private allowShellCommands: boolean = true
+  ) {}
+
+  /**
+   * Run the checks before anything changes, to know which already fail. A
+   * baseline that cannot be taken only means every failure counts later.
+   */
+  async recordBaseline(context: AgentContext): Promise<void> {
+    if (this.config.enabled === false || !this.allowShellCommands) {
+      return;
+    }
+
+    try {
+      const checks = await this.getChecks(context);
+      if (checks.length === 0) {
+        return;
+      }
+
+      addLog(context, 'info', 'Running checks before the first change', {
+        checks: checks.map((check) => check.command),
+      });
+      const results = await this.runChecks(checks, context, 'baseline');
+      this.baseline = new Map(results.map((result, index) => [checkKey(checks[index]), result]));
+
+      const failing = results.filter((result) => !result.passed);
+      if (failing.length > 0) {
+        addLog(context, 'warn', `${failing.length} check(s) already fail before any change`, {
+          checks: failing.map((check) => check.name),
+        });
+      }
+    } catch (error: any) {
+      throwIfCancelled(context);
+      addLog(context, 'warn', `Could not run checks before the first change: ${error.message}`);
+    }
+  }
+
+  /**
+   * Without `repair`, failing checks are reported as they are
+   */
+  async verify(context: AgentContext, repair?: RepairHandler): Promise<VerificationResult> {
+    if (this.config.enabled === false) {
+      return this.skip(context, 'Verification is disabled');
+    }
+    if (context.filesModified.length === 0) {
+      return this.skip(context, 'No files were changed');
+    }
+    if (!this.allowShellCommands) {
+      return this.skip(context, 'Shell commands are disabled, so checks cannot run');
+    }
+
+    const checks = await this.getChecks(context);
+    if (checks.length === 0) {
+      return this.skip(context, 'No type-check, lint or test commands found');
+    }
+
+    addLog(context, 'info', 'Phase 4: Verification', { checks: checks.map((check) => check.command) });
+
+    const maxRounds = Math.max(0, this.config.maxRepairRounds ?? DEFAULT_MAX_REPAIR_ROUNDS);
+    let results = await this.runChecks(checks, context, 0);
+    let rounds = 0;
+
+    while (repair && results.some(isNewFailure) && rounds < maxRounds) {
+      rounds++;
+      const failed = results.filter(isNewFailure);
+      addLog(context, 'warn', `${failed.length} check(s) failed, repair round ${rounds}/${maxRounds}`, {
+        checks: failed.map((check) => check.name),
+      });
+
+      let repaired = true;
+      try {
+        await repair(failed, rounds);
+      } catch (error: any) {
+        throwIfCancelled(context);
+        addLog(context, 'error', `Repair round ${rounds} failed: ${error.message}`);
+        repaired = false;
+      }
+
+      // Even a repair that gave up halfway may have changed files
+      results = await this.runChecks(checks, context, rounds);
+      if (!repaired) break;
+    }
+
+    const passed = !results.some(isNewFailure);
+    if (passed) {
+      addLog(context, 'info', 'All checks passed', {
+        repairRounds: rounds,
+        alreadyFailing: results.filter((result) => result.preexisting).map((check) => check.name),
+      });
+    } else {
+      addLog(context, 'error', 'Checks still fail', {
+        checks: results.filter(isNewFailure).map((check) => check.name),
+      });
+    }
+
+    return { passed, repairRounds: rounds, checks: results };
+  }
+
+  private async getChecks(context: AgentContext): Promise<VerificationCheck[]> {
+    return this.config.checks?.length ? this.config.checks : detectChecks(context.workingDirectory);
+  }
+
+  /**
+   * Run every check, even after one fails, so a repair sees all the problems.
+   * After the baseline, results are judged against it.
+   */
+  private async runChecks(
+    checks: VerificationCheck[],
+    context: AgentContext,
+    round: number | 'baseline'
+  ): Promise<VerificationCheckResult[]> {
+    const results: VerificationCheckResult[] = [];
+
+    for (const [index, check] of checks.entries()) {
+      const name = check.name || check.kind;
+      const step: PlanStep = {
+        stepId: `verify-${round}-${index}`,
+        description: `${round === 'baseline' ? 'Check before changes' : 'Verify'} ${name}: ${check.command}`,
+        tool: TOOL_NAMES.COMMAND,
+        params: { command: check.command, cwd: check.cwd },
+        dependencies: [],
+        status: 'pending',
+      };
+
+      setStepStatus(context, step, 'in-progress');
+      const result = await this.executor.executeStep(step, context);
+      throwIfCancelled(context);
+      setStepStatus(context, step, result.success ? 'completed' : 'failed');
+
+      const diagnostics = result.metadata?.diagnostics;
+      const checkResult: VerificationCheckResult = {
+        name,
+        kind: check.kind,
+        command: check.command,
+        passed: result.success,
+        exitCode: result.metadata?.exitCode ?? (result.success ? 0 : 1),
+        duration: result.metadata?.duration || 0,
+        failure: result.success
+          ? undefined
+          : diagnostics
+            ? `${result.error}\n${formatDiagnostics(diagnostics)}`
+            : extractFailure(`${result.error || ''}\n${result.output}`),
+        diagnostics,
+        logFile: result.metadata?.logFile,
+      };
+      results.push(
+        round === 'baseline' ? checkResult : compareWithBaseline(checkResult, this.baseline?.get(checkKey(check)))
+      );
+    }
+
+    return results;
+  }
+
+  private skip(context: AgentContext, reason: string): VerificationResult {
+    addLog(context, 'info', `Verification skipped: ${reason}`);
+    return { passed: true, skipped: reason, repairRounds: 0, checks: [] };
+  }
+}
+
+function checkKey(check: VerificationCheck): string {
+  return `${check.cwd || ''}|${check.command}`;
+}
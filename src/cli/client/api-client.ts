@@ -6,6 +6,11 @@ import axios, { AxiosInstance } from 'axios';
 import FormData from 'form-data';
 import * as fs from 'fs';
 import { loadConfig } from '../../shared/utils/config-loader';
+import { DiffSelection } from '../../shared/types/task';
+import { TaskEvent } from '../../shared/types/events';
+import { UsageGroupBy, UsageReport, UsageSummary } from '../../shared/types/usage';
+
+const MAX_STREAM_RECONNECTS = 5;
 
 export interface TranscribeResponse {
   text: string;
@@ -25,6 +30,7 @@ export interface CodeGenRequest {
   options?: {
     autonomous: boolean;
     maxIterations: number;
+    mode?: 'plan' | 'tool-use';
   };
 }
 
@@ -50,6 +56,21 @@ export interface TaskStatusResponse {
   };
   result?: any;
   error?: string;
+  usage?: UsageSummary;
+}
+
+export interface RevertResponse {
+  taskId: string;
+  restoredFiles: string[];
+}
+
+export interface UsageQuery {
+  userId?: string;
+  sessionId?: string;
+  taskId?: string;
+  since?: string;
+  until?: string;
+  groupBy?: UsageGroupBy;
 }
 
 export class MikasaAPIClient {
@@ -100,6 +121,42 @@ export class MikasaAPIClient {
     return response.data;
   }
 
+  /**
+   * Follow a task's event stream until `until` returns true for an event.
+   * Reconnects after dropped connections without losing events. Pass the
+   * returned event ID as `lastEventId` to resume later without replaying
+   * events already seen.
+   */
+  async watchTask(
+    taskId: string,
+    onEvent: (event: TaskEvent) => void,
+    until: (event: TaskEvent) => boolean,
+    lastEventId: number = 0
+  ): Promise<number> {
+    let failures = 0;
+
+    for (;;) {
+      try {
+        const done = await this.readEventStream(taskId, lastEventId, (id, event) => {
+          if (id !== undefined) lastEventId = id;
+          failures = 0;
+          onEvent(event);
+          return until(event);
+        });
+
+        if (done) {
+          return lastEventId;
+        }
+      } catch (error) {
+        if (++failures > MAX_STREAM_RECONNECTS) {
+          throw error;
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+
   async listModels(): Promise<string[]> {
     const response = await this.client.get('/api/models');
     return response.data.models;
@@ -130,7 +187,92 @@ export class MikasaAPIClient {
     return response.data;
   }
 
-  async applyChanges(taskId: string): Promise<void> {
-    await this.client.post(`/api/tasks/${taskId}/apply`);
+  async applyChanges(taskId: string, planHash: string, selection?: DiffSelection): Promise<void> {
+    await this.client.post(`/api/tasks/${taskId}/apply`, { planHash, selection });
+  }
+
+  /**
+   * Read one SSE connection. Resolves true once the handler asks to stop,
+   * false if the server closed the stream first.
+   */
+  private async readEventStream(
+    taskId: string,
+    lastEventId: number,
+    handle: (id: number | undefined, event: TaskEvent) => boolean
+  ): Promise<boolean> {
+    const response = await this.client.get(`/api/tasks/${taskId}/events`, {
+      responseType: 'stream',
+      timeout: 0, // The stream stays open for the whole task
+      headers: lastEventId ? { 'Last-Event-ID': String(lastEventId) } : {},
+    });
+
+    const stream = response.data;
+    stream.setEncoding('utf-8');
+
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+
+      stream.on('data', (chunk: string) => {
+        buffer += chunk;
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const message = parseServerSentEvent(buffer.substring(0, boundary));
+          buffer = buffer.substring(boundary + 2);
+
+          if (message && handle(message.id, message.event)) {
+            stream.destroy();
+            resolve(true);
+            return;
+          }
+        }
+      });
+
+      stream.on('end', () => resolve(false));
+      stream.on('error', reject);
+    });
+  }
+
+  async cancelTask(taskId: string): Promise<void> {
+    await this.client.post(`/api/tasks/${taskId}/cancel`);
+  }
+
+  async answerApproval(taskId: string, approvalId: string, approved: boolean): Promise<void> {
+    await this.client.post(`/api/tasks/${taskId}/approval`, { approvalId, approved });
+  }
+
+  async answerQuestion(taskId: string, questionId: string, answer: string): Promise<void> {
+    await this.client.post(`/api/tasks/${taskId}/answer`, { questionId, answer });
+  }
+
+  async getUsage(query: UsageQuery): Promise<UsageReport> {
+    const response = await this.client.get('/api/usage', { params: query });
+    return response.data;
+  }
+
+  async revertTask(taskId: string, force: boolean = false): Promise<RevertResponse> {
+    const response = await this.client.post(`/api/tasks/${taskId}/revert`, { force });
+    return response.data;
+  }
+}
+
+function parseServerSentEvent(block: string): { id?: number; event: TaskEvent } | null {
+  let id: number | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) continue; // Comment, e.g. heartbeat
+    if (line.startsWith('id:')) id = parseInt(line.substring(3).trim(), 10);
+    if (line.startsWith('data:')) data.push(line.substring(5).trimStart());
+  }
+
+  if (data.length === 0) {
+    return null;
+  }
+
+  try {
+    return { id, event: JSON.parse(data.join('\n')) };
+  } catch {
+    return null;
   }
 }
@@ -12,6 +12,7 @@ const SESSION_FILE = path.join(os.tmpdir(), '.mikasa-session');
 export class SessionManager {
   private sessionId: string;
   private userId: string;
+  private lastTaskId?: string;
 
   constructor() {
     this.userId = process.env.USER_ID || os.userInfo().username;
@@ -26,6 +27,7 @@ export class SessionManager {
         // Check if session is still valid (less than 24 hours old)
         const sessionAge = Date.now() - new Date(sessionData.timestamp).getTime();
         if (sessionAge < 24 * 60 * 60 * 1000) {
+          this.lastTaskId = sessionData.lastTaskId;
           return sessionData.sessionId;
         }
       } catch (error) {
@@ -54,6 +56,19 @@ export class SessionManager {
 
   resetSession(): void {
     this.sessionId = generateSessionId();
+    this.lastTaskId = undefined;
+    this.saveSession();
+  }
+
+  /**
+   * Last task in this session that changed files, used by `mikasa undo`
+   */
+  getLastTaskId(): string | undefined {
+    return this.lastTaskId;
+  }
+
+  setLastTaskId(taskId: string): void {
+    this.lastTaskId = taskId;
     this.saveSession();
   }
 
@@ -61,6 +76,7 @@ export class SessionManager {
     try {
       const sessionData = {
         sessionId: this.sessionId,
+        lastTaskId: this.lastTaskId,
         timestamp: new Date().toISOString(),
       };
       fs.writeFileSync(SESSION_FILE, JSON.stringify(sessionData), 'utf-8');
@@ -6,5 +6,7 @@ export { initCommand } from './init';
 export { voiceCommand } from './voice';
 export { runCommand } from './run';
 export { statusCommand } from './status';
+export { undoCommand } from './undo';
+export { usageCommand } from './usage';
 export { modelListCommand, modelSetCommand } from './model';
 export { interactiveCommand } from './interactive';
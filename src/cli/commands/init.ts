@@ -45,12 +45,16 @@ export async function initCommand(): Promise<void> {
         maxIterations: 10,
         maxRetries: 3,
         timeout: 300000,
-        enabledTools: ['file', 'command', 'git'],
+        enabledTools: ['file', 'command', 'git', 'search', 'code_search', 'process', 'ask_user'],
         safety: {
           allowShellCommands: true,
           allowGitPush: true,
           allowFileDelete: false,
         },
+        verification: {
+          enabled: true,
+          maxRepairRounds: 2,
+        },
       },
       database: {
         uri: 'mongodb://localhost:27017',
@@ -5,10 +5,18 @@
 
 import * as readline from 'readline';
 import { Logger } from '../ui/logger';
+import { formatFileChanges } from '../ui/file-changes';
+import { formatVerification } from '../ui/verification';
 import { Spinner } from '../ui/spinner';
-import { Prompts } from '../ui/prompts';
+import { EventView, isTaskFinished } from '../ui/event-view';
+import { ApprovalPrompt } from '../ui/approval-prompt';
+import { QuestionPrompt } from '../ui/question-prompt';
 import { MikasaAPIClient } from '../client/api-client';
 import { SessionManager } from '../client/session';
+import { reviewPlan } from './review-plan';
+
+// Cancels the task being watched; only set while a task is running
+let cancelActiveTask: (() => void) | null = null;
 
 export async function interactiveCommand(initialPrompt?: string, options: any = {}): Promise<void> {
   const sessionManager = new SessionManager();
@@ -95,8 +103,12 @@ export async function interactiveCommand(initialPrompt?: string, options: any =
         resolve();
       });
 
-      // Handle Ctrl+C gracefully
+      // Handle Ctrl+C gracefully: cancel the running task, if any
       rl.on('SIGINT', () => {
+        if (cancelActiveTask) {
+          cancelActiveTask();
+          return;
+        }
         Logger.info('\n(To exit, type "exit" or press Ctrl+D)');
         rl.prompt();
       });
@@ -131,133 +143,93 @@ async function processPrompt(
       model: options.model,
       context: {
         workingDirectory: process.cwd(),
+        files: options.file,
       },
       options: {
         autonomous: options.autonomous || false,
         maxIterations: 10,
+        mode: options.mode,
       },
     });
 
     spinner.succeed(`Task created: ${response.taskId}`);
 
-    // Poll for task completion
+    // Follow the task live until it finishes
     spinner.start('Executing task...');
-    let completed = false;
-    let lastAction = '';
-
-    while (!completed) {
-      await new Promise((resolve) => setTimeout(resolve, 2000)); // Poll every 2 seconds
-
-      const status = await apiClient.getTaskStatus(response.taskId);
-
-      if (status.progress && status.progress.currentAction !== lastAction) {
-        lastAction = status.progress.currentAction;
-        spinner.update(`${lastAction} (${status.progress.currentStep}/${status.progress.totalSteps})`);
-      }
-
-      if (status.status === 'completed') {
-        completed = true;
-        spinner.succeed('Task completed successfully!');
-
-        if (status.result) {
-          Logger.section('Results');
-
-          // If there's a plan, display it (preview mode)
-          if (status.result.plan) {
-            Logger.info('Proposed changes:');
-            Logger.newLine();
-
-            status.result.plan.steps.forEach((step: any, index: number) => {
-              Logger.log(`${index + 1}. ${step.description}`);
-              if (step.tool === 'file' && step.params) {
-                if (step.params.action === 'write') {
-                  Logger.log(`   → Create/Update: ${step.params.path}`);
-                  if (step.params.content) {
-                    const preview = step.params.content.substring(0, 100);
-                    Logger.log(`   Content preview: ${preview}${step.params.content.length > 100 ? '...' : ''}`);
-                  }
-                } else if (step.params.action === 'patch') {
-                  Logger.log(`   → Modify: ${step.params.path}`);
-                } else if (step.params.action === 'read') {
-                  Logger.log(`   → Read: ${step.params.path}`);
-                }
-              }
+    const eventView = new EventView(spinner);
+    const approvalPrompt = new ApprovalPrompt((approvalId, approved) =>
+      apiClient.answerApproval(response.taskId, approvalId, approved)
+    );
+    const questionPrompt = new QuestionPrompt((questionId, answer) =>
+      apiClient.answerQuestion(response.taskId, questionId, answer)
+    );
+    const cursor = await cancellableOnInterrupt(apiClient, response.taskId, () =>
+      apiClient.watchTask(
+        response.taskId,
+        (event) => {
+          eventView.render(event);
+          approvalPrompt.handle(event);
+          questionPrompt.handle(event);
+        },
+        isTaskFinished
+      )
+    );
+    eventView.finish();
+
+    const status = await apiClient.getTaskStatus(response.taskId);
+
+    if (status.status === 'completed') {
+      Logger.success('Task completed successfully!');
+
+      if (status.result) {
+        Logger.section('Results');
+
+        // If there's a plan, display it (preview mode)
+        if (status.result.plan) {
+          const outcome = await reviewPlan({
+            apiClient,
+            sessionManager,
+            spinner,
+            taskId: response.taskId,
+            result: status.result,
+            cursor,
+            onEvent: (event) => {
+              approvalPrompt.handle(event);
+              questionPrompt.handle(event);
+            },
+            follow: (work) => cancellableOnInterrupt(apiClient, response.taskId, work),
+          });
+
+          if (outcome === 'declined') {
+            return;
+          }
+          Logger.newLine();
+        } else {
+          // No plan means changes were already applied (shouldn't happen with preview mode)
+          if (status.result.filesModified && status.result.filesModified.length > 0) {
+            sessionManager.setLastTaskId(response.taskId);
+            Logger.info('Files modified:');
+            formatFileChanges(status.result).forEach((file: string) => {
+              Logger.log(`  - ${file}`);
             });
-
-            Logger.newLine();
-            if (status.result.plan.reasoning) {
-              Logger.log(`Reasoning: ${status.result.plan.reasoning}`);
-              Logger.newLine();
-            }
-
-            // Ask user to approve the changes
-            const applyChanges = await Prompts.confirm('Apply these code changes?', true);
-
-            if (applyChanges) {
-              spinner.start('Applying changes...');
-
-              // Call the apply endpoint
-              await apiClient.applyChanges(response.taskId);
-
-              // Wait for application to complete
-              let applied = false;
-              while (!applied) {
-                await new Promise((resolve) => setTimeout(resolve, 2000));
-                const applyStatus = await apiClient.getTaskStatus(response.taskId);
-
-                if (applyStatus.progress && applyStatus.progress.currentAction !== lastAction) {
-                  lastAction = applyStatus.progress.currentAction;
-                  spinner.update(lastAction);
-                }
-
-                if (applyStatus.progress?.currentAction === 'Changes applied') {
-                  applied = true;
-                  spinner.succeed('Changes applied successfully!');
-
-                  if (applyStatus.result?.filesModified) {
-                    Logger.newLine();
-                    Logger.info('Files modified:');
-                    applyStatus.result.filesModified.forEach((file: string) => {
-                      Logger.log(`  ✓ ${file}`);
-                    });
-                  }
-                  break;
-                } else if (applyStatus.status === 'failed') {
-                  applied = true;
-                  spinner.fail('Failed to apply changes');
-                  Logger.error(applyStatus.error || 'Unknown error');
-                  break;
-                }
-              }
-
-              Logger.newLine();
-            } else {
-              Logger.info('Changes not applied. You can review them manually.');
-              return;
-            }
-          } else {
-            // No plan means changes were already applied (shouldn't happen with preview mode)
-            if (status.result.filesModified && status.result.filesModified.length > 0) {
-              Logger.info('Files modified:');
-              status.result.filesModified.forEach((file: string) => {
-                Logger.log(`  - ${file}`);
-              });
-            }
-            if (status.result.summary) {
-              Logger.newLine();
-              Logger.log(status.result.summary);
-            }
+          }
+          formatVerification(status.result.verification).forEach((line) => Logger.log(`  ${line}`));
+          if (status.result.summary) {
             Logger.newLine();
+            Logger.log(status.result.summary);
           }
-
-          // Changes applied successfully - no need to save to database
-          // Just continue with the next prompt
+          Logger.newLine();
         }
-      } else if (status.status === 'failed') {
-        completed = true;
-        spinner.fail('Task failed');
-        Logger.error(status.error || 'Unknown error');
+
+        // Changes applied successfully - no need to save to database
+        // Just continue with the next prompt
       }
+    } else if (status.status === 'cancelled') {
+      Logger.warn('Task cancelled');
+    } else if (status.status === 'failed') {
+      Logger.error('Task failed');
+      Logger.error(status.error || 'Unknown error');
+      formatVerification(status.result?.verification).forEach((line) => Logger.log(`  ${line}`));
     }
 
     Logger.newLine();
@@ -267,6 +239,36 @@ async function processPrompt(
   }
 }
 
+/**
+ * Run `work` with Ctrl+C bound to cancelling the task on the server
+ */
+async function cancellableOnInterrupt<T>(
+  apiClient: MikasaAPIClient,
+  taskId: string,
+  work: () => Promise<T>
+): Promise<T> {
+  let requested = false;
+
+  const cancel = () => {
+    if (requested) return;
+    requested = true;
+    apiClient.cancelTask(taskId).catch((error) => {
+      Logger.error(`Failed to cancel task: ${error.response?.data?.error || error.message}`);
+    });
+  };
+
+  // The REPL's readline is paused while a task runs, so listen on the process too
+  cancelActiveTask = cancel;
+  process.on('SIGINT', cancel);
+
+  try {
+    return await work();
+  } finally {
+    process.off('SIGINT', cancel);
+    cancelActiveTask = null;
+  }
+}
+
 async function handleSlashCommand(command: string): Promise<void> {
   const cmd = command.toLowerCase();
 
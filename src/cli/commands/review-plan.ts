@@ -0,0 +1,174 @@
+/**
+ * Plan Review - Show a previewed plan and its diffs, then apply what the user approves
+ *
+ * Shared by the REPL and `mikasa run`, which both preview a task before any
+ * file on disk changes.
+ */
+
+import { Logger } from '../ui/logger';
+import { formatFileChanges } from '../ui/file-changes';
+import { formatVerification } from '../ui/verification';
+import { Spinner } from '../ui/spinner';
+import { Prompts } from '../ui/prompts';
+import { DiffView } from '../ui/diff-view';
+import { DiffReview } from '../ui/diff-review';
+import { EventView } from '../ui/event-view';
+import { DiffSelection } from '../../shared/types/task';
+import { TaskEvent } from '../../shared/types/events';
+import { MikasaAPIClient } from '../client/api-client';
+import { SessionManager } from '../client/session';
+
+export type ReviewOutcome = 'applied' | 'declined' | 'failed' | 'cancelled';
+
+export interface PlanReviewOptions {
+  apiClient: MikasaAPIClient;
+  sessionManager: SessionManager;
+  spinner: Spinner;
+  taskId: string;
+  result: any; // Result of the preview run, with its plan and diffs
+  cursor?: number; // Last event shown for the preview; the apply run's events follow it
+  onEvent?: (event: TaskEvent) => void; // Also sees the apply run's events, e.g. to answer approvals
+  follow?: <T>(work: () => Promise<T>) => Promise<T>; // Wraps following the apply run, e.g. to cancel on Ctrl+C
+}
+
+export async function reviewPlan(options: PlanReviewOptions): Promise<ReviewOutcome> {
+  const { apiClient, sessionManager, spinner, taskId, result } = options;
+  const follow = options.follow || (<T>(work: () => Promise<T>) => work());
+
+  showPlan(result);
+
+  // Ask user to approve the changes, optionally file by file and hunk by hunk
+  let applyChanges: boolean;
+  let selection: DiffSelection | undefined;
+
+  if (result.diffs && result.diffs.length > 0) {
+    const decision = await Prompts.choice('Apply these code changes?', {
+      y: 'apply all changes',
+      n: 'discard all changes',
+      r: 'review file by file and hunk by hunk',
+    });
+
+    applyChanges = decision !== 'n';
+
+    if (decision === 'r') {
+      selection = await DiffReview.review(result.diffs, process.cwd());
+      // Rejecting every hunk rejects the plan; applying nothing would still run checks and journal the task
+      if (!DiffReview.acceptsAnything(selection)) {
+        Logger.info('No file changes selected.');
+        applyChanges = false;
+      }
+    }
+  } else {
+    applyChanges = await Prompts.confirm('Apply these code changes?', true);
+  }
+
+  if (!applyChanges) {
+    Logger.info('Changes not applied. You can review them manually.');
+    return 'declined';
+  }
+
+  spinner.start('Applying changes...');
+
+  // Call the apply endpoint with the hash of the plan the user just reviewed
+  try {
+    await apiClient.applyChanges(taskId, result.planHash, selection);
+  } catch (error: any) {
+    const data = error.response?.data;
+    if (!data?.changedFiles) throw error;
+    spinner.fail('Changes not applied');
+    Logger.error(data.error);
+    data.changedFiles.forEach((file: string) => Logger.log(`  - ${file}`));
+    return 'failed';
+  }
+
+  // Follow the apply run, skipping events already shown for the preview
+  const applyView = new EventView(spinner);
+  await follow(() =>
+    apiClient.watchTask(
+      taskId,
+      (event) => {
+        applyView.render(event);
+        options.onEvent?.(event);
+      },
+      (event) =>
+        event.type === 'status' &&
+        (event.status === 'failed' ||
+          event.status === 'cancelled' ||
+          (event.status === 'completed' && event.progress.currentAction === 'Changes applied')),
+      options.cursor
+    )
+  );
+  applyView.finish();
+
+  const applyStatus = await apiClient.getTaskStatus(taskId);
+
+  if (applyStatus.status === 'completed') {
+    Logger.success('Changes applied successfully!');
+    sessionManager.setLastTaskId(taskId);
+
+    if (applyStatus.result?.filesModified) {
+      Logger.newLine();
+      Logger.info('Files modified:');
+      formatFileChanges(applyStatus.result).forEach((file: string) => {
+        Logger.log(`  ✓ ${file}`);
+      });
+    }
+    formatVerification(applyStatus.result?.verification).forEach((line) => Logger.log(`  ${line}`));
+    return 'applied';
+  }
+
+  if (applyStatus.status === 'cancelled') {
+    Logger.warn('Apply cancelled; changes made so far were rolled back');
+    return 'cancelled';
+  }
+
+  Logger.error('Failed to apply changes');
+  Logger.error(applyStatus.error || 'Unknown error');
+  formatVerification(applyStatus.result?.verification).forEach((line) => Logger.log(`  ${line}`));
+  return 'failed';
+}
+
+function showPlan(result: any): void {
+  Logger.info('Proposed changes:');
+  Logger.newLine();
+
+  result.plan.steps.forEach((step: any, index: number) => {
+    Logger.log(`${index + 1}. ${step.description}`);
+    if (step.tool === 'file' && step.params) {
+      if (step.params.action === 'write') {
+        Logger.log(`   → Create/Update: ${step.params.path}`);
+      } else if (step.params.action === 'patch') {
+        Logger.log(`   → Modify: ${step.params.path}`);
+      } else if (step.params.action === 'multi_patch') {
+        Logger.log(`   → Modify: ${step.params.path} (${step.params.edits?.length || 0} edits)`);
+      } else if (step.params.action === 'delete') {
+        Logger.log(`   → Delete: ${step.params.path}`);
+      } else if (step.params.action === 'move') {
+        Logger.log(`   → Move: ${step.params.path} → ${step.params.destination}`);
+      } else if (step.params.action === 'copy') {
+        Logger.log(`   → Copy: ${step.params.path} → ${step.params.destination}`);
+      } else if (step.params.action === 'mkdir') {
+        Logger.log(`   → Create directory: ${step.params.path}`);
+      } else if (step.params.action === 'read') {
+        Logger.log(`   → Read: ${step.params.path}`);
+      }
+    }
+  });
+
+  Logger.newLine();
+  if (result.plan.reasoning) {
+    Logger.log(`Reasoning: ${result.plan.reasoning}`);
+    Logger.newLine();
+  }
+
+  if (result.diffs && result.diffs.length > 0) {
+    Logger.section('Diff');
+    Logger.newLine();
+    DiffView.render(result.diffs);
+  }
+
+  if (result.previewFailedSteps && result.previewFailedSteps.length > 0) {
+    Logger.warn(`${result.previewFailedSteps.length} step(s) failed during preview and will likely fail when applied`);
+    Logger.newLine();
+  }
+}
@@ -3,12 +3,21 @@
  */
 
 import { Logger } from '../ui/logger';
+import { formatFileChanges } from '../ui/file-changes';
+import { formatVerification } from '../ui/verification';
 import { Spinner } from '../ui/spinner';
 import { Prompts } from '../ui/prompts';
+import { EventView, isTaskFinished } from '../ui/event-view';
+import { ApprovalPrompt } from '../ui/approval-prompt';
+import { QuestionPrompt, QuestionAsker } from '../ui/question-prompt';
 import { MikasaAPIClient } from '../client/api-client';
 import { SessionManager } from '../client/session';
+import { reviewPlan } from './review-plan';
 
-export async function runCommand(prompt: string, options: any): Promise<void> {
+/**
+ * `askQuestion` answers the agent's questions; by default they are typed in
+ */
+export async function runCommand(prompt: string, options: any, askQuestion?: QuestionAsker): Promise<void> {
   const sessionManager = new SessionManager();
   const apiClient = new MikasaAPIClient(sessionManager.getSessionId());
   const spinner = new Spinner();
@@ -44,87 +53,119 @@ export async function runCommand(prompt: string, options: any): Promise<void> {
       model: options.model,
       context: {
         workingDirectory: process.cwd(),
+        files: options.file,
       },
       options: {
         autonomous: options.autonomous || false,
         maxIterations: 10,
+        mode: options.mode,
       },
     });
 
     spinner.succeed(`Task created: ${response.taskId}`);
 
-    // Poll for task completion
+    // Follow the task live until it finishes
     spinner.start('Executing task...');
-    let completed = false;
-    let lastAction = '';
-
-    while (!completed) {
-      await new Promise((resolve) => setTimeout(resolve, 2000)); // Poll every 2 seconds
-
-      const status = await apiClient.getTaskStatus(response.taskId);
-
-      if (status.progress && status.progress.currentAction !== lastAction) {
-        lastAction = status.progress.currentAction;
-        spinner.update(`${lastAction} (${status.progress.currentStep}/${status.progress.totalSteps})`);
-      }
-
-      if (status.status === 'completed') {
-        completed = true;
-        spinner.succeed('Task completed successfully!');
-
-        if (status.result) {
-          Logger.section('Results');
+    const eventView = new EventView(spinner);
+    const approvalPrompt = new ApprovalPrompt((approvalId, approved) =>
+      apiClient.answerApproval(response.taskId, approvalId, approved)
+    );
+    const questionPrompt = new QuestionPrompt(
+      (questionId, answer) => apiClient.answerQuestion(response.taskId, questionId, answer),
+      askQuestion
+    );
+    const cursor = await apiClient.watchTask(
+      response.taskId,
+      (event) => {
+        eventView.render(event);
+        approvalPrompt.handle(event);
+        questionPrompt.handle(event);
+      },
+      isTaskFinished
+    );
+    eventView.finish();
+
+    const status = await apiClient.getTaskStatus(response.taskId);
+
+    if (status.status === 'completed') {
+      Logger.success('Task completed successfully!');
+
+      if (status.result) {
+        Logger.section('Results');
+
+        if (status.result.plan) {
+          // Preview mode: nothing is on disk until the user approves the plan
+          const outcome = await reviewPlan({
+            apiClient,
+            sessionManager,
+            spinner,
+            taskId: response.taskId,
+            result: status.result,
+            cursor,
+            onEvent: (event) => {
+              approvalPrompt.handle(event);
+              questionPrompt.handle(event);
+            },
+          });
+
+          if (outcome === 'failed') {
+            process.exit(1);
+          }
+          if (outcome !== 'applied') {
+            return;
+          }
+        } else {
+          // No plan means the changes are already on disk
           if (status.result.filesModified && status.result.filesModified.length > 0) {
+            sessionManager.setLastTaskId(response.taskId);
             Logger.info('Files modified:');
-            status.result.filesModified.forEach((file: string) => {
+            formatFileChanges(status.result).forEach((file: string) => {
               Logger.log(`  - ${file}`);
             });
           }
+          const checks = formatVerification(status.result.verification);
+          if (checks.length > 0) {
+            Logger.info('Checks:');
+            checks.forEach((line) => Logger.log(`  ${line}`));
+          }
           if (status.result.summary) {
             Logger.newLine();
             Logger.log(status.result.summary);
           }
+        }
 
-          // Ask user if they want to apply the changes
-          Logger.newLine();
-          const applyChanges = await Prompts.confirm('Apply these code changes?', true);
-
-          if (applyChanges) {
-            Logger.success('Changes applied!');
-
-            // Ask if user wants to save the conversation
-            const saveConversation = await Prompts.confirm('Save this conversation?', true);
-
-            if (saveConversation) {
-              spinner.start('Saving conversation...');
-              await apiClient.saveConversation(response.taskId, response.checkPointId);
-              spinner.succeed('Conversation saved!');
-            }
-
-            // Ask if user wants to create a PR
-            const createPR = await Prompts.confirm('Create a Pull Request?', false);
-
-            if (createPR) {
-              spinner.start('Creating Pull Request...');
-              const prResult = await apiClient.createPullRequest(response.taskId);
-              spinner.succeed('Pull Request created!');
-              Logger.success(`PR URL: ${prResult.prUrl}`);
-            }
-          } else {
-            Logger.info('Changes not applied. You can review them manually.');
-          }
+        // Ask if user wants to save the conversation
+        Logger.newLine();
+        const saveConversation = await Prompts.confirm('Save this conversation?', true);
 
-          if (status.result.prUrl) {
-            Logger.newLine();
-            Logger.success(`Pull Request: ${status.result.prUrl}`);
-          }
+        if (saveConversation) {
+          spinner.start('Saving conversation...');
+          await apiClient.saveConversation(response.taskId, response.checkPointId);
+          spinner.succeed('Conversation saved!');
+        }
+
+        // Ask if user wants to create a PR
+        const createPR = await Prompts.confirm('Create a Pull Request?', false);
+
+        if (createPR) {
+          spinner.start('Creating Pull Request...');
+          const prResult = await apiClient.createPullRequest(response.taskId);
+          spinner.succeed('Pull Request created!');
+          Logger.success(`PR URL: ${prResult.prUrl}`);
+        }
+
+        if (status.result.prUrl) {
+          Logger.newLine();
+          Logger.success(`Pull Request: ${status.result.prUrl}`);
         }
-      } else if (status.status === 'failed') {
-        completed = true;
-        spinner.fail('Task failed');
-        Logger.error(status.error || 'Unknown error');
-        process.exit(1);
       }
+    } else if (status.status === 'cancelled') {
+      Logger.warn('Task cancelled');
+    } else if (status.status === 'failed') {
+      Logger.error('Task failed');
+      Logger.error(status.error || 'Unknown error');
+      formatVerification(status.result?.verification).forEach((line) => Logger.log(`  ${line}`));
+      process.exit(1);
     }
   } catch (error: any) {
     spinner.fail('Error');
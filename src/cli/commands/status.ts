@@ -35,6 +35,13 @@ export async function statusCommand(taskId?: string): Promise<void> {
       Logger.log(`Current Action: ${status.progress.currentAction}`);
     }
 
+    if (status.usage) {
+      Logger.log(
+        `Tokens: ${status.usage.totalTokens.toLocaleString()} in ${status.usage.requests} request(s), ` +
+          `about $${status.usage.cost.toFixed(4)}`
+      );
+    }
+
     if (status.result) {
       Logger.section('Result');
       Logger.log(JSON.stringify(status.result, null, 2));
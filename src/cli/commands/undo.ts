@@ -0,0 +1,58 @@
+/**
+ * Undo Command - Revert the file changes made by a completed task
+ */
+
+import { Logger } from '../ui/logger';
+import { Spinner } from '../ui/spinner';
+import { Prompts } from '../ui/prompts';
+import { MikasaAPIClient } from '../client/api-client';
+import { SessionManager } from '../client/session';
+
+export async function undoCommand(taskId?: string, options: any = {}): Promise<void> {
+  const sessionManager = new SessionManager();
+  const apiClient = new MikasaAPIClient(sessionManager.getSessionId());
+  const spinner = new Spinner();
+
+  try {
+    Logger.header('Undo Changes');
+
+    // Default to the last task that changed files in this session
+    const targetTaskId = taskId || sessionManager.getLastTaskId();
+
+    if (!targetTaskId) {
+      Logger.warn('No task ID provided and no recent task in this session');
+      Logger.info('Usage: mikasa undo <taskId>');
+      return;
+    }
+
+    const confirmed = await Prompts.confirm(`Revert the changes made by task ${targetTaskId}?`, true);
+    if (!confirmed) {
+      Logger.info('Nothing reverted.');
+      return;
+    }
+
+    spinner.start('Reverting changes...');
+
+    const result = await apiClient.revertTask(targetTaskId, options.force || false);
+    spinner.succeed('Changes reverted');
+
+    Logger.newLine();
+    Logger.info('Files restored:');
+    result.restoredFiles.forEach((file) => {
+      Logger.log(`  ↺ ${file}`);
+    });
+  } catch (error: any) {
+    spinner.fail('Undo failed');
+
+    const data = error.response?.data;
+    Logger.error(data?.error || error.message);
+
+    if (data?.changedFiles) {
+      Logger.info('Changed since the task ran:');
+      data.changedFiles.forEach((file: string) => Logger.log(`  - ${file}`));
+      Logger.info('Run again with --force to overwrite them.');
+    }
+
+    process.exit(1);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Usage Command - Show LLM tokens and estimated cost
+ */
+
+import { Logger } from '../ui/logger';
+import { Spinner } from '../ui/spinner';
+import { MikasaAPIClient, UsageQuery } from '../client/api-client';
+import { SessionManager } from '../client/session';
+import { UsageGroupBy, UsageSummary } from '../../shared/types/usage';
+
+const GROUP_BY: UsageGroupBy[] = ['user', 'session', 'task', 'model', 'day'];
+
+export async function usageCommand(options: any = {}): Promise<void> {
+  const sessionManager = new SessionManager();
+  const apiClient = new MikasaAPIClient(sessionManager.getSessionId());
+  const spinner = new Spinner();
+
+  try {
+    Logger.header('Usage');
+
+    // Everyone's usage by user, otherwise your own by day
+    const groupBy: UsageGroupBy = options.groupBy || (options.all ? 'user' : 'day');
+    if (!GROUP_BY.includes(groupBy)) {
+      Logger.error(`--group-by must be one of: ${GROUP_BY.join(', ')}`);
+      process.exit(1);
+    }
+
+    const query: UsageQuery = {
+      userId: options.all ? undefined : sessionManager.getUserId(),
+      sessionId: options.session ? sessionManager.getSessionId() : undefined,
+      taskId: options.task,
+      since: options.since,
+      until: options.until,
+      groupBy,
+    };
+
+    spinner.start('Fetching usage...');
+    const report = await apiClient.getUsage(query);
+    spinner.stop();
+
+    if (report.total.requests === 0) {
+      Logger.info('No LLM requests recorded yet.');
+      return;
+    }
+
+    Logger.section(`By ${groupBy}`);
+    for (const group of report.groups) {
+      Logger.log(`  ${(group.key || '(none)').padEnd(28)} ${formatSummary(group)}`);
+    }
+
+    Logger.newLine();
+    Logger.log(`  ${'Total'.padEnd(28)} ${formatSummary(report.total)}`);
+
+    if (report.total.unpricedRequests > 0) {
+      Logger.newLine();
+      Logger.warn(
+        `${report.total.unpricedRequests} request(s) used a model without a price and are not in the cost; ` +
+          'add it under llm.pricing in your config'
+      );
+    }
+  } catch (error: any) {
+    spinner.fail('Error');
+    Logger.error(error.response?.data?.error || error.message);
+    process.exit(1);
+  }
+}
+
+function formatSummary(summary: UsageSummary): string {
+  const requests = `${summary.requests} req`.padStart(9);
+  const tokens = `${summary.totalTokens.toLocaleString()} tokens`.padStart(18);
+  const detail = `(${summary.promptTokens.toLocaleString()} in / ${summary.completionTokens.toLocaleString()} out)`;
+  return `${requests} ${tokens}  $${summary.cost.toFixed(4)}  ${detail}`;
+}
@@ -10,6 +10,7 @@ import { Spinner } from '../ui/spinner';
 import { Prompts } from '../ui/prompts';
 import { MikasaAPIClient } from '../client/api-client';
 import { SessionManager } from '../client/session';
+import { QuestionAsker, askInTerminal } from '../ui/question-prompt';
 import { runCommand } from './run';
 
 const recorder = require('node-record-lpcm16');
@@ -37,12 +38,7 @@ export async function voiceCommand(options: any): Promise<void> {
     const transcription = await apiClient.transcribeAudio(audioPath);
     spinner.succeed('Audio transcribed');
 
-    // Clean up audio file
-    try {
-      fs.unlinkSync(audioPath);
-    } catch (error) {
-      // Ignore cleanup errors
-    }
+    removeAudio(audioPath);
 
     if (!transcription) {
       Logger.warn('No transcription received');
@@ -59,8 +55,8 @@ export async function voiceCommand(options: any): Promise<void> {
       return;
     }
 
-    // Use the run command logic
-    await runCommand(transcription, options);
+    // Use the run command logic; the agent's questions are answered by voice too
+    await runCommand(transcription, options, createVoiceAsker(apiClient));
   } catch (error: any) {
     spinner.fail('Error');
     Logger.error(error.message);
@@ -68,6 +64,47 @@ export async function voiceCommand(options: any): Promise<void> {
   }
 }
 
+/**
+ * Answer the agent's questions by speaking. The transcription can be corrected
+ * before it is sent; if recording fails the answer is typed instead.
+ */
+function createVoiceAsker(apiClient: MikasaAPIClient): QuestionAsker {
+  return async (question) => {
+    const spinner = new Spinner();
+
+    try {
+      Logger.info('Speak your answer (Ctrl+C to stop recording)');
+      const audioPath = await recordAudio(spinner);
+
+      if (audioPath) {
+        spinner.start('Transcribing answer...');
+        const transcription = await apiClient.transcribeAudio(audioPath);
+        spinner.succeed('Answer transcribed');
+        removeAudio(audioPath);
+
+        if (transcription) {
+          // Enter sends the transcription as it is
+          return await Prompts.input('Your answer', transcription);
+        }
+      }
+      Logger.warn('No answer was recorded; type it instead');
+    } catch (error: any) {
+      spinner.fail('Voice answer failed');
+      Logger.warn(`${error.message}; type the answer instead`);
+    }
+
+    return askInTerminal(question);
+  };
+}
+
+function removeAudio(audioPath: string): void {
+  try {
+    fs.unlinkSync(audioPath);
+  } catch (error) {
+    // Ignore cleanup errors
+  }
+}
+
 async function recordAudio(spinner: Spinner): Promise<string | null> {
   return new Promise((resolve, reject) => {
     const tempDir = os.tmpdir();
@@ -92,15 +129,17 @@ async function recordAudio(spinner: Spinner): Promise<string | null> {
       resolve(audioPath);
     };
 
-    // Stop on Ctrl+C
-    process.on('SIGINT', stopRecording);
+    // Stop on Ctrl+C; afterwards Ctrl+C behaves as usual again, e.g. between questions
+    process.once('SIGINT', stopRecording);
 
     recording.stream().on('error', (err: Error) => {
+      process.removeListener('SIGINT', stopRecording);
       spinner.fail('Recording error');
       reject(err);
     });
 
     file.on('error', (err: Error) => {
+      process.removeListener('SIGINT', stopRecording);
       spinner.fail('File write error');
       reject(err);
     });
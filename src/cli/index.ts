@@ -11,6 +11,8 @@ import {
   voiceCommand,
   runCommand,
   statusCommand,
+  undoCommand,
+  usageCommand,
   modelListCommand,
   modelSetCommand,
   interactiveCommand,
@@ -19,6 +21,9 @@ import { Logger } from './ui/logger';
 
 const program = new Command();
 
+// Collects a repeatable option into an array
+const collect = (value: string, previous: string[]) => [...previous, value];
+
 program
   .name('mikasa')
   .description('AI-powered code generation CLI with voice support')
@@ -35,6 +40,8 @@ program
   .option('-p, --print', 'Print mode - execute once and exit (non-interactive)')
   .option('-m, --model <model>', 'LLM model to use')
   .option('-a, --autonomous', 'Fully autonomous mode')
+  .option('--mode <mode>', 'Agent mode: plan (JSON plan up front) or tool-use (multi-turn tool calls)')
+  .option('--file <path>', 'Pin a file into the agent context (repeatable)', collect, [])
   .option('-v, --voice', 'Use voice input')
   .action(async (promptArgs, options) => {
     try {
@@ -84,6 +91,7 @@ program
   .description('Start voice input mode')
   .option('-m, --model <model>', 'LLM model to use')
   .option('-a, --autonomous', 'Fully autonomous mode')
+  .option('--mode <mode>', 'Agent mode: plan or tool-use')
   .action(async (options) => {
     try {
       await voiceCommand(options);
@@ -106,6 +114,39 @@ program
     }
   });
 
+// Undo command
+program
+  .command('undo [taskId]')
+  .description('Revert the file changes made by a task (defaults to the last one)')
+  .option('-f, --force', 'Revert even if the files changed since the task ran')
+  .action(async (taskId, options) => {
+    try {
+      await undoCommand(taskId, options);
+    } catch (error: any) {
+      Logger.error(error.message);
+      process.exit(1);
+    }
+  });
+
+// Usage command
+program
+  .command('usage')
+  .description('Show LLM tokens and estimated cost (your own, by day, unless told otherwise)')
+  .option('--all', 'Everyone, not just you')
+  .option('--session', 'Only this session')
+  .option('--task <taskId>', 'Only one task')
+  .option('--since <date>', 'From this date, e.g. 2025-01-01')
+  .option('--until <date>', 'Before this date')
+  .option('-g, --group-by <field>', 'Group by user, session, task, model or day')
+  .action(async (options) => {
+    try {
+      await usageCommand(options);
+    } catch (error: any) {
+      Logger.error(error.message);
+      process.exit(1);
+    }
+  });
+
 // Model commands
 const model = program.command('model');
 
@@ -0,0 +1,35 @@
+/**
+ * Approval Prompt - asks the user about commands the server paused a task for
+ */
+
+import { TaskEvent } from '../../shared/types/events';
+import { Prompts } from './prompts';
+import { Logger } from './logger';
+
+export type ApprovalAnswer = (approvalId: string, approved: boolean) => Promise<void>;
+
+export class ApprovalPrompt {
+  private asked = new Set<string>();
+
+  constructor(private answer: ApprovalAnswer) {}
+
+  /**
+   * Ask once per approval; events replayed after a reconnect are ignored
+   */
+  handle(event: TaskEvent): void {
+    if (event.type !== 'approval_required' || this.asked.has(event.approval.approvalId)) {
+      return;
+    }
+    this.asked.add(event.approval.approvalId);
+    void this.ask(event.approval.approvalId);
+  }
+
+  private async ask(approvalId: string): Promise<void> {
+    const approved = await Prompts.confirm('Run this command?', false);
+    try {
+      await this.answer(approvalId, approved);
+    } catch (error: any) {
+      Logger.error(`Failed to send answer: ${error.response?.data?.error || error.message}`);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Interactive Diff Review - accept, reject or edit files and hunks (like git add -p)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileDiff, DiffHunk, DiffSelection, HunkSelection } from '../../shared/types/task';
+import { applyHunks } from '../../shared/utils/diff';
+import { DiffView } from './diff-view';
+import { Prompts } from './prompts';
+import { Logger } from './logger';
+
+export class DiffReview {
+  static async review(diffs: FileDiff[], workingDirectory: string): Promise<DiffSelection> {
+    const selection: DiffSelection = { files: {} };
+
+    for (let i = 0; i < diffs.length; i++) {
+      const diff = diffs[i];
+
+      Logger.newLine();
+      DiffView.renderFileHeader(diff);
+
+      const choice = await Prompts.choice(`Apply changes to ${diff.path} (${i + 1}/${diffs.length})?`, {
+        y: 'apply every change in this file',
+        n: 'skip this file',
+        h: 'review this file hunk by hunk',
+        e: 'edit the resulting file in your editor',
+        a: 'apply this and all remaining files',
+        d: 'skip this and all remaining files',
+      });
+
+      switch (choice) {
+        case 'y':
+          selection.files[diff.path] = { accepted: true };
+          break;
+
+        case 'n':
+          selection.files[diff.path] = { accepted: false };
+          break;
+
+        case 'h':
+          selection.files[diff.path] = {
+            accepted: true,
+            hunks: await DiffReview.reviewHunks(diff, workingDirectory),
+          };
+          break;
+
+        case 'e': {
+          const proposed = applyHunks(DiffReview.readCurrent(diff, workingDirectory), diff.hunks);
+          const content = await Prompts.editor(proposed, path.extname(diff.path));
+          selection.files[diff.path] = { accepted: true, content };
+          break;
+        }
+
+        case 'a':
+        case 'd':
+          diffs.slice(i).forEach((d) => {
+            selection.files[d.path] = { accepted: choice === 'a' };
+          });
+          return selection;
+      }
+    }
+
+    return selection;
+  }
+
+  /**
+   * Whether a selection keeps at least one change
+   */
+  static acceptsAnything(selection: DiffSelection): boolean {
+    return Object.values(selection.files).some(
+      (file) =>
+        file.accepted && (file.content !== undefined || !file.hunks || file.hunks.some((h) => h.accepted))
+    );
+  }
+
+  private static async reviewHunks(diff: FileDiff, workingDirectory: string): Promise<HunkSelection[]> {
+    const result: HunkSelection[] = [];
+    const current = DiffReview.readCurrent(diff, workingDirectory);
+
+    for (let i = 0; i < diff.hunks.length; i++) {
+      const hunk = diff.hunks[i];
+
+      Logger.newLine();
+      DiffView.renderHunk(hunk);
+
+      const choice = await Prompts.choice(`Apply this hunk (${i + 1}/${diff.hunks.length})?`, {
+        y: 'apply this hunk',
+        n: 'skip this hunk',
+        e: 'edit this hunk in your editor',
+        a: 'apply this and all remaining hunks in the file',
+        d: 'skip this and all remaining hunks in the file',
+      });
+
+      if (choice === 'a' || choice === 'd') {
+        diff.hunks.slice(i).forEach(() => result.push({ accepted: choice === 'a' }));
+        break;
+      }
+
+      if (choice === 'e') {
+        const lines = await DiffReview.editHunk(hunk, current);
+        if (!lines) {
+          i--; // Ask about the same hunk again
+          continue;
+        }
+        result.push({ accepted: true, lines });
+        continue;
+      }
+
+      result.push({ accepted: choice === 'y' });
+    }
+
+    return result;
+  }
+
+  private static async editHunk(hunk: DiffHunk, current: string): Promise<string[] | null> {
+    const header = [
+      '# Edit the hunk below. Lines starting with "-" are removed, "+" are added,',
+      '# " " are kept. To drop a removal, turn its "-" into " "; to drop an addition,',
+      '# delete its line. Lines starting with "#" are ignored.',
+    ];
+
+    const edited = await Prompts.editor([...header, ...hunk.lines].join('\n') + '\n', '.diff');
+
+    const lines = edited
+      .split('\n')
+      .filter((line, index, all) => !line.startsWith('#') && !(index === all.length - 1 && line === ''))
+      // Editors often strip trailing whitespace from empty context lines
+      .map((line) => (line === '' ? ' ' : line));
+
+    try {
+      applyHunks(current, [{ ...hunk, lines }]);
+      return lines;
+    } catch (error: any) {
+      Logger.error(`Edited hunk does not apply: ${error.message}`);
+      return null;
+    }
+  }
+
+  private static readCurrent(diff: FileDiff, workingDirectory: string): string {
+    const filePath = path.resolve(workingDirectory, diff.path);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '';
+  }
+}
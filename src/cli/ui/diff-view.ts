@@ -0,0 +1,43 @@
+/**
+ * CLI Diff Rendering
+ */
+
+import chalk from 'chalk';
+import { FileDiff, DiffHunk } from '../../shared/types/task';
+
+export class DiffView {
+  static render(diffs: FileDiff[]): void {
+    diffs.forEach((diff) => {
+      DiffView.renderFileHeader(diff);
+      diff.hunks.forEach((hunk) => DiffView.renderHunk(hunk));
+      console.log();
+    });
+  }
+
+  static renderFileHeader(diff: FileDiff): void {
+    const label = {
+      added: chalk.green('new file'),
+      modified: chalk.yellow('modified'),
+      deleted: chalk.red('deleted'),
+    }[diff.status];
+
+    const added = diff.hunks.reduce((n, h) => n + h.lines.filter((l) => l.startsWith('+')).length, 0);
+    const removed = diff.hunks.reduce((n, h) => n + h.lines.filter((l) => l.startsWith('-')).length, 0);
+
+    console.log(`${chalk.bold(diff.path)} (${label}) ${chalk.green(`+${added}`)} ${chalk.red(`-${removed}`)}`);
+  }
+
+  static renderHunk(hunk: DiffHunk): void {
+    console.log(chalk.cyan(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`));
+
+    hunk.lines.forEach((line) => {
+      if (line.startsWith('+')) {
+        console.log(chalk.green(line));
+      } else if (line.startsWith('-')) {
+        console.log(chalk.red(line));
+      } else {
+        console.log(chalk.gray(line));
+      }
+    });
+  }
+}
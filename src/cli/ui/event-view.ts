@@ -0,0 +1,214 @@
+/**
+ * CLI Rendering of Live Task Events
+ */
+
+import chalk from 'chalk';
+import { TaskEvent, ToolOutputEvent } from '../../shared/types/events';
+import { Spinner } from './spinner';
+import { Logger } from './logger';
+
+const OUTPUT_PREVIEW_LINES = 5;
+
+export class EventView {
+  private streamingTokens = false;
+  private streamingOutput = false;
+  private outputAtLineStart = true;
+  private streamedSteps = new Set<string>(); // Steps whose output was already shown live
+  private activeSteps = new Map<string, string>(); // stepId -> description
+  private pendingOutput = new Map<string, ToolOutputEvent>();
+  private lastAction = '';
+
+  constructor(private spinner: Spinner) {}
+
+  render(event: TaskEvent): void {
+    if (event.type === 'token') {
+      if (!this.streamingTokens) {
+        this.spinner.stop();
+        this.streamingTokens = true;
+      }
+      process.stdout.write(chalk.gray(event.delta));
+      return;
+    }
+
+    if (event.type === 'tool_output_delta') {
+      this.endTokens();
+      this.renderDelta(event.stepId, event.delta);
+      return;
+    }
+
+    this.endTokens();
+    this.endOutput();
+
+    switch (event.type) {
+      case 'status':
+        if (event.progress.currentAction !== this.lastAction) {
+          this.lastAction = event.progress.currentAction;
+          this.spin(this.lastAction);
+        }
+        break;
+
+      case 'step':
+        this.renderStep(event.stepId, event.description, event.status);
+        break;
+
+      case 'tool_output':
+        // Output already shown live only needs its error; other output is shown
+        // once its step settles, so it lands under the step's line
+        if (this.streamedSteps.has(event.stepId)) {
+          if (!event.success && event.error) {
+            this.renderOutput({ ...event, output: '', error: event.error.split('\n')[0] });
+          }
+        } else if (this.activeSteps.has(event.stepId)) {
+          this.pendingOutput.set(event.stepId, event);
+        } else {
+          this.renderOutput(event);
+        }
+        break;
+
+      case 'approval_required':
+        // The question itself is asked by ApprovalPrompt
+        this.spinner.stop();
+        Logger.newLine();
+        Logger.warn(`Approval needed: ${event.approval.reason}`);
+        Logger.log(chalk.cyan(`  $ ${event.approval.command}`));
+        break;
+
+      case 'input_required':
+        // The answer is asked for by QuestionPrompt
+        this.spinner.stop();
+        Logger.newLine();
+        Logger.info(`Question: ${event.question.question}`);
+        if (event.question.context) {
+          Logger.log(chalk.gray(`  ${event.question.context}`));
+        }
+        event.question.choices?.forEach((choice, index) => Logger.log(`  ${index + 1}. ${choice}`));
+        break;
+
+      case 'log':
+        if (event.log.level === 'warn' || event.log.level === 'error') {
+          this.spinner.stop();
+          Logger[event.log.level](event.log.message);
+          this.resume();
+        } else if (event.log.level === 'debug') {
+          Logger.debug(event.log.message);
+        }
+        break;
+    }
+  }
+
+  /**
+   * End any token output and stop the spinner, leaving the terminal clean
+   */
+  finish(): void {
+    this.endTokens();
+    this.endOutput();
+    this.spinner.stop();
+  }
+
+  private renderStep(stepId: string, description: string, status: string): void {
+    switch (status) {
+      case 'in-progress':
+        this.activeSteps.set(stepId, description);
+        this.spin(description);
+        break;
+
+      case 'completed':
+      case 'failed': {
+        this.activeSteps.delete(stepId);
+        if (!this.spinner.isSpinning()) this.spinner.start(description);
+        status === 'completed' ? this.spinner.succeed(description) : this.spinner.fail(description);
+
+        const output = this.pendingOutput.get(stepId);
+        if (output) {
+          this.pendingOutput.delete(stepId);
+          this.renderOutput(output);
+        }
+        this.resume();
+        break;
+      }
+
+      case 'skipped':
+        this.spinner.stop();
+        Logger.warn(`Skipped: ${description}`);
+        this.resume();
+        break;
+    }
+  }
+
+  private renderOutput(event: ToolOutputEvent): void {
+    const text = event.success ? event.output : event.error || event.output;
+    const lines = (text || '').split('\n').filter((line) => line.trim() !== '');
+    if (lines.length === 0) {
+      return;
+    }
+
+    this.spinner.stop();
+    lines.slice(0, OUTPUT_PREVIEW_LINES).forEach((line) => console.log(chalk.gray(`    ${line}`)));
+    if (lines.length > OUTPUT_PREVIEW_LINES) {
+      console.log(chalk.gray(`    … ${lines.length - OUTPUT_PREVIEW_LINES} more line(s)`));
+    }
+    this.resume();
+  }
+
+  private renderDelta(stepId: string, delta: string): void {
+    if (!this.streamingOutput) {
+      this.spinner.stop();
+      this.streamingOutput = true;
+    }
+    this.streamedSteps.add(stepId);
+
+    // Indent like the output shown under finished steps
+    const lines = delta.split('\n');
+    lines.forEach((line, index) => {
+      if (line) {
+        process.stdout.write(chalk.gray(this.outputAtLineStart ? `    ${line}` : line));
+        this.outputAtLineStart = false;
+      }
+      if (index < lines.length - 1) {
+        process.stdout.write('\n');
+        this.outputAtLineStart = true;
+      }
+    });
+  }
+
+  private endOutput(): void {
+    if (this.streamingOutput) {
+      if (!this.outputAtLineStart) {
+        process.stdout.write('\n');
+        this.outputAtLineStart = true;
+      }
+      this.streamingOutput = false;
+    }
+  }
+
+  private endTokens(): void {
+    if (this.streamingTokens) {
+      process.stdout.write('\n');
+      this.streamingTokens = false;
+      this.resume();
+    }
+  }
+
+  private spin(text: string): void {
+    if (this.spinner.isSpinning()) {
+      this.spinner.update(text);
+    } else {
+      this.spinner.start(text);
+    }
+  }
+
+  /**
+   * Restart the spinner on whatever is still running
+   */
+  private resume(): void {
+    const running = [...this.activeSteps.values()];
+    this.spin(running.length > 0 ? running[running.length - 1] : this.lastAction || 'Working...');
+  }
+}
+
+/**
+ * Whether an event marks the end of a task run
+ */
+export function isTaskFinished(event: TaskEvent): boolean {
+  return event.type === 'status' && ['completed', 'failed', 'cancelled', 'reverted'].includes(event.status);
+}
@@ -0,0 +1,30 @@
+/**
+ * CLI Rendering of the Files a Task Changed
+ */
+
+import { FileOperation } from '../../shared/types/task';
+
+/**
+ * One line per changed file, labelled with what happened to it. Results from
+ * servers that do not report operations fall back to the bare paths.
+ */
+export function formatFileChanges(result: { filesModified?: string[]; fileOperations?: FileOperation[] }): string[] {
+  if (!result.fileOperations || result.fileOperations.length === 0) {
+    return result.filesModified || [];
+  }
+
+  return result.fileOperations.map((op) => {
+    switch (op.operation) {
+      case 'delete':
+        return `${op.path} (deleted)`;
+      case 'move':
+        return `${op.from} → ${op.path} (moved)`;
+      case 'copy':
+        return `${op.from} → ${op.path} (copied)`;
+      case 'mkdir':
+        return `${op.path}/ (created)`;
+      default:
+        return op.path;
+    }
+  });
+}
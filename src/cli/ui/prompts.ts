@@ -3,6 +3,10 @@
  */
 
 import * as readline from 'readline';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
 
 export class Prompts {
   static async confirm(question: string, defaultValue: boolean = true): Promise<boolean> {
@@ -78,4 +82,56 @@ export class Prompts {
 
     rl.close();
   }
+
+  /**
+   * Ask for one of several single-letter choices, git add -p style.
+   * `?` prints the help text for each choice.
+   */
+  static async choice(question: string, choices: Record<string, string>): Promise<string> {
+    const keys = Object.keys(choices);
+
+    while (true) {
+      const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+      });
+
+      const answer = await new Promise<string>((resolve) => {
+        rl.question(`${question} [${keys.join(',')},?]: `, resolve);
+      });
+
+      rl.close();
+
+      const key = answer.trim().toLowerCase();
+      if (keys.includes(key)) {
+        return key;
+      }
+
+      keys.forEach((k) => console.log(`  ${k} - ${choices[k]}`));
+    }
+  }
+
+  /**
+   * Open text in the user's editor and return the edited result
+   */
+  static async editor(initialText: string, extension: string = '.txt'): Promise<string> {
+    const tempFile = path.join(os.tmpdir(), `mikasa-edit-${Date.now()}${extension}`);
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+
+    fs.writeFileSync(tempFile, initialText, 'utf-8');
+
+    try {
+      const result = spawnSync(editor, [tempFile], { stdio: 'inherit', shell: true });
+      if (result.status !== 0) {
+        throw new Error(`Editor exited with code ${result.status}`);
+      }
+      return fs.readFileSync(tempFile, 'utf-8');
+    } finally {
+      try {
+        fs.unlinkSync(tempFile);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
 }
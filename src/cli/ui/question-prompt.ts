@@ -0,0 +1,56 @@
+/**
+ * Question Prompt - asks the user the questions the agent paused a task for
+ */
+
+import { TaskEvent } from '../../shared/types/events';
+import { PendingQuestion } from '../../shared/types/task';
+import { Prompts } from './prompts';
+import { Logger } from './logger';
+
+export type QuestionAnswer = (questionId: string, answer: string) => Promise<void>;
+
+/**
+ * Gets the user's answer to a question, e.g. typed or spoken
+ */
+export type QuestionAsker = (question: PendingQuestion) => Promise<string>;
+
+export class QuestionPrompt {
+  private asked = new Set<string>();
+
+  constructor(
+    private answer: QuestionAnswer,
+    private ask: QuestionAsker = askInTerminal
+  ) {}
+
+  /**
+   * Ask once per question; events replayed after a reconnect are ignored
+   */
+  handle(event: TaskEvent): void {
+    if (event.type !== 'input_required' || this.asked.has(event.question.questionId)) {
+      return;
+    }
+    this.asked.add(event.question.questionId);
+    void this.reply(event.question);
+  }
+
+  private async reply(question: PendingQuestion): Promise<void> {
+    try {
+      let answer = '';
+      while (!answer) {
+        answer = (await this.ask(question)).trim();
+      }
+      await this.answer(question.questionId, answer);
+    } catch (error: any) {
+      Logger.error(`Failed to send answer: ${error.response?.data?.error || error.message}`);
+    }
+  }
+}
+
+/**
+ * Type an answer; a number picks one of the suggested choices
+ */
+export async function askInTerminal(question: PendingQuestion): Promise<string> {
+  const answer = await Prompts.input('Your answer');
+  const index = /^\d+$/.test(answer) ? parseInt(answer) - 1 : -1;
+  return question.choices?.[index] ?? answer;
+}
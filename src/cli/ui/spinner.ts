@@ -45,6 +45,10 @@ export class Spinner {
     }
   }
 
+  isSpinning(): boolean {
+    return this.spinner !== null;
+  }
+
   stop(): void {
     if (this.spinner) {
       this.spinner.stop();
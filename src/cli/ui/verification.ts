@@ -0,0 +1,40 @@
+/**
+ * CLI Rendering of a Task's Verification Checks
+ */
+
+import { VerificationResult } from '../../shared/types/task';
+
+const FAILURE_PREVIEW_LINES = 10;
+
+/**
+ * One line per check, with the start of the failure output under each failed
+ * one. Tasks that ran no checks render nothing.
+ */
+export function formatVerification(verification?: VerificationResult): string[] {
+  if (!verification) {
+    return [];
+  }
+  if (verification.skipped) {
+    return [`Checks skipped: ${verification.skipped}`];
+  }
+
+  const lines: string[] = [];
+  for (const check of verification.checks) {
+    if (check.preexisting) {
+      lines.push(`- ${check.name}: ${check.command} (already failing before the changes)`);
+      continue;
+    }
+    lines.push(`${check.passed ? '✓' : '✗'} ${check.name}: ${check.command}`);
+    if (!check.passed && check.failure) {
+      const failure = check.failure.split('\n');
+      lines.push(...failure.slice(0, FAILURE_PREVIEW_LINES).map((line) => `    ${line}`));
+      if (failure.length > FAILURE_PREVIEW_LINES) {
+        lines.push(`    … ${check.logFile ? `full output in ${check.logFile}` : 'output shortened'}`);
+      }
+    }
+  }
+  if (verification.repairRounds > 0) {
+    lines.push(`Repair rounds: ${verification.repairRounds}`);
+  }
+  return lines;
+}
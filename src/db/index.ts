@@ -57,6 +57,10 @@ export async function disconnectDatabase(): Promise<void> {
   }
 }
 
+export function isDatabaseConnected(): boolean {
+  return isConnected;
+}
+
 export function getDatabaseConnection(): typeof mongoose {
   if (!isConnected) {
     throw new DatabaseError('Database is not connected');
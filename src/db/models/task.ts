@@ -10,10 +10,19 @@ export interface ITask extends Task, Document {}
 const TaskSchema = new Schema<ITask>({
   taskId: { type: String, required: true, unique: true, index: true },
   sessionId: { type: String, required: true, index: true },
+  userId: { type: String, required: true, index: true },
   checkPointId: { type: String, required: true },
   type: { type: String, enum: Object.values(TaskType), required: true },
   status: { type: String, enum: Object.values(TaskStatus), required: true },
   goal: { type: String, required: true },
+  modelUsed: String,
+  context: Schema.Types.Mixed,
+  options: Schema.Types.Mixed,
+  progress: {
+    currentStep: Number,
+    totalSteps: Number,
+    currentAction: String,
+  },
   plan: {
     steps: [
       {
@@ -48,9 +57,23 @@ const TaskSchema = new Schema<ITask>({
         stdout: String,
         stderr: String,
         duration: Number,
+        logFile: String,
       },
     ],
   },
+  // Plans, diffs and journals vary in shape, so store the result as-is
+  result: Schema.Types.Mixed,
+  pendingApproval: Schema.Types.Mixed,
+  pendingQuestion: Schema.Types.Mixed,
+  usage: {
+    requests: Number,
+    promptTokens: Number,
+    completionTokens: Number,
+    totalTokens: Number,
+    cost: Number,
+    unpricedRequests: Number,
+  },
+  error: String,
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now },
 });
@@ -0,0 +1,26 @@
+/**
+ * Usage Model - One document per metered LLM request
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { UsageRecord } from '../../shared/types/usage';
+
+// Typed by the plain record: its `model` field clashes with Document.model
+const UsageSchema = new Schema<UsageRecord>({
+  taskId: { type: String, index: true },
+  sessionId: { type: String, required: true, index: true },
+  userId: { type: String, required: true },
+  provider: { type: String, required: true },
+  model: { type: String, required: true },
+  promptTokens: { type: Number, required: true },
+  completionTokens: { type: Number, required: true },
+  totalTokens: { type: Number, required: true },
+  cost: { type: Number, required: true },
+  priced: { type: Boolean, required: true },
+  createdAt: { type: Date, default: Date.now, index: true },
+});
+
+// Reports are usually per user over a time range
+UsageSchema.index({ userId: 1, createdAt: -1 });
+
+export const UsageModel = mongoose.model<UsageRecord>('Usage', UsageSchema);
@@ -0,0 +1,157 @@
+/**
+ * Task Repository with In-Memory Fallback
+ */
+
+import { TaskModel } from '../models/task';
+import { isDatabaseConnected } from '../index';
+import { Task, TaskProgress, TaskStatus } from '../../shared/types/task';
+import { logger } from '../../server/middleware/logger';
+
+// Tasks an agent may still be working on; they stay in memory until they finish
+const RUNNING_STATUSES = [
+  TaskStatus.PENDING,
+  TaskStatus.PLANNING,
+  TaskStatus.EXECUTING,
+  TaskStatus.RETRYING,
+  TaskStatus.AWAITING_APPROVAL,
+  TaskStatus.AWAITING_INPUT,
+];
+
+// Tasks kept in memory; beyond this, the least recently used finished ones are dropped
+const MAX_MEMORY_TASKS = 1000;
+
+// Shared by every repository instance, so tasks keep working while MongoDB is
+// down and reads of recent tasks never wait on it
+const memoryStore = new Map<string, Task>();
+
+// Tasks whose stored copy lacks changes made in memory (created or updated while
+// MongoDB was down, or a write failed); the next write stores them in full
+const unsaved = new Set<string>();
+
+export class TaskRepository {
+  async create(task: Task): Promise<Task> {
+    this.cache(task);
+
+    await this.persist(task.taskId, () => TaskModel.create(task));
+
+    return task;
+  }
+
+  async findById(taskId: string): Promise<Task | null> {
+    const cached = memoryStore.get(taskId);
+    if (cached) {
+      this.cache(cached);
+      return cached;
+    }
+
+    if (!isDatabaseConnected()) {
+      return null;
+    }
+
+    try {
+      const doc = await TaskModel.findOne({ taskId }).lean<Task>();
+      if (!doc) {
+        return null;
+      }
+      this.cache(doc);
+      return doc;
+    } catch (error: any) {
+      logger.warn(`Failed to load task ${taskId} from database: ${error.message}`);
+      return null;
+    }
+  }
+
+  async update(taskId: string, updates: Partial<Task>): Promise<Task | null> {
+    const task = await this.findById(taskId);
+    if (!task) {
+      return null;
+    }
+
+    Object.assign(task, updates, { updatedAt: new Date() });
+
+    await this.persist(taskId, () =>
+      unsaved.has(taskId)
+        ? TaskModel.replaceOne({ taskId }, task, { upsert: true })
+        : TaskModel.updateOne({ taskId }, { $set: { ...updates, updatedAt: task.updatedAt } })
+    );
+    this.evictFinished();
+
+    return task;
+  }
+
+  async updateProgress(taskId: string, progress: Partial<TaskProgress>): Promise<Task | null> {
+    const task = await this.findById(taskId);
+    if (!task) {
+      return null;
+    }
+    return this.update(taskId, { progress: { ...task.progress, ...progress } });
+  }
+
+  /**
+   * Fail tasks that were still running when the server last stopped; nothing
+   * will ever finish them
+   */
+  async failInterrupted(): Promise<number> {
+    if (!isDatabaseConnected()) {
+      return 0;
+    }
+
+    try {
+      const result = await TaskModel.updateMany(
+        { status: { $in: RUNNING_STATUSES } },
+        {
+          $set: {
+            status: TaskStatus.FAILED,
+            error: 'Server restarted while the task was running',
+            'progress.currentAction': 'Failed',
+            updatedAt: new Date(),
+          },
+        }
+      );
+      return result.modifiedCount;
+    } catch (error: any) {
+      logger.warn(`Failed to mark interrupted tasks: ${error.message}`);
+      return 0;
+    }
+  }
+
+  private async persist(taskId: string, write: () => Promise<unknown>): Promise<void> {
+    if (!isDatabaseConnected()) {
+      unsaved.add(taskId);
+      return;
+    }
+
+    try {
+      await write();
+      unsaved.delete(taskId);
+    } catch (error: any) {
+      // The in-memory copy is authoritative for this process, so keep going
+      unsaved.add(taskId);
+      logger.warn(`Failed to persist task ${taskId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store a task as the most recently used
+   */
+  private cache(task: Task): void {
+    memoryStore.delete(task.taskId);
+    memoryStore.set(task.taskId, task);
+    this.evictFinished();
+  }
+
+  /**
+   * Drop the least recently used finished tasks beyond MAX_MEMORY_TASKS. Running
+   * tasks and tasks the database does not have in full are never dropped.
+   */
+  private evictFinished(): void {
+    let excess = memoryStore.size - MAX_MEMORY_TASKS;
+    for (const [taskId, task] of memoryStore) {
+      if (excess <= 0) break;
+      if (!RUNNING_STATUSES.includes(task.status) && !unsaved.has(taskId)) {
+        memoryStore.delete(taskId);
+        excess--;
+      }
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Usage Repository with In-Memory Fallback
+ */
+
+import { UsageModel } from '../models/usage';
+import { isDatabaseConnected } from '../index';
+import { UsageFilter, UsageGroupBy, UsageRecord, UsageReport, UsageSummary } from '../../shared/types/usage';
+import { addUsage, emptyUsageSummary } from '../../shared/utils/usage';
+import { logger } from '../../server/middleware/logger';
+
+// Records made by this process, for reports while MongoDB is down
+const MAX_MEMORY_RECORDS = 100000;
+const memoryStore: UsageRecord[] = [];
+
+// How each grouping reads its key from a record, in MongoDB and in memory
+const GROUP_FIELDS: Record<UsageGroupBy, { field: any; read: (record: UsageRecord) => string }> = {
+  user: { field: '$userId', read: (record) => record.userId },
+  session: { field: '$sessionId', read: (record) => record.sessionId },
+  task: { field: '$taskId', read: (record) => record.taskId || '' },
+  model: { field: '$model', read: (record) => record.model },
+  day: {
+    field: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+    read: (record) => record.createdAt.toISOString().substring(0, 10),
+  },
+};
+
+export class UsageRepository {
+  async record(record: UsageRecord): Promise<void> {
+    memoryStore.push(record);
+    if (memoryStore.length > MAX_MEMORY_RECORDS) {
+      memoryStore.splice(0, memoryStore.length - MAX_MEMORY_RECORDS);
+    }
+
+    if (!isDatabaseConnected()) {
+      return;
+    }
+
+    try {
+      await UsageModel.create(record);
+    } catch (error: any) {
+      logger.warn(`Failed to persist usage for session ${record.sessionId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Totals for the records matching `filter`, optionally broken down by `groupBy`
+   */
+  async summarize(filter: UsageFilter, groupBy?: UsageGroupBy): Promise<UsageReport> {
+    let groups: (UsageSummary & { key: string })[];
+
+    if (isDatabaseConnected()) {
+      try {
+        groups = await this.aggregate(filter, groupBy);
+      } catch (error: any) {
+        logger.warn(`Failed to aggregate usage from database: ${error.message}`);
+        groups = this.aggregateInMemory(filter, groupBy);
+      }
+    } else {
+      groups = this.aggregateInMemory(filter, groupBy);
+    }
+
+    const total = groups.reduce(
+      (sum, group) => ({
+        requests: sum.requests + group.requests,
+        promptTokens: sum.promptTokens + group.promptTokens,
+        completionTokens: sum.completionTokens + group.completionTokens,
+        totalTokens: sum.totalTokens + group.totalTokens,
+        cost: sum.cost + group.cost,
+        unpricedRequests: sum.unpricedRequests + group.unpricedRequests,
+      }),
+      emptyUsageSummary()
+    );
+
+    return {
+      groupBy,
+      total,
+      groups: groupBy ? sortGroups(groups, groupBy) : [],
+    };
+  }
+
+  private async aggregate(filter: UsageFilter, groupBy?: UsageGroupBy): Promise<(UsageSummary & { key: string })[]> {
+    const match: Record<string, any> = {};
+    if (filter.userId) match.userId = filter.userId;
+    if (filter.sessionId) match.sessionId = filter.sessionId;
+    if (filter.taskId) match.taskId = filter.taskId;
+    if (filter.since || filter.until) {
+      match.createdAt = {
+        ...(filter.since && { $gte: filter.since }),
+        ...(filter.until && { $lt: filter.until }),
+      };
+    }
+
+    const rows = await UsageModel.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: groupBy ? GROUP_FIELDS[groupBy].field : null,
+          requests: { $sum: 1 },
+          promptTokens: { $sum: '$promptTokens' },
+          completionTokens: { $sum: '$completionTokens' },
+          totalTokens: { $sum: '$totalTokens' },
+          cost: { $sum: '$cost' },
+          unpricedRequests: { $sum: { $cond: ['$priced', 0, 1] } },
+        },
+      },
+    ]);
+
+    return rows.map(({ _id, ...summary }) => ({ key: _id ?? '', ...summary }));
+  }
+
+  private aggregateInMemory(filter: UsageFilter, groupBy?: UsageGroupBy): (UsageSummary & { key: string })[] {
+    const groups = new Map<string, UsageSummary>();
+
+    for (const record of memoryStore) {
+      if (filter.userId && record.userId !== filter.userId) continue;
+      if (filter.sessionId && record.sessionId !== filter.sessionId) continue;
+      if (filter.taskId && record.taskId !== filter.taskId) continue;
+      if (filter.since && record.createdAt < filter.since) continue;
+      if (filter.until && record.createdAt >= filter.until) continue;
+
+      const key = groupBy ? GROUP_FIELDS[groupBy].read(record) : '';
+      groups.set(key, addUsage(groups.get(key) || emptyUsageSummary(), record));
+    }
+
+    return [...groups.entries()].map(([key, summary]) => ({ key, ...summary }));
+  }
+}
+
+/**
+ * Days in order; everything else most expensive first
+ */
+function sortGroups(groups: (UsageSummary & { key: string })[], groupBy: UsageGroupBy) {
+  if (groupBy === 'day') {
+    return groups.sort((a, b) => a.key.localeCompare(b.key));
+  }
+  return groups.sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
@@ -8,6 +8,7 @@ import {
   CompletionResponse,
   CompletionChunk,
   ToolResult,
+  Message,
 } from './types';
 
 export abstract class BaseLLMClient implements LLMClient {
@@ -25,6 +26,13 @@ export abstract class BaseLLMClient implements LLMClient {
     onChunk: (chunk: CompletionChunk) => void
   ): Promise<CompletionResponse>;
 
+  /**
+   * The model requests are sent to, as the provider names it
+   */
+  getModel(): string {
+    return this.config?.model || this.name;
+  }
+
   async transcribeAudio?(_audioPath: string): Promise<string> {
     throw new Error('Audio transcription not supported by this provider');
   }
@@ -50,8 +58,34 @@ export abstract class BaseLLMClient implements LLMClient {
       fullPrompt += '\n\n=== Request ===\n';
     }
 
-    fullPrompt += request.prompt;
+    fullPrompt += request.prompt || '';
 
     return fullPrompt;
   }
+
+  /**
+   * Helper to flatten a request into one ordered conversation.
+   * Context is prepended to the first user turn; the prompt becomes the last one.
+   */
+  protected buildMessages(request: CompletionRequest): Message[] {
+    const messages: Message[] = [...(request.messages || [])];
+
+    if (request.prompt) {
+      messages.push({ role: 'user', content: request.prompt });
+    }
+
+    if (request.context && request.context.length > 0) {
+      const firstUser = messages.findIndex((m) => m.role === 'user');
+      const contextBlock = `=== Context ===\n${request.context.join('\n\n')}\n\n=== Request ===\n`;
+
+      if (firstUser === -1) {
+        messages.unshift({ role: 'user', content: contextBlock });
+      } else {
+        const message = messages[firstUser] as { role: 'user'; content: string };
+        messages[firstUser] = { role: 'user', content: contextBlock + message.content };
+      }
+    }
+
+    return messages;
+  }
 }
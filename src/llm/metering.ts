@@ -0,0 +1,67 @@
+/**
+ * Usage Metering - Report the tokens and estimated cost of every LLM request
+ *
+ * Wraps any client, so planning, fixes, repairs and tool-loop turns are all
+ * counted without the agent knowing. Requests that fail report no usage, so
+ * they are not counted.
+ */
+
+import { BaseLLMClient } from './base-client';
+import { CompletionRequest, CompletionResponse, CompletionChunk } from './types';
+import { LLMUsage } from '../shared/types/usage';
+import { ModelPrice } from '../shared/types/config';
+import { estimateCost } from '../shared/utils/usage';
+
+export type UsageListener = (usage: LLMUsage) => void;
+
+export class MeteredLLMClient extends BaseLLMClient {
+  name: string;
+
+  constructor(
+    private inner: BaseLLMClient,
+    private onUsage: UsageListener,
+    private pricing: Record<string, ModelPrice> = {}
+  ) {
+    super({ model: inner.getModel() });
+    this.name = inner.name;
+  }
+
+  getModel(): string {
+    return this.inner.getModel();
+  }
+
+  async generateCompletion(request: CompletionRequest): Promise<CompletionResponse> {
+    return this.meter(await this.inner.generateCompletion(request));
+  }
+
+  async streamCompletion(
+    request: CompletionRequest,
+    onChunk: (chunk: CompletionChunk) => void
+  ): Promise<CompletionResponse> {
+    return this.meter(await this.inner.streamCompletion(request, onChunk));
+  }
+
+  async transcribeAudio(audioPath: string): Promise<string> {
+    if (!this.inner.transcribeAudio) {
+      throw new Error('Audio transcription not supported by this provider');
+    }
+    return this.inner.transcribeAudio(audioPath);
+  }
+
+  private meter(response: CompletionResponse): CompletionResponse {
+    const model = this.getModel();
+    const { promptTokens, completionTokens } = response.usage;
+    // Some providers leave the total out
+    const totalTokens = response.usage.totalTokens || promptTokens + completionTokens;
+
+    this.onUsage({
+      provider: this.name,
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      ...estimateCost(model, response.usage, this.pricing),
+    });
+    return response;
+  }
+}
@@ -4,10 +4,14 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { BaseLLMClient } from '../../base-client';
-import { CompletionRequest, CompletionResponse, CompletionChunk } from '../../types';
+import { CompletionRequest, CompletionResponse, CompletionChunk, Message, ToolCall } from '../../types';
 import { ClaudeProviderConfig } from '../../../shared/types/config';
 import { LLMError } from '../../../shared/errors';
 
+type ContentBlockParam = Exclude<Anthropic.MessageParam['content'], string>[number];
+
+const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+
 export class ClaudeClient extends BaseLLMClient {
   name = 'claude';
   private anthropic: Anthropic;
@@ -25,27 +29,29 @@ export class ClaudeClient extends BaseLLMClient {
     });
   }
 
+  getModel(): string {
+    return this.config.model || DEFAULT_MODEL;
+  }
+
   async generateCompletion(request: CompletionRequest): Promise<CompletionResponse> {
     try {
-      const messages: Anthropic.MessageParam[] = [
+      const messages = this.toAnthropicMessages(this.buildMessages(request));
+
+      const response = await this.anthropic.messages.create(
         {
-          role: 'user',
-          content: this.buildPromptWithContext(request),
+          model: this.getModel(),
+          max_tokens: request.maxTokens || this.config.maxTokens || 4096,
+          temperature: request.temperature ?? this.config.temperature ?? 0.7,
+          system: request.systemPrompt,
+          messages,
+          tools: request.tools?.map((t) => ({
+            name: t.name,
+            description: t.description,
+            input_schema: t.parameters,
+          })),
         },
-      ];
-
-      const response = await this.anthropic.messages.create({
-        model: this.config.model || 'claude-sonnet-4-5-20250929',
-        max_tokens: request.maxTokens || this.config.maxTokens || 4096,
-        temperature: request.temperature ?? this.config.temperature ?? 0.7,
-        system: request.systemPrompt,
-        messages,
-        tools: request.tools?.map((t) => ({
-          name: t.name,
-          description: t.description,
-          input_schema: t.parameters,
-        })),
-      });
+        { signal: request.signal }
+      );
 
       return this.parseResponse(response);
     } catch (error: any) {
@@ -58,35 +64,62 @@ export class ClaudeClient extends BaseLLMClient {
     onChunk: (chunk: CompletionChunk) => void
   ): Promise<CompletionResponse> {
     try {
-      const messages: Anthropic.MessageParam[] = [
+      const messages = this.toAnthropicMessages(this.buildMessages(request));
+
+      const stream = await this.anthropic.messages.create(
         {
-          role: 'user',
-          content: this.buildPromptWithContext(request),
+          model: this.getModel(),
+          max_tokens: request.maxTokens || this.config.maxTokens || 4096,
+          temperature: request.temperature ?? this.config.temperature ?? 0.7,
+          system: request.systemPrompt,
+          messages,
+          tools: request.tools?.map((t) => ({
+            name: t.name,
+            description: t.description,
+            input_schema: t.parameters,
+          })),
+          stream: true,
         },
-      ];
-
-      const stream = await this.anthropic.messages.create({
-        model: this.config.model || 'claude-sonnet-4-5-20250929',
-        max_tokens: request.maxTokens || this.config.maxTokens || 4096,
-        temperature: request.temperature ?? this.config.temperature ?? 0.7,
-        system: request.systemPrompt,
-        messages,
-        stream: true,
-      });
+        { signal: request.signal }
+      );
 
       let fullText = '';
       let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let stopReason: string | null = null;
+      const toolCalls: ToolCall[] = [];
+      // Tool input arrives as JSON fragments, keyed by content block index
+      const pendingTools = new Map<number, { id: string; name: string; json: string }>();
 
       for await (const event of stream) {
-        if (event.type === 'content_block_delta') {
+        if (event.type === 'content_block_start') {
+          const block = (event as any).content_block;
+          if (block.type === 'tool_use') {
+            pendingTools.set((event as any).index, { id: block.id, name: block.name, json: '' });
+            onChunk({ delta: '', toolCall: { id: block.id, name: block.name } });
+          }
+        } else if (event.type === 'content_block_delta') {
           const delta = (event as any).delta;
           if (delta.type === 'text_delta') {
             const text = delta.text || '';
             fullText += text;
             onChunk({ delta: text });
+          } else if (delta.type === 'input_json_delta') {
+            const pending = pendingTools.get((event as any).index);
+            if (pending) pending.json += delta.partial_json || '';
+          }
+        } else if (event.type === 'content_block_stop') {
+          const pending = pendingTools.get((event as any).index);
+          if (pending) {
+            toolCalls.push({
+              id: pending.id,
+              name: pending.name,
+              arguments: pending.json ? JSON.parse(pending.json) : {},
+            });
+            pendingTools.delete((event as any).index);
           }
         } else if (event.type === 'message_delta') {
           usage.completionTokens = (event as any).usage?.output_tokens || 0;
+          stopReason = (event as any).delta?.stop_reason || stopReason;
         } else if (event.type === 'message_start') {
           usage.promptTokens = (event as any).message?.usage?.input_tokens || 0;
         }
@@ -96,14 +129,66 @@ export class ClaudeClient extends BaseLLMClient {
 
       return {
         text: fullText,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         usage,
-        finishReason: 'stop',
+        finishReason: stopReason === 'tool_use' ? 'tool_use' : stopReason === 'max_tokens' ? 'length' : 'stop',
       };
     } catch (error: any) {
       throw new LLMError(`Claude streaming error: ${error.message}`);
     }
   }
 
+  /**
+   * Claude requires strictly alternating user/assistant turns, so tool calls are
+   * folded into assistant turns and tool results into user turns.
+   */
+  private toAnthropicMessages(messages: Message[]): Anthropic.MessageParam[] {
+    const result: { role: 'user' | 'assistant'; content: ContentBlockParam[] }[] = [];
+
+    for (const message of messages) {
+      let role: 'user' | 'assistant';
+      let block: ContentBlockParam;
+
+      switch (message.role) {
+        case 'user':
+        case 'assistant':
+          if (!message.content) continue;
+          role = message.role;
+          block = { type: 'text', text: message.content };
+          break;
+
+        case 'tool_use':
+          role = 'assistant';
+          block = {
+            type: 'tool_use',
+            id: message.toolCall.id,
+            name: message.toolCall.name,
+            input: message.toolCall.arguments,
+          };
+          break;
+
+        case 'tool_result':
+          role = 'user';
+          block = {
+            type: 'tool_result',
+            tool_use_id: message.result.toolCallId,
+            content: message.result.error || message.result.output,
+            is_error: !!message.result.error,
+          };
+          break;
+      }
+
+      const last = result[result.length - 1];
+      if (last && last.role === role) {
+        last.content.push(block);
+      } else {
+        result.push({ role, content: [block] });
+      }
+    }
+
+    return result;
+  }
+
   private parseResponse(response: Anthropic.Message): CompletionResponse {
     const textContent = response.content
       .filter((c) => c.type === 'text')
@@ -5,11 +5,21 @@
 import { BaseLLMClient } from '../base-client';
 import { ClaudeClient } from './claude/client';
 import { OpenSourceLLMClient } from './opensource/client';
+import { MeteredLLMClient, UsageListener } from '../metering';
 import { loadConfig } from '../../shared/utils/config-loader';
 import { LLMError } from '../../shared/errors';
 
 export class LLMFactory {
-  static create(provider?: string): BaseLLMClient {
+  /**
+   * Create a client for the provider. With `onUsage`, every request reports
+   * its tokens and estimated cost.
+   */
+  static create(provider?: string, onUsage?: UsageListener): BaseLLMClient {
+    const client = LLMFactory.createClient(provider);
+    return onUsage ? new MeteredLLMClient(client, onUsage, loadConfig().llm.pricing) : client;
+  }
+
+  private static createClient(provider?: string): BaseLLMClient {
     const config = loadConfig();
     const selectedProvider = provider || config.llm.defaultProvider;
 
@@ -4,13 +4,18 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { BaseLLMClient } from '../../base-client';
-import { CompletionRequest, CompletionResponse, CompletionChunk } from '../../types';
+import { CompletionRequest, CompletionResponse, CompletionChunk, ToolCall, ToolDefinition } from '../../types';
 import { OpenSourceProviderConfig } from '../../../shared/types/config';
 import { LLMError } from '../../../shared/errors';
 
+// Plain completion endpoints have no native tool calls, so the model is asked
+// to write each call as JSON between these tags
+const TOOL_CALL_PATTERN = /<tool_call>([\s\S]*?)<\/tool_call>/g;
+
 export class OpenSourceLLMClient extends BaseLLMClient {
   name = 'opensource';
   private client: AxiosInstance;
+  private toolCallCount = 0;
 
   constructor(config: OpenSourceProviderConfig) {
     super(config);
@@ -29,26 +34,27 @@ export class OpenSourceLLMClient extends BaseLLMClient {
     try {
       const prompt = this.buildFullPrompt(request);
 
-      const response = await this.client.post('/completions', {
-        model: this.config.model,
-        prompt,
-        max_tokens: request.maxTokens || 2048,
-        temperature: request.temperature ?? 0.7,
-        stop: ['<|endoftext|>', '<|end|>'],
-      });
+      const response = await this.client.post(
+        '/completions',
+        {
+          model: this.config.model,
+          prompt,
+          max_tokens: request.maxTokens || 2048,
+          temperature: request.temperature ?? 0.7,
+          stop: ['<|endoftext|>', '<|end|>'],
+        },
+        { signal: request.signal }
+      );
 
       const completion = response.data.choices[0].text;
 
-      return {
-        text: completion,
-        usage: {
-          promptTokens: response.data.usage?.prompt_tokens || 0,
-          completionTokens: response.data.usage?.completion_tokens || 0,
-          totalTokens: response.data.usage?.total_tokens || 0,
-        },
-        finishReason: 'stop',
-      };
+      return this.toResponse(completion, request, {
+        promptTokens: response.data.usage?.prompt_tokens || 0,
+        completionTokens: response.data.usage?.completion_tokens || 0,
+        totalTokens: response.data.usage?.total_tokens || 0,
+      });
     } catch (error: any) {
+      if (error instanceof LLMError) throw error;
       throw new LLMError(`OpenSource LLM error: ${error.message}`);
     }
   }
@@ -68,27 +74,43 @@ export class OpenSourceLLMClient extends BaseLLMClient {
           max_tokens: request.maxTokens || 2048,
           temperature: request.temperature ?? 0.7,
           stream: true,
+          stream_options: { include_usage: true }, // OpenAI-compatible servers then send usage in the last chunk
         },
         {
           responseType: 'stream',
+          signal: request.signal,
         }
       );
 
       let fullText = '';
+      let usage: CompletionResponse['usage'] | undefined;
+      let buffer = ''; // A chunk can end in the middle of a line
 
       return new Promise((resolve, reject) => {
         response.data.on('data', (chunk: Buffer) => {
-          const lines = chunk.toString().split('\n').filter(Boolean);
+          buffer += chunk.toString();
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
           for (const line of lines) {
             if (line.startsWith('data: ')) {
-              const data = line.substring(6);
+              const data = line.substring(6).trim();
               if (data === '[DONE]') continue;
 
               try {
                 const parsed = JSON.parse(data);
-                const delta = parsed.choices[0].text || '';
-                fullText += delta;
-                onChunk({ delta });
+                const delta = parsed.choices?.[0]?.text || '';
+                if (delta) {
+                  fullText += delta;
+                  onChunk({ delta });
+                }
+                if (parsed.usage) {
+                  usage = {
+                    promptTokens: parsed.usage.prompt_tokens || 0,
+                    completionTokens: parsed.usage.completion_tokens || 0,
+                    totalTokens: parsed.usage.total_tokens || 0,
+                  };
+                }
               } catch {
                 // Ignore parse errors
               }
@@ -97,15 +119,11 @@ export class OpenSourceLLMClient extends BaseLLMClient {
         });
 
         response.data.on('end', () => {
-          resolve({
-            text: fullText,
-            usage: {
-              promptTokens: 0,
-              completionTokens: 0,
-              totalTokens: 0,
-            },
-            finishReason: 'stop',
-          });
+          try {
+            resolve(this.toResponse(fullText, request, usage || this.estimateUsage(prompt, fullText)));
+          } catch (error) {
+            reject(error);
+          }
         });
 
         response.data.on('error', (error: Error) => {
@@ -117,6 +135,57 @@ export class OpenSourceLLMClient extends BaseLLMClient {
     }
   }
 
+  /**
+   * Split the completion into text and the tool calls written in it. A call
+   * the model meant to make but wrote as invalid JSON is an error: dropping it
+   * would look like the model had nothing left to do.
+   */
+  private toResponse(
+    completion: string,
+    request: CompletionRequest,
+    usage: CompletionResponse['usage']
+  ): CompletionResponse {
+    if (!request.tools?.length) {
+      return { text: completion, usage, finishReason: 'stop' };
+    }
+
+    const toolCalls: ToolCall[] = [];
+    for (const match of completion.matchAll(TOOL_CALL_PATTERN)) {
+      let call: any;
+      try {
+        call = JSON.parse(match[1].trim());
+      } catch {
+        throw new LLMError(`OpenSource LLM wrote a tool call that is not valid JSON: ${match[1].trim()}`);
+      }
+      if (!call || typeof call.name !== 'string') {
+        throw new LLMError(`OpenSource LLM wrote a tool call without a tool name: ${match[1].trim()}`);
+      }
+
+      toolCalls.push({
+        id: `call_${++this.toolCallCount}`,
+        name: call.name,
+        arguments: call.arguments && typeof call.arguments === 'object' ? call.arguments : {},
+      });
+    }
+
+    return {
+      text: completion.replace(TOOL_CALL_PATTERN, '').trim(),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage,
+      finishReason: toolCalls.length > 0 ? 'tool_use' : 'stop',
+    };
+  }
+
+  /**
+   * Rough estimate (about four characters per token) for servers that do not
+   * report usage when streaming, so the request is not metered as free
+   */
+  private estimateUsage(prompt: string, completion: string): CompletionResponse['usage'] {
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(completion.length / 4);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
   private buildFullPrompt(request: CompletionRequest): string {
     let prompt = '';
 
@@ -124,12 +193,46 @@ export class OpenSourceLLMClient extends BaseLLMClient {
       prompt += `System: ${request.systemPrompt}\n\n`;
     }
 
-    if (request.context && request.context.length > 0) {
-      prompt += 'Context:\n' + request.context.join('\n\n') + '\n\n';
+    if (request.tools?.length) {
+      prompt += `System: ${this.describeTools(request.tools)}\n\n`;
+    }
+
+    // Plain completion endpoints have no roles, so the conversation is rendered as a transcript
+    for (const message of this.buildMessages(request)) {
+      switch (message.role) {
+        case 'user':
+          prompt += `User: ${message.content}\n\n`;
+          break;
+        case 'assistant':
+          prompt += `Assistant: ${message.content}\n\n`;
+          break;
+        case 'tool_use':
+          prompt += `Assistant: <tool_call>${JSON.stringify({
+            name: message.toolCall.name,
+            arguments: message.toolCall.arguments,
+          })}</tool_call>\n\n`;
+          break;
+        case 'tool_result':
+          prompt += `Tool result: ${message.result.error ? `Error: ${message.result.error}` : message.result.output}\n\n`;
+          break;
+      }
     }
 
-    prompt += `User: ${request.prompt}\n\nAssistant:`;
+    prompt += 'Assistant:';
 
     return prompt;
   }
+
+  private describeTools(tools: ToolDefinition[]): string {
+    const list = tools
+      .map((tool) => `- ${tool.name}: ${tool.description}\n  Parameters (JSON Schema): ${JSON.stringify(tool.parameters)}`)
+      .join('\n');
+
+    return `You can call these tools:
+${list}
+
+To call a tool, write one line per call:
+<tool_call>{"name": "<tool name>", "arguments": {<parameters>}}</tool_call>
+Then stop and wait for the tool results. When the task is done, answer without any tool call.`;
+  }
 }
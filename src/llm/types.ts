@@ -16,13 +16,37 @@ export interface LLMClient {
 }
 
 export interface CompletionRequest {
-  prompt: string;
+  prompt?: string; // Latest user turn; appended after messages when both are set
+  messages?: Message[]; // Prior conversation turns, oldest first
   systemPrompt?: string;
   context?: string[];
   tools?: ToolDefinition[];
   maxTokens?: number;
   temperature?: number;
   stream?: boolean;
+  signal?: AbortSignal; // Aborts the in-flight request
+}
+
+export type Message = UserMessage | AssistantMessage | ToolUseMessage | ToolResultMessage;
+
+export interface UserMessage {
+  role: 'user';
+  content: string;
+}
+
+export interface AssistantMessage {
+  role: 'assistant';
+  content: string;
+}
+
+export interface ToolUseMessage {
+  role: 'tool_use';
+  toolCall: ToolCall;
+}
+
+export interface ToolResultMessage {
+  role: 'tool_result';
+  result: ToolResult;
 }
 
 export interface CompletionResponse {
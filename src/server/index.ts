@@ -17,6 +17,7 @@ import { createApp } from './app';
 import { loadConfig } from '../shared/utils/config-loader';
 import { logger } from './middleware/logger';
 import { connectDatabase, disconnectDatabase } from '../db';
+import { TaskRepository } from '../db/repositories/task-repo';
 import { initializeWorker, queue } from '../jobs/worker';
 
 async function startServer(): Promise<void> {
@@ -27,6 +28,11 @@ async function startServer(): Promise<void> {
     try {
       await connectDatabase();
       logger.info('Database connected');
+
+      const interrupted = await new TaskRepository().failInterrupted();
+      if (interrupted > 0) {
+        logger.warn(`Marked ${interrupted} task(s) interrupted by the last shutdown as failed`);
+      }
     } catch (error: any) {
       logger.warn(`Database connection failed: ${error.message}`);
       logger.warn('Running without database persistence');
@@ -5,9 +5,10 @@
 import { Router } from 'express';
 import { enqueueJob } from '../../jobs/queue';
 import { logger } from '../middleware/logger';
-import { tasks } from './codegen';
+import { TaskRepository } from '../../db/repositories/task-repo';
 
 const router = Router();
+const taskRepository = new TaskRepository();
 
 router.post('/checkpoints/save', async (req, res) => {
   try {
@@ -19,8 +20,7 @@ router.post('/checkpoints/save', async (req, res) => {
       });
     }
 
-    // Get task from memory (in production, this would come from database)
-    const task = tasks.get(taskId);
+    const task = await taskRepository.findById(taskId);
 
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
@@ -33,13 +33,13 @@ router.post('/checkpoints/save', async (req, res) => {
       userId: task.userId,
       sessionId: task.sessionId,
       checkPointId: task.checkPointId,
-      question: task.prompt,
+      question: task.goal,
       answer: task.result?.summary || 'Task completed',
-      description: `Code generation: ${task.prompt.substring(0, 100)}`,
+      description: `Code generation: ${task.goal.substring(0, 100)}`,
       metadata: {
-        modelUsed: task.model || 'default',
+        modelUsed: task.modelUsed || 'default',
         filesModified: task.result?.filesModified || [],
-        tokensUsed: 0,
+        tokensUsed: task.usage?.totalTokens || 0,
         duration: Date.now() - task.createdAt.getTime(),
       },
     });
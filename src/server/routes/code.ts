@@ -0,0 +1,47 @@
+/**
+ * Code Route - Semantic search over a working directory
+ */
+
+import { Router } from 'express';
+import * as fs from 'fs';
+import { getCodeIndex } from '../../agent/code-index';
+import { logger } from '../middleware/logger';
+
+const router = Router();
+
+const MAX_LIMIT = 50;
+
+// Search code by meaning; the index is refreshed incrementally before each search
+router.get('/code/search', async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    const workingDirectory =
+      typeof req.query.workingDirectory === 'string' ? req.query.workingDirectory : process.cwd();
+    const include = typeof req.query.include === 'string' ? req.query.include : undefined;
+    const limit = Math.min(parseInt(String(req.query.limit)) || 10, MAX_LIMIT);
+
+    if (!query) {
+      return res.status(400).json({ error: 'q is required' });
+    }
+
+    if (!fs.existsSync(workingDirectory) || !fs.statSync(workingDirectory).isDirectory()) {
+      return res.status(400).json({ error: `Not a directory: ${workingDirectory}` });
+    }
+
+    const results = await getCodeIndex(workingDirectory).search(query, { limit, include });
+
+    res.json({
+      query,
+      workingDirectory,
+      results,
+    });
+  } catch (error: any) {
+    logger.error('Code search error:', error);
+    res.status(500).json({
+      error: 'Failed to search code',
+      message: error.message,
+    });
+  }
+});
+
+export default router;
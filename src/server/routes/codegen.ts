@@ -3,14 +3,46 @@
  */
 
 import { Router } from 'express';
-import { generateTaskId, generateCheckpointId } from '../../shared/utils/id-generator';
+import {
+  generateTaskId,
+  generateCheckpointId,
+  generateApprovalId,
+  generateQuestionId,
+} from '../../shared/utils/id-generator';
 import { Agent } from '../../agent';
+import { applyDiffSelection, findChangedSincePreview } from '../../agent/selection';
+import { rollbackJournal, findChangedSince } from '../../agent/journal';
+import { isNewFailure } from '../../agent/verification';
+import { hashPlan } from '../../shared/utils/plan-hash';
+import {
+  ApprovalHandler,
+  PendingApproval,
+  PendingQuestion,
+  QuestionHandler,
+  Task,
+  TaskPlan,
+  TaskStatus,
+  TaskType,
+  VerificationResult,
+} from '../../shared/types/task';
+import { TaskRepository } from '../../db/repositories/task-repo';
+import { UsageRepository } from '../../db/repositories/usage-repo';
+import { UsageListener } from '../../llm/metering';
+import { addUsage, emptyUsageSummary } from '../../shared/utils/usage';
+import { StatusEvent } from '../../shared/types/events';
+import { taskEvents } from '../services/task-events';
+import { approvals, questions } from '../services/replies';
+import { TaskCancelledError } from '../../shared/errors';
 import { logger } from '../middleware/logger';
 
 const router = Router();
+const taskRepository = new TaskRepository();
+const usageRepository = new UsageRepository();
 
-// In-memory task storage (will be replaced with database in Phase 6)
-const tasks = new Map<string, any>();
+// Abort controllers of agent runs in progress, by task ID
+const runningTasks = new Map<string, AbortController>();
+
+const MAX_ANSWER_LENGTH = 10000;
 
 router.post('/codegen', async (req, res) => {
   try {
@@ -32,25 +64,26 @@ router.post('/codegen', async (req, res) => {
     const checkPointId = generateCheckpointId();
 
     // Create task
-    const task = {
+    const now = new Date();
+    await taskRepository.create({
       taskId,
       checkPointId,
       sessionId,
       userId,
-      status: 'pending',
-      prompt,
-      model,
+      type: TaskType.CODEGEN,
+      status: TaskStatus.PENDING,
+      goal: prompt,
+      modelUsed: model,
       context,
       options,
-      createdAt: new Date(),
+      createdAt: now,
+      updatedAt: now,
       progress: {
         currentStep: 0,
         totalSteps: 0,
         currentAction: 'Initializing...',
       },
-    };
-
-    tasks.set(taskId, task);
+    });
 
     // Execute agent in background (don't await)
     executeAgentInBackground(taskId, prompt, model, context?.workingDirectory, options);
@@ -72,7 +105,7 @@ router.get('/tasks/:taskId', async (req, res) => {
   try {
     const { taskId } = req.params;
 
-    const task = tasks.get(taskId);
+    const task = await taskRepository.findById(taskId);
 
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
@@ -83,6 +116,9 @@ router.get('/tasks/:taskId', async (req, res) => {
       status: task.status,
       progress: task.progress,
       result: task.result,
+      pendingApproval: task.pendingApproval || undefined,
+      pendingQuestion: task.pendingQuestion || undefined,
+      usage: task.usage,
       error: task.error,
     });
   } catch (error: any) {
@@ -90,12 +126,62 @@ router.get('/tasks/:taskId', async (req, res) => {
   }
 });
 
-// Apply changes endpoint - executes the plan after user approval
+// Event stream endpoint - Server-Sent Events with logs, step transitions, tool output and tokens
+router.get('/tasks/:taskId/events', async (req, res) => {
+  try {
+    const { taskId } = req.params;
+
+    const task = await taskRepository.findById(taskId);
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const send = (chunk: string) => {
+      res.write(chunk);
+      // compression() buffers responses unless flushed
+      (res as any).flush?.();
+    };
+
+    // Current state first, so clients don't have to wait for the next change
+    send(`event: status\ndata: ${JSON.stringify(toStatusEvent(task))}\n\n`);
+
+    const lastEventId = parseInt(String(req.headers['last-event-id'] || '0'), 10) || 0;
+    const unsubscribe = taskEvents.subscribe(
+      taskId,
+      ({ id, event }) => send(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+      lastEventId
+    );
+
+    // Keep proxies and idle timeouts from closing a quiet stream
+    const heartbeat = setInterval(() => send(': heartbeat\n\n'), 15000);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    return;
+  } catch (error: any) {
+    logger.error('Event stream error:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// Apply changes endpoint - executes the previewed plan verbatim after user approval
 router.post('/tasks/:taskId/apply', async (req, res) => {
   try {
     const { taskId } = req.params;
+    const { planHash, selection } = req.body || {};
 
-    const task = tasks.get(taskId);
+    const task = await taskRepository.findById(taskId);
 
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
@@ -105,17 +191,70 @@ router.post('/tasks/:taskId/apply', async (req, res) => {
       return res.status(400).json({ error: 'No plan available to apply' });
     }
 
-    if (task.status !== 'completed') {
+    if (task.status !== TaskStatus.COMPLETED) {
       return res.status(400).json({ error: 'Task is not ready to apply' });
     }
 
+    if (task.result.applied) {
+      return res.status(409).json({ error: 'Plan has already been applied' });
+    }
+
+    if (!planHash) {
+      return res.status(400).json({ error: 'planHash of the approved plan is required' });
+    }
+
+    // The stored plan must still be the one that was previewed...
+    const currentHash = hashPlan(task.result.plan);
+    if (currentHash !== task.result.planHash) {
+      logger.warn(`Stored plan for task ${taskId} does not match its preview hash`);
+      return res.status(409).json({ error: 'Stored plan has been modified since preview' });
+    }
+
+    // ...and the one the user actually approved
+    if (planHash !== currentHash) {
+      return res.status(409).json({ error: 'Approved plan is stale; review the current preview again' });
+    }
+
+    // Claimed before the next await, so a second request for the same plan is rejected
+    // instead of applying it to the tree again
+    if (runningTasks.has(taskId)) {
+      return res.status(409).json({ error: 'Plan is already being applied' });
+    }
+    const controller = new AbortController();
+    runningTasks.set(taskId, controller);
+
+    const workingDirectory = task.context?.workingDirectory || process.cwd();
+    let approvedPlan: TaskPlan = task.result.plan;
+    try {
+      // Steps run against files edited since the preview would not produce the approved diff
+      const changedFiles = await findChangedSincePreview(task.result.diffs || [], workingDirectory);
+      if (changedFiles.length > 0) {
+        runningTasks.delete(taskId);
+        return res.status(409).json({
+          error: 'Files have changed since the preview; review the task again',
+          changedFiles,
+        });
+      }
+
+      // Narrow the plan down to the files and hunks the user accepted
+      if (selection) {
+        approvedPlan = await applyDiffSelection(task.result.plan, task.result.diffs || [], selection, workingDirectory);
+      }
+    } catch (error: any) {
+      runningTasks.delete(taskId);
+      return res.status(409).json({ error: error.message });
+    }
+
     // Execute the plan (without preview mode) - wrap in try-catch to prevent crashes
-    executeApprovedPlan(taskId, task.prompt, task.model, task.context?.workingDirectory, task.options)
-      .catch((error) => {
+    executeApprovedPlan(taskId, approvedPlan, controller, task.modelUsed, task.context?.workingDirectory, task.options)
+      .catch(async (error) => {
         logger.error(`Failed to execute approved plan for task ${taskId}:`, error);
-        task.status = 'failed';
-        task.error = error.message;
-        task.progress.currentAction = 'Failed to apply changes';
+        runningTasks.delete(taskId);
+        await updateTask(taskId, {
+          status: TaskStatus.FAILED,
+          error: error.message,
+          progress: { ...task.progress, currentAction: 'Failed to apply changes' },
+        });
       });
 
     return res.json({
@@ -128,6 +267,278 @@ router.post('/tasks/:taskId/apply', async (req, res) => {
   }
 });
 
+// Cancel endpoint - aborts the running agent; file changes made so far are rolled back
+router.post('/tasks/:taskId/cancel', async (req, res) => {
+  try {
+    const { taskId } = req.params;
+
+    const task = await taskRepository.findById(taskId);
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const controller = runningTasks.get(taskId);
+    if (!controller) {
+      return res.status(409).json({ error: 'Task is not running' });
+    }
+
+    logger.info(`Cancelling task ${taskId}`);
+
+    await updateTask(taskId, {
+      progress: { ...task.progress, currentAction: 'Cancelling...' },
+    });
+    controller.abort();
+
+    return res.json({
+      message: 'Cancelling task...',
+      taskId,
+    });
+  } catch (error: any) {
+    logger.error('Cancel error:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// Approval endpoint - answers a command the policy paused the task for
+router.post('/tasks/:taskId/approval', async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { approvalId, approved } = req.body || {};
+
+    if (typeof approvalId !== 'string' || typeof approved !== 'boolean') {
+      return res.status(400).json({ error: 'approvalId (string) and approved (boolean) are required' });
+    }
+
+    const task = await taskRepository.findById(taskId);
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (!approvals.answer(taskId, approvalId, approved)) {
+      return res.status(409).json({ error: 'No such approval is pending for this task' });
+    }
+
+    logger.info(`Task ${taskId}: command ${approved ? 'approved' : 'rejected'} (${approvalId})`);
+
+    return res.json({
+      message: approved ? 'Command approved' : 'Command rejected',
+      taskId,
+    });
+  } catch (error: any) {
+    logger.error('Approval error:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// Answer endpoint - replies to a question the agent paused the task for
+router.post('/tasks/:taskId/answer', async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { questionId, answer } = req.body || {};
+
+    if (typeof questionId !== 'string' || typeof answer !== 'string' || !answer.trim()) {
+      return res.status(400).json({ error: 'questionId (string) and a non-empty answer (string) are required' });
+    }
+    if (answer.length > MAX_ANSWER_LENGTH) {
+      return res.status(400).json({ error: `answer must be at most ${MAX_ANSWER_LENGTH} characters` });
+    }
+
+    const task = await taskRepository.findById(taskId);
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (!questions.answer(taskId, questionId, answer.trim())) {
+      return res.status(409).json({ error: 'No such question is pending for this task' });
+    }
+
+    logger.info(`Task ${taskId}: question answered (${questionId})`);
+
+    return res.json({
+      message: 'Answer sent',
+      taskId,
+    });
+  } catch (error: any) {
+    logger.error('Answer error:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// Revert endpoint - restores the files a completed task changed on disk
+router.post('/tasks/:taskId/revert', async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { force } = req.body || {};
+
+    const task = await taskRepository.findById(taskId);
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (task.status === TaskStatus.REVERTED) {
+      return res.status(409).json({ error: 'Task has already been reverted' });
+    }
+
+    // Autonomous runs keep their changes when checks fail, so failed tasks can be reverted too
+    if (task.status !== TaskStatus.COMPLETED && task.status !== TaskStatus.FAILED) {
+      return res.status(400).json({ error: 'Only completed or failed tasks can be reverted' });
+    }
+
+    const journal = task.result?.journal;
+    if (!journal || journal.length === 0) {
+      return res.status(400).json({ error: 'Task made no file changes to revert' });
+    }
+
+    // Refuse to overwrite edits made after the task unless explicitly forced
+    const changedSince = await findChangedSince(journal);
+    if (changedSince.length > 0 && !force) {
+      return res.status(409).json({
+        error: 'Files have changed since the task ran; pass force to revert anyway',
+        changedFiles: changedSince,
+      });
+    }
+
+    const restoredFiles = await rollbackJournal(journal);
+
+    await updateTask(taskId, {
+      status: TaskStatus.REVERTED,
+      progress: { ...task.progress, currentAction: 'Changes reverted' },
+      result: { ...task.result!, summary: `Reverted changes to ${restoredFiles.length} file(s).` },
+    });
+
+    logger.info(`Task ${taskId} reverted (${restoredFiles.length} file(s))`);
+
+    return res.json({
+      message: 'Changes reverted',
+      taskId,
+      restoredFiles,
+    });
+  } catch (error: any) {
+    logger.error('Revert error:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update a task and tell event stream subscribers about its new status
+ */
+async function updateTask(taskId: string, updates: Partial<Task>): Promise<Task | null> {
+  const task = await taskRepository.update(taskId, updates);
+  if (task) {
+    taskEvents.publish(taskId, toStatusEvent(task));
+  }
+  return task;
+}
+
+async function markCancelled(task: Task): Promise<void> {
+  await updateTask(task.taskId, {
+    status: TaskStatus.CANCELLED,
+    error: 'Task was cancelled; file changes were rolled back',
+    progress: { ...task.progress, currentAction: 'Cancelled' },
+  });
+}
+
+/**
+ * Pause the task until a user answers through POST /tasks/:taskId/approval
+ */
+function createApprovalHandler(taskId: string): ApprovalHandler {
+  return async (request, signal) => {
+    const approval: PendingApproval = { ...request, approvalId: generateApprovalId(), requestedAt: new Date() };
+
+    // Registered first so an answer that arrives while the task is being updated is not lost
+    const answer = approvals.request(taskId, approval.approvalId, signal);
+
+    const task = await taskRepository.findById(taskId);
+    const progress = task?.progress || { currentStep: 0, totalSteps: 0, currentAction: '' };
+    await updateTask(taskId, {
+      status: TaskStatus.AWAITING_APPROVAL,
+      pendingApproval: approval,
+      progress: { ...progress, currentAction: `Waiting for approval to run: ${request.command}` },
+    });
+    taskEvents.publish(taskId, { type: 'approval_required', approval });
+
+    try {
+      return await answer;
+    } finally {
+      // A cancelled task gets its final status from markCancelled
+      const resumed: Partial<Task> = signal?.aborted ? {} : { status: TaskStatus.EXECUTING, progress };
+      await updateTask(taskId, { ...resumed, pendingApproval: null });
+    }
+  };
+}
+
+/**
+ * Pause the task until a user answers through POST /tasks/:taskId/answer
+ */
+function createQuestionHandler(taskId: string): QuestionHandler {
+  return async (request, signal) => {
+    const question: PendingQuestion = { ...request, questionId: generateQuestionId(), requestedAt: new Date() };
+
+    // Registered first so an answer that arrives while the task is being updated is not lost
+    const answer = questions.request(taskId, question.questionId, signal);
+
+    const task = await taskRepository.findById(taskId);
+    const progress = task?.progress || { currentStep: 0, totalSteps: 0, currentAction: '' };
+    await updateTask(taskId, {
+      status: TaskStatus.AWAITING_INPUT,
+      pendingQuestion: question,
+      progress: { ...progress, currentAction: `Waiting for an answer: ${request.question}` },
+    });
+    taskEvents.publish(taskId, { type: 'input_required', question });
+
+    try {
+      return await answer;
+    } finally {
+      // A cancelled task gets its final status from markCancelled
+      const resumed: Partial<Task> = signal?.aborted ? {} : { status: TaskStatus.EXECUTING, progress };
+      await updateTask(taskId, { ...resumed, pendingQuestion: null });
+    }
+  };
+}
+
+/**
+ * Attribute every LLM request of a run to the task, its session and its user.
+ * The task keeps a running total, so preview and apply add up.
+ */
+function createUsageRecorder(task: Task): UsageListener {
+  let total = task.usage || emptyUsageSummary();
+
+  return (usage) => {
+    total = addUsage(total, usage);
+    void taskRepository.update(task.taskId, { usage: total });
+    void usageRepository.record({
+      ...usage,
+      taskId: task.taskId,
+      sessionId: task.sessionId,
+      userId: task.userId,
+      createdAt: new Date(),
+    });
+  };
+}
+
+/**
+ * A run whose changes do not pass their checks did not complete, whatever its steps returned
+ */
+function describeVerificationFailure(verification?: VerificationResult): string | undefined {
+  if (!verification || verification.passed) {
+    return undefined;
+  }
+
+  const failed = verification.checks.filter(isNewFailure).map((check) => check.name);
+  return (
+    `Checks failed after ${verification.repairRounds} repair round(s): ${failed.join(', ')}` +
+    (verification.rolledBack ? '; file changes were rolled back' : '')
+  );
+}
+
+function toStatusEvent(task: Task): StatusEvent {
+  return { type: 'status', status: task.status, progress: task.progress, error: task.error };
+}
+
 /**
  * Execute agent in background
  */
@@ -138,12 +549,21 @@ async function executeAgentInBackground(
   workingDirectory?: string,
   options?: any
 ): Promise<void> {
-  const task = tasks.get(taskId);
-  if (!task) return;
+  // Registered before the first await so the task can be cancelled right away
+  const controller = new AbortController();
+  runningTasks.set(taskId, controller);
+
+  const task = await taskRepository.findById(taskId);
+  if (!task) {
+    runningTasks.delete(taskId);
+    return;
+  }
 
   try {
-    task.status = 'executing';
-    task.progress.currentAction = 'Creating execution plan...';
+    await updateTask(taskId, {
+      status: TaskStatus.EXECUTING,
+      progress: { ...task.progress, currentAction: 'Creating execution plan...' },
+    });
 
     // Run in preview mode first (don't apply changes yet)
     const agent = new Agent({
@@ -153,25 +573,52 @@ async function executeAgentInBackground(
       autonomous: options?.autonomous || false,
       maxIterations: options?.maxIterations || 10,
       previewMode: options?.previewMode !== false, // Preview mode by default
+      mode: options?.mode,
+      maxParallelSteps: options?.maxParallelSteps,
+      onEvent: (event) => taskEvents.publish(taskId, event),
+      signal: controller.signal,
+      contextFiles: task.context?.files,
+      requestApproval: createApprovalHandler(taskId),
+      askUser: createQuestionHandler(taskId),
+      onUsage: createUsageRecorder(task),
     });
 
     logger.info(`Executing task ${taskId}: ${prompt} (preview: ${agent['config'].previewMode})`);
 
     const result = await agent.execute(prompt);
+    const verificationError = describeVerificationFailure(result.verification);
 
     // Update task with results
-    task.status = 'completed';
-    task.progress.currentStep = result.completedSteps.length;
-    task.progress.totalSteps = result.plan?.steps.length || result.completedSteps.length + result.failedSteps.length;
-    task.progress.currentAction = result.plan ? 'Waiting for approval' : 'Completed';
-    task.result = {
-      filesModified: result.filesModified,
-      summary: result.plan
-        ? `Plan created with ${result.plan.steps.length} step(s). Waiting for approval.`
-        : `Task completed successfully. Modified ${result.filesModified.length} file(s).`,
-      logs: result.logs,
-      plan: result.plan, // Include plan for preview
-    };
+    await updateTask(taskId, {
+      status: verificationError ? TaskStatus.FAILED : TaskStatus.COMPLETED,
+      error: verificationError,
+      progress: {
+        currentStep: result.completedSteps.length,
+        totalSteps: result.plan?.steps.length || result.completedSteps.length + result.failedSteps.length,
+        currentAction: result.plan ? 'Waiting for approval' : verificationError ? 'Verification failed' : 'Completed',
+      },
+      result: {
+        filesModified: result.filesModified,
+        fileOperations: result.fileOperations,
+        summary: result.plan
+          ? `Plan created with ${result.plan.steps.length} step(s). Waiting for approval.`
+          : verificationError ||
+            result.summary ||
+            `Task completed successfully. Modified ${result.filesModified.length} file(s).`,
+        logs: result.logs,
+        plan: result.plan, // Include plan for preview
+        planHash: result.plan ? hashPlan(result.plan) : undefined,
+        diffs: result.diffs,
+        previewFailedSteps: result.plan ? result.failedSteps : undefined,
+        journal: result.plan ? undefined : result.journal, // Only runs that touched disk can be reverted
+        verification: result.verification,
+      },
+    });
+
+    if (verificationError) {
+      logger.warn(`Task ${taskId} failed: ${verificationError}`);
+      return;
+    }
 
     logger.info(`Task ${taskId} ${result.plan ? 'plan created' : 'completed successfully'}`);
 
@@ -181,22 +628,32 @@ async function executeAgentInBackground(
       userId: task.userId,
       sessionId: task.sessionId,
       checkPointId: task.checkPointId,
-      question: task.prompt,
+      question: task.goal,
       answer: result.logs.map(l => `[${l.level}] ${l.message}`).join('\n'),
-      description: `Code generation: ${task.prompt.substring(0, 100)}`,
+      description: `Code generation: ${task.goal.substring(0, 100)}`,
       metadata: {
-        modelUsed: task.model || 'default',
+        modelUsed: task.modelUsed || 'default',
         filesModified: result.filesModified,
-        tokensUsed: 0,
+        tokensUsed: task.usage?.totalTokens || 0,
         duration: Date.now() - task.createdAt.getTime(),
       },
     });
   } catch (error: any) {
+    if (error instanceof TaskCancelledError) {
+      logger.info(`Task ${taskId} cancelled`);
+      await markCancelled(task);
+      return;
+    }
+
     logger.error(`Task ${taskId} failed:`, error);
 
-    task.status = 'failed';
-    task.error = error.message;
-    task.progress.currentAction = 'Failed';
+    await updateTask(taskId, {
+      status: TaskStatus.FAILED,
+      error: error.message,
+      progress: { ...task.progress, currentAction: 'Failed' },
+    });
+  } finally {
+    runningTasks.delete(taskId);
   }
 }
 
@@ -205,19 +662,25 @@ async function executeAgentInBackground(
  */
 async function executeApprovedPlan(
   taskId: string,
-  prompt: string,
+  plan: TaskPlan,
+  controller: AbortController, // Already registered in runningTasks by the apply route
   model?: string,
   workingDirectory?: string,
   options?: any
 ): Promise<void> {
-  const task = tasks.get(taskId);
-  if (!task) return;
+  const task = await taskRepository.findById(taskId);
+  if (!task) {
+    runningTasks.delete(taskId);
+    return;
+  }
 
   try {
-    task.status = 'executing';
-    task.progress.currentAction = 'Applying changes...';
+    await updateTask(taskId, {
+      status: TaskStatus.EXECUTING,
+      progress: { ...task.progress, currentAction: 'Applying changes...' },
+    });
 
-    // Run agent with preview mode OFF to actually apply changes
+    // Run agent with preview mode OFF to actually apply the approved plan
     const agent = new Agent({
       taskId,
       model,
@@ -225,35 +688,65 @@ async function executeApprovedPlan(
       autonomous: options?.autonomous || false,
       maxIterations: options?.maxIterations || 10,
       previewMode: false, // Actually execute the changes
+      maxParallelSteps: options?.maxParallelSteps,
+      onEvent: (event) => taskEvents.publish(taskId, event),
+      signal: controller.signal,
+      requestApproval: createApprovalHandler(taskId),
+      askUser: createQuestionHandler(taskId),
+      onUsage: createUsageRecorder(task),
     });
 
-    logger.info(`Applying changes for task ${taskId}: ${prompt}`);
+    logger.info(`Applying approved plan for task ${taskId} (${plan.steps.length} step(s))`);
 
-    const result = await agent.execute(prompt);
+    const result = await agent.executePlan(plan, task.goal);
+    const verificationError = describeVerificationFailure(result.verification);
 
     // Update task with results
-    task.status = 'completed';
-    task.progress.currentStep = result.completedSteps.length;
-    task.progress.totalSteps = result.completedSteps.length + result.failedSteps.length;
-    task.progress.currentAction = 'Changes applied';
-    task.result = {
-      filesModified: result.filesModified,
-      summary: `Changes applied successfully. Modified ${result.filesModified.length} file(s).`,
-      logs: result.logs,
-      plan: task.result.plan, // Keep the original plan for reference
-    };
+    await updateTask(taskId, {
+      status: verificationError ? TaskStatus.FAILED : TaskStatus.COMPLETED,
+      error: verificationError,
+      progress: {
+        currentStep: result.completedSteps.length,
+        totalSteps: plan.steps.length,
+        currentAction: verificationError ? 'Verification failed' : 'Changes applied',
+      },
+      result: {
+        filesModified: result.filesModified,
+        fileOperations: result.fileOperations,
+        summary:
+          verificationError || `Changes applied successfully. Modified ${result.filesModified.length} file(s).`,
+        logs: result.logs,
+        plan: task.result?.plan, // Keep the original plan for reference
+        planHash: task.result?.planHash,
+        applied: !result.verification?.rolledBack,
+        journal: result.journal,
+        verification: result.verification,
+      },
+    });
+
+    if (verificationError) {
+      logger.warn(`Task ${taskId} apply failed: ${verificationError}`);
+      return;
+    }
 
     logger.info(`Task ${taskId} changes applied successfully`);
   } catch (error: any) {
+    if (error instanceof TaskCancelledError) {
+      logger.info(`Task ${taskId} apply cancelled`);
+      await markCancelled(task);
+      return;
+    }
+
     logger.error(`Task ${taskId} apply failed:`, error);
 
-    task.status = 'failed';
-    task.error = error.message;
-    task.progress.currentAction = 'Failed to apply changes';
+    await updateTask(taskId, {
+      status: TaskStatus.FAILED,
+      error: error.message,
+      progress: { ...task.progress, currentAction: 'Failed to apply changes' },
+    });
+  } finally {
+    runningTasks.delete(taskId);
   }
 }
 
 export default router;
-
-// Export tasks map for use in other routes (temporary solution)
-export { tasks };
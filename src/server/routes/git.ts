@@ -5,9 +5,11 @@
 import { Router } from 'express';
 import { GitTool } from '../../agent/tools/git-tool';
 import { logger } from '../middleware/logger';
-import { tasks } from './codegen';
+import { TaskRepository } from '../../db/repositories/task-repo';
+import { TaskStatus } from '../../shared/types/task';
 
 const router = Router();
+const taskRepository = new TaskRepository();
 
 router.post('/git/create-pr', async (req, res) => {
   try {
@@ -19,14 +21,13 @@ router.post('/git/create-pr', async (req, res) => {
       });
     }
 
-    // Get task from memory
-    const task = tasks.get(taskId);
+    const task = await taskRepository.findById(taskId);
 
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    if (task.status !== 'completed') {
+    if (task.status !== TaskStatus.COMPLETED) {
       return res.status(400).json({
         error: 'Cannot create PR for incomplete task',
       });
@@ -79,7 +80,7 @@ router.post('/git/create-pr', async (req, res) => {
     }
 
     // Commit changes
-    const commitMessage = `feat: ${task.prompt.substring(0, 80)}
+    const commitMessage = `feat: ${task.goal.substring(0, 80)}
 
 Generated by Mikasa AI
 Task ID: ${taskId}
@@ -118,8 +119,8 @@ ${task.result?.filesModified?.map((f: string) => `- ${f}`).join('\n') || 'Multip
     const prResult = await gitTool.execute({
       operation: 'createPR',
       params: {
-        title: task.prompt.substring(0, 100),
-        body: `## Summary\n\nGenerated by Mikasa AI\n\n**Prompt:** ${task.prompt}\n\n**Files Modified:**\n${task.result?.filesModified?.map((f: string) => `- ${f}`).join('\n') || 'Multiple files'}\n\n**Task ID:** ${taskId}\n**Session ID:** ${sessionId}`,
+        title: task.goal.substring(0, 100),
+        body: `## Summary\n\nGenerated by Mikasa AI\n\n**Prompt:** ${task.goal}\n\n**Files Modified:**\n${task.result?.filesModified?.map((f: string) => `- ${f}`).join('\n') || 'Multiple files'}\n\n**Task ID:** ${taskId}\n**Session ID:** ${sessionId}`,
         base: 'main',
         head: branchName,
       },
@@ -9,6 +9,8 @@ import codegenRouter from './codegen';
 import modelsRouter from './models';
 import checkpointsRouter from './checkpoints';
 import gitRouter from './git';
+import codeRouter from './code';
+import usageRouter from './usage';
 
 const router = Router();
 
@@ -18,5 +20,7 @@ router.use(codegenRouter);
 router.use(modelsRouter);
 router.use(checkpointsRouter);
 router.use(gitRouter);
+router.use(codeRouter);
+router.use(usageRouter);
 
 export default router;
@@ -0,0 +1,61 @@
+/**
+ * Usage Route - LLM tokens and estimated cost per user, session and task
+ */
+
+import { Router } from 'express';
+import { UsageRepository } from '../../db/repositories/usage-repo';
+import { UsageFilter, UsageGroupBy } from '../../shared/types/usage';
+import { logger } from '../middleware/logger';
+
+const router = Router();
+const usageRepository = new UsageRepository();
+
+const GROUP_BY: UsageGroupBy[] = ['user', 'session', 'task', 'model', 'day'];
+
+router.get('/usage', async (req, res) => {
+  try {
+    const { userId, sessionId, taskId, since, until, groupBy } = req.query;
+
+    if (groupBy !== undefined && !GROUP_BY.includes(groupBy as UsageGroupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of: ${GROUP_BY.join(', ')}` });
+    }
+
+    const sinceDate = parseDate(since);
+    const untilDate = parseDate(until);
+    if (sinceDate === null || untilDate === null) {
+      return res.status(400).json({ error: 'since and until must be dates, e.g. 2025-01-31' });
+    }
+
+    const filter: UsageFilter = {
+      userId: userId as string | undefined,
+      sessionId: sessionId as string | undefined,
+      taskId: taskId as string | undefined,
+      since: sinceDate,
+      until: untilDate,
+    };
+
+    const report = await usageRepository.summarize(filter, groupBy as UsageGroupBy | undefined);
+
+    return res.json({
+      ...report,
+      filter,
+      currency: 'USD',
+    });
+  } catch (error: any) {
+    logger.error('Error summarizing usage:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * undefined when the parameter is absent, null when it is not a date
+ */
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export default router;
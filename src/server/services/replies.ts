@@ -0,0 +1,61 @@
+/**
+ * Reply Registry
+ * Holds agent runs that are paused until a user replies: approves or rejects
+ * something (such as a command the command policy flagged), or answers a
+ * question the agent asked
+ */
+
+import { TaskCancelledError } from '../../shared/errors';
+
+interface Waiter<T> {
+  taskId: string;
+  resolve: (reply: T) => void;
+}
+
+export class ReplyRegistry<T> {
+  private waiters = new Map<string, Waiter<T>>();
+
+  /**
+   * Register a request and wait for the reply. It can be answered as soon as
+   * this returns; aborting the signal rejects with TaskCancelledError.
+   */
+  request(taskId: string, requestId: string, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new TaskCancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters.delete(requestId);
+        reject(new TaskCancelledError());
+      };
+
+      this.waiters.set(requestId, {
+        taskId,
+        resolve: (reply) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(reply);
+        },
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Resume the run waiting on a request. Returns false if the task has no
+   * such request pending.
+   */
+  answer(taskId: string, requestId: string, reply: T): boolean {
+    const waiter = this.waiters.get(requestId);
+    if (!waiter || waiter.taskId !== taskId) {
+      return false;
+    }
+
+    this.waiters.delete(requestId);
+    waiter.resolve(reply);
+    return true;
+  }
+}
+
+export const approvals = new ReplyRegistry<boolean>(); // approvalId -> approved
+export const questions = new ReplyRegistry<string>(); // questionId -> answer
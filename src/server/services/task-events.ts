@@ -0,0 +1,77 @@
+/**
+ * Task Event Hub
+ * Fans task events out to SSE subscribers and keeps a short history so clients
+ * that connect late (or reconnect) can catch up
+ */
+
+import { EventEmitter } from 'events';
+import { TaskEvent } from '../../shared/types/events';
+
+const MAX_EVENTS_PER_TASK = 1000;
+const MAX_TRACKED_TASKS = 100;
+
+export interface SequencedTaskEvent {
+  id: number;
+  event: TaskEvent;
+}
+
+export type TaskEventListener = (entry: SequencedTaskEvent) => void;
+
+export class TaskEventHub {
+  private emitter = new EventEmitter();
+  private history = new Map<string, SequencedTaskEvent[]>();
+  private nextId = new Map<string, number>();
+
+  constructor() {
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(taskId: string, event: TaskEvent): void {
+    const id = this.nextId.get(taskId) || 1;
+    this.nextId.set(taskId, id + 1);
+
+    const entry = { id, event };
+    const events = this.getHistory(taskId);
+    events.push(entry);
+    if (events.length > MAX_EVENTS_PER_TASK) {
+      events.shift();
+    }
+
+    this.emitter.emit(taskId, entry);
+  }
+
+  /**
+   * Replay events after lastEventId, then deliver new ones as they arrive.
+   * Returns a function that unsubscribes.
+   */
+  subscribe(taskId: string, listener: TaskEventListener, lastEventId: number = 0): () => void {
+    for (const entry of this.history.get(taskId) || []) {
+      if (entry.id > lastEventId) {
+        listener(entry);
+      }
+    }
+
+    this.emitter.on(taskId, listener);
+    return () => {
+      this.emitter.off(taskId, listener);
+    };
+  }
+
+  private getHistory(taskId: string): SequencedTaskEvent[] {
+    let events = this.history.get(taskId);
+    if (!events) {
+      events = [];
+      this.history.set(taskId, events);
+
+      // Forget the oldest task once too many are tracked (Map keeps insertion order)
+      if (this.history.size > MAX_TRACKED_TASKS) {
+        const oldest = this.history.keys().next().value as string;
+        this.history.delete(oldest);
+      }
+    }
+    return events;
+  }
+}
+
+export const taskEvents = new TaskEventHub();
@@ -11,6 +11,8 @@ export const AUDIO_FILE_PREFIX = 'mikasa-audio-';
 
 export const DEFAULT_MAX_ITERATIONS = 10;
 export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_MAX_PARALLEL_STEPS = 4;
+export const DEFAULT_MAX_REPAIR_ROUNDS = 2;
 export const DEFAULT_TIMEOUT = 300000; // 5 minutes
 
 export const SUPPORTED_AUDIO_FORMATS = ['wav', 'mp3'] as const;
@@ -22,9 +24,25 @@ export const LLM_PROVIDERS = {
   OPENSOURCE: 'opensource',
 } as const;
 
+// USD per million tokens; self-hosted models have no price unless configured
+export const DEFAULT_MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+};
+
 export const TOOL_NAMES = {
   FILE: 'file',
   COMMAND: 'command',
   GIT: 'git',
   SEARCH: 'search',
+  CODE_SEARCH: 'code_search',
+  PROCESS: 'process',
+  ASK_USER: 'ask_user',
 } as const;
@@ -30,6 +30,20 @@ export class ToolExecutionError extends MikasaError {
   }
 }
 
+export class SandboxViolationError extends MikasaError {
+  constructor(message: string, public readonly targetPath: string) {
+    super(message);
+    this.name = 'SandboxViolationError';
+  }
+}
+
+export class CommandBlockedError extends MikasaError {
+  constructor(message: string, public readonly command: string) {
+    super(message);
+    this.name = 'CommandBlockedError';
+  }
+}
+
 export class AgentError extends MikasaError {
   constructor(message: string) {
     super(message);
@@ -37,6 +51,13 @@ export class AgentError extends MikasaError {
   }
 }
 
+export class TaskCancelledError extends AgentError {
+  constructor(message: string = 'Task was cancelled') {
+    super(message);
+    this.name = 'TaskCancelledError';
+  }
+}
+
 export class AudioRecordingError extends MikasaError {
   constructor(message: string) {
     super(message);
@@ -2,6 +2,8 @@
  * Mikasa Configuration Types
  */
 
+import { VerificationCheckKind } from './task';
+
 export interface MikasaConfig {
   version: string;
   server: ServerConfig;
@@ -27,6 +29,16 @@ export interface LLMConfig {
     claude?: ClaudeProviderConfig;
     opensource?: OpenSourceProviderConfig;
   };
+  pricing?: Record<string, ModelPrice>; // Added to the built-in price table, by model name
+}
+
+/**
+ * USD per million tokens. A key matches a model name exactly or as a prefix,
+ * e.g. "claude-sonnet-4-5" covers "claude-sonnet-4-5-20250929".
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
 }
 
 export interface ClaudeProviderConfig {
@@ -43,15 +55,94 @@ export interface OpenSourceProviderConfig {
 }
 
 export interface AgentConfig {
+  mode?: 'plan' | 'tool-use';
   maxIterations: number;
   maxRetries: number;
+  maxParallelSteps?: number;
   timeout: number;
   enabledTools: string[];
   safety: {
     allowShellCommands: boolean;
     allowGitPush: boolean;
     allowFileDelete: boolean;
+    sandbox?: SandboxConfig;
+    commandPolicy?: CommandPolicyConfig;
   };
+  execution?: ExecutionConfig;
+  verification?: VerificationConfig;
+  codeSearch?: CodeSearchConfig;
+}
+
+/**
+ * Paths the agent's tools may touch inside the working directory, in
+ * .gitignore syntax (later rules win, `!` re-includes)
+ */
+export interface SandboxConfig {
+  allow?: string[]; // If set, only matching paths are accessible
+  deny?: string[]; // Never accessible; defaults to secrets, .git/ and node_modules/
+}
+
+export type CommandPolicyAction = 'allow' | 'ask' | 'deny';
+
+/**
+ * Which shell commands the agent may run. Every program in a command line
+ * (pipelines, `sh -c` scripts, `sudo`/`xargs` targets, ...) is checked; the
+ * strictest outcome wins, and within a program deny beats ask beats allow.
+ */
+export interface CommandPolicyConfig {
+  defaultAction?: CommandPolicyAction; // For programs no rule matches; defaults to allow
+  rules?: CommandRule[];
+  useDefaultRules?: boolean; // Keep the built-in rules (destructive deletes, curl | sh, ...); defaults to true
+}
+
+export interface CommandRule {
+  action: CommandPolicyAction;
+  program: string; // Program name pattern, e.g. "rm", "python*", "{sh,bash}"
+  args?: string[]; // Each pattern must match some argument; `*` matches anything, `/.../` is a regex
+  piped?: boolean; // Only when the program reads another command's output
+  reason?: string;
+}
+
+/**
+ * How the Command Tool runs processes
+ */
+export interface ExecutionConfig {
+  envAllowList?: string[]; // Extra environment variables passed to commands (`*` wildcards allowed)
+  limits?: ExecutionLimits; // Applied to every command
+  overrides?: ExecutionOverride[]; // Per-command limits; every matching override is layered on in order
+}
+
+export interface ExecutionLimits {
+  timeoutMs?: number; // Wall-clock time before the process group is killed; defaults to 60s
+  cpuSeconds?: number; // CPU time per process (RLIMIT_CPU)
+  memoryMb?: number; // Data memory per process (RLIMIT_DATA)
+  maxOutputBytes?: number; // Per stream; the command is killed beyond this. Defaults to 100MB
+  allowNetwork?: boolean; // false runs the command in its own network namespace (Linux, needs unshare)
+}
+
+export interface ExecutionOverride extends ExecutionLimits {
+  command: string; // Pattern for the whole command line, e.g. "npm test*" or "/^jest\\b/"
+}
+
+/**
+ * Checks run after the agent changes files; failures are fed back for repair
+ */
+export interface VerificationConfig {
+  enabled?: boolean; // Defaults to true
+  checks?: VerificationCheck[]; // Replaces the checks detected from the project's manifests
+  maxRepairRounds?: number; // Defaults to 2; 0 only reports failures
+}
+
+export interface VerificationCheck {
+  name?: string; // Defaults to the kind
+  kind: VerificationCheckKind;
+  command: string;
+  cwd?: string; // Relative to the working directory
+}
+
+export interface CodeSearchConfig {
+  embedder: 'hashed' | 'http'; // hashed: local n-gram hashing, works offline; http: EMBEDDING_ENDPOINT
+  dimensions?: number; // Vector size for the hashed embedder
 }
 
 export interface DatabaseConfig {
@@ -0,0 +1,69 @@
+/**
+ * Task Event Types - streamed to clients while a task runs
+ */
+
+import { ExecutionLog, PendingApproval, PendingQuestion, PlanStep, TaskProgress, TaskStatus } from './task';
+
+export type TaskEvent =
+  | LogEvent
+  | StepEvent
+  | ToolOutputEvent
+  | ToolOutputDeltaEvent
+  | TokenEvent
+  | StatusEvent
+  | ApprovalEvent
+  | QuestionEvent;
+
+export interface LogEvent {
+  type: 'log';
+  log: ExecutionLog;
+}
+
+export interface StepEvent {
+  type: 'step';
+  stepId: string;
+  description: string;
+  status: PlanStep['status'];
+}
+
+export interface ToolOutputEvent {
+  type: 'tool_output';
+  stepId: string;
+  tool: string;
+  success: boolean;
+  output: string;
+  error?: string;
+}
+
+/**
+ * Output of a step that is still running, e.g. a long test run
+ */
+export interface ToolOutputDeltaEvent {
+  type: 'tool_output_delta';
+  stepId: string;
+  tool: string;
+  stream: 'stdout' | 'stderr';
+  delta: string;
+}
+
+export interface TokenEvent {
+  type: 'token';
+  delta: string;
+}
+
+export interface StatusEvent {
+  type: 'status';
+  status: TaskStatus;
+  progress: TaskProgress;
+  error?: string;
+}
+
+export interface ApprovalEvent {
+  type: 'approval_required';
+  approval: PendingApproval;
+}
+
+export interface QuestionEvent {
+  type: 'input_required';
+  question: PendingQuestion;
+}
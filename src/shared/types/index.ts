@@ -6,3 +6,5 @@ export * from './config';
 export * from './session';
 export * from './checkpoint';
 export * from './task';
+export * from './events';
+export * from './usage';
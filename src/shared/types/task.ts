@@ -2,19 +2,60 @@
  * Task Types
  */
 
+import { UsageSummary } from './usage';
+
 export interface Task {
   taskId: string;
   sessionId: string;
+  userId: string;
   checkPointId: string;
   type: TaskType;
   status: TaskStatus;
   goal: string;
+  modelUsed?: string; // LLM model requested for the task
+  context?: TaskContext;
+  options?: Record<string, any>;
+  progress: TaskProgress;
   plan?: TaskPlan;
   execution?: TaskExecution;
+  result?: TaskResult;
+  pendingApproval?: PendingApproval | null; // Set while the task waits in AWAITING_APPROVAL
+  pendingQuestion?: PendingQuestion | null; // Set while the task waits in AWAITING_INPUT
+  usage?: UsageSummary; // Tokens and estimated cost of the task's LLM requests, preview and apply together
+  error?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface TaskContext {
+  workingDirectory?: string;
+  files?: string[];
+}
+
+export interface TaskProgress {
+  currentStep: number;
+  totalSteps: number;
+  currentAction: string;
+}
+
+/**
+ * What a task run reports back to clients
+ */
+export interface TaskResult {
+  filesModified: string[];
+  fileOperations?: FileOperation[];
+  summary: string;
+  logs?: ExecutionLog[];
+  plan?: TaskPlan; // Preview mode: the plan waiting for approval
+  planHash?: string;
+  diffs?: FileDiff[];
+  previewFailedSteps?: string[];
+  applied?: boolean;
+  journal?: JournalEntry[];
+  verification?: VerificationResult;
+  prUrl?: string;
+}
+
 export enum TaskType {
   CODEGEN = 'codegen',
   DEBUG = 'debug',
@@ -27,10 +68,52 @@ export enum TaskStatus {
   PLANNING = 'planning',
   EXECUTING = 'executing',
   RETRYING = 'retrying',
+  AWAITING_APPROVAL = 'awaiting_approval',
+  AWAITING_INPUT = 'awaiting_input',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  REVERTED = 'reverted',
+}
+
+/**
+ * Something the agent may only do once a user agrees to it
+ */
+export interface ApprovalRequest {
+  kind: 'command';
+  command: string;
+  reason: string; // Why the policy wants a human to look
 }
 
+export interface PendingApproval extends ApprovalRequest {
+  approvalId: string;
+  requestedAt: Date;
+}
+
+/**
+ * Resolves true when the user approves; rejects if the wait is aborted
+ */
+export type ApprovalHandler = (request: ApprovalRequest, signal?: AbortSignal) => Promise<boolean>;
+
+/**
+ * Something only the user can tell the agent, e.g. which of several readings of the goal they meant
+ */
+export interface UserQuestion {
+  question: string;
+  choices?: string[]; // Suggested answers; the user may still answer freely
+  context?: string; // Why the agent is asking
+}
+
+export interface PendingQuestion extends UserQuestion {
+  questionId: string;
+  requestedAt: Date;
+}
+
+/**
+ * Resolves with the user's answer; rejects if the wait is aborted
+ */
+export type QuestionHandler = (question: UserQuestion, signal?: AbortSignal) => Promise<string>;
+
 export interface TaskPlan {
   steps: PlanStep[];
   reasoning: string;
@@ -43,17 +126,96 @@ export interface PlanStep {
   tool: string;
   params: Record<string, any>;
   dependencies: string[];
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'skipped';
 }
 
 export interface TaskExecution {
   currentStep: number;
   completedSteps: string[];
   failedSteps: string[];
+  skippedSteps?: string[]; // Steps not run because a dependency failed or the plan was revised
   logs: ExecutionLog[];
   filesModified: string[];
+  fileOperations?: FileOperation[]; // What happened to each entry in filesModified
   commandsRun: CommandResult[];
   plan?: TaskPlan; // Optional: included when in preview mode
+  summary?: string; // Optional: the model's closing message in tool-use mode
+  diffs?: FileDiff[]; // Optional: previewed file changes against current disk contents
+  journal?: JournalEntry[]; // Optional: backups of files changed on disk, for undo
+  verification?: VerificationResult; // Optional: type-check, lint and test results after the changes
+}
+
+export type VerificationCheckKind = 'typecheck' | 'lint' | 'test';
+
+/**
+ * Whether the project still builds and passes its checks after a run
+ */
+export interface VerificationResult {
+  passed: boolean;
+  skipped?: string; // Why no checks ran; passed is true then
+  repairRounds: number; // Rounds spent fixing failed checks
+  rolledBack?: boolean; // Checks kept failing and the changes were undone
+  checks: VerificationCheckResult[]; // Outcome of the last run of each check
+}
+
+export interface VerificationCheckResult {
+  name: string;
+  kind: VerificationCheckKind;
+  command: string;
+  passed: boolean;
+  exitCode: number;
+  duration: number;
+  failure?: string; // Diagnostics or error lines from the output, as shown to the planner
+  diagnostics?: Diagnostic[]; // Only the new ones when the check already failed before the run
+  preexisting?: boolean; // Failed the same way before the run changed anything, so it does not fail the run
+  logFile?: string;
+}
+
+export type DiagnosticSource = 'tsc' | 'eslint' | 'jest' | 'vitest' | 'mocha' | 'pytest' | 'go';
+
+/**
+ * One problem reported by a compiler, linter or test runner
+ */
+export interface Diagnostic {
+  source: DiagnosticSource;
+  severity: 'error' | 'warning';
+  file?: string; // Relative to the working directory when inside it
+  line?: number;
+  column?: number;
+  rule?: string; // Compiler error code or lint rule, e.g. TS2322, no-unused-vars
+  test?: string; // Full name of the failing test
+  message: string;
+}
+
+export type FileOperationType = 'write' | 'delete' | 'move' | 'copy' | 'mkdir';
+
+export interface FileOperation {
+  operation: FileOperationType;
+  path: string; // Absolute path; the destination for move and copy
+  from?: string; // Source path for move and copy
+}
+
+export interface JournalEntry {
+  path: string; // Absolute path
+  backup: string | null; // Absolute path of a copy of the file before the task touched it; null if it did not exist
+  originalHash: string; // Hash of that copy ('deleted' if the file did not exist), checked before restoring it
+  modifiedHash?: string; // Hash of the contents the task left behind ('deleted' if deleted)
+}
+
+export interface FileDiff {
+  path: string; // Relative to the working directory
+  status: 'added' | 'modified' | 'deleted';
+  hunks: DiffHunk[];
+  patch: string; // Unified diff text
+  originalHash?: string; // Hash of the file the diff was computed against ('deleted' if it did not exist)
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Prefixed with ' ', '-' or '+'
 }
 
 export interface ExecutionLog {
@@ -69,4 +231,24 @@ export interface CommandResult {
   stdout: string;
   stderr: string;
   duration: number;
+  logFile?: string; // Complete output, relative to the working directory; stdout/stderr may be cut down
+}
+
+/**
+ * Per-file and per-hunk approval of a previewed diff.
+ * Files missing from `files` are accepted as previewed.
+ */
+export interface DiffSelection {
+  files: Record<string, FileSelection>;
+}
+
+export interface FileSelection {
+  accepted: boolean; // false rejects every change to the file
+  hunks?: HunkSelection[]; // Same order as FileDiff.hunks; omitted means all hunks
+  content?: string; // User-edited final content; overrides hunks
+}
+
+export interface HunkSelection {
+  accepted: boolean;
+  lines?: string[]; // User-edited hunk lines, same format as DiffHunk.lines
 }
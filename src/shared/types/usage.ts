@@ -0,0 +1,51 @@
+/**
+ * Usage Types - LLM tokens and their estimated cost
+ */
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * One LLM request, as metered
+ */
+export interface LLMUsage extends TokenUsage {
+  provider: string;
+  model: string;
+  cost: number; // Estimated USD; 0 when the price table has no entry for the model
+  priced: boolean;
+}
+
+/**
+ * One LLM request, attributed to whoever it was made for
+ */
+export interface UsageRecord extends LLMUsage {
+  taskId?: string;
+  sessionId: string;
+  userId: string;
+  createdAt: Date;
+}
+
+export interface UsageSummary extends TokenUsage {
+  requests: number;
+  cost: number;
+  unpricedRequests: number; // Requests whose model has no price; cost leaves them out
+}
+
+export type UsageGroupBy = 'user' | 'session' | 'task' | 'model' | 'day';
+
+export interface UsageFilter {
+  userId?: string;
+  sessionId?: string;
+  taskId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface UsageReport {
+  groupBy?: UsageGroupBy;
+  total: UsageSummary;
+  groups: (UsageSummary & { key: string })[]; // Most expensive first; by date when grouped by day
+}
@@ -6,7 +6,13 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
 import { MikasaConfig } from '../types/config';
-import { DEFAULT_CONFIG_PATH, DEFAULT_PORT, DEFAULT_HOST } from '../constants';
+import {
+  DEFAULT_CONFIG_PATH,
+  DEFAULT_PORT,
+  DEFAULT_HOST,
+  DEFAULT_MAX_PARALLEL_STEPS,
+  DEFAULT_MAX_REPAIR_ROUNDS,
+} from '../constants';
 import { ConfigurationError } from '../errors';
 
 // Load environment variables
@@ -49,13 +55,21 @@ export function loadConfig(configPath?: string): MikasaConfig {
     agent: {
       maxIterations: 10,
       maxRetries: 3,
+      maxParallelSteps: DEFAULT_MAX_PARALLEL_STEPS,
       timeout: 300000,
-      enabledTools: ['file', 'command', 'git'],
+      enabledTools: ['file', 'command', 'git', 'search', 'code_search', 'process', 'ask_user'],
       safety: {
         allowShellCommands: true,
         allowGitPush: true,
         allowFileDelete: false,
       },
+      verification: {
+        enabled: true,
+        maxRepairRounds: DEFAULT_MAX_REPAIR_ROUNDS,
+      },
+      codeSearch: {
+        embedder: 'hashed',
+      },
     },
     database: {
       uri: process.env.MONGODB_URI || 'mongodb://localhost:27017',
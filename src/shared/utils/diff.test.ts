@@ -0,0 +1,108 @@
+import { applyHunks, createFileDiff } from './diff';
+
+function lines(count: number, prefix: string = 'line'): string {
+  return Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}\n`).join('');
+}
+
+/**
+ * Deterministic pseudo-random generator, so failures are reproducible
+ */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+}
+
+describe('createFileDiff', () => {
+  it('has no hunks for identical content', () => {
+    const diff = createFileDiff('a.txt', lines(10), lines(10));
+    expect(diff.status).toBe('modified');
+    expect(diff.hunks).toEqual([]);
+  });
+
+  it('marks added and deleted files', () => {
+    const added = createFileDiff('a.txt', null, 'one\ntwo\n');
+    expect(added.status).toBe('added');
+    expect(added.patch).toBe(['--- /dev/null', '+++ b/a.txt', '@@ -0,0 +1,2 @@', '+one', '+two'].join('\n'));
+
+    const deleted = createFileDiff('a.txt', 'one\n', null);
+    expect(deleted.status).toBe('deleted');
+    expect(deleted.patch).toBe(['--- a/a.txt', '+++ /dev/null', '@@ -1,1 +0,0 @@', '-one'].join('\n'));
+  });
+
+  it('surrounds a change with three lines of context', () => {
+    const modified = lines(20).replace('line 10\n', 'line ten\n');
+    const { hunks } = createFileDiff('a.txt', lines(20), modified);
+    expect(hunks).toEqual([
+      {
+        oldStart: 7,
+        oldLines: 7,
+        newStart: 7,
+        newLines: 7,
+        lines: [' line 7', ' line 8', ' line 9', '-line 10', '+line ten', ' line 11', ' line 12', ' line 13'],
+      },
+    ]);
+  });
+
+  it('splits distant changes into separate hunks and merges close ones', () => {
+    const original = lines(30);
+    const distant = original.replace('line 2\n', 'line two\n').replace('line 25\n', 'line twenty-five\n');
+    expect(createFileDiff('a.txt', original, distant).hunks).toHaveLength(2);
+
+    const close = original.replace('line 2\n', 'line two\n').replace('line 8\n', 'line eight\n');
+    expect(createFileDiff('a.txt', original, close).hunks).toHaveLength(1);
+  });
+
+  it('produces a minimal diff', () => {
+    const { hunks } = createFileDiff('a.txt', 'a\nb\nc\na\nb\nb\na\n', 'c\nb\na\nb\na\nc\n', 0);
+    const edits = hunks.flatMap((hunk) => hunk.lines).filter((line) => line[0] !== ' ');
+    expect(edits).toHaveLength(5);
+  });
+});
+
+describe('applyHunks', () => {
+  it('round-trips random edits', () => {
+    const next = random(42);
+    const pick = () => Math.floor(next() * 6);
+
+    for (let run = 0; run < 200; run++) {
+      const original = Array.from({ length: pick() * 4 }, () => `${pick()}\n`).join('');
+      const modified = Array.from({ length: pick() * 4 }, () => `${pick()}\n`).join('');
+
+      const { hunks } = createFileDiff('a.txt', original, modified, run % 4);
+      expect(applyHunks(original, hunks)).toBe(modified);
+    }
+  });
+
+  it('applies a subset of hunks as a partial change', () => {
+    const original = lines(30);
+    const modified = original.replace('line 2\n', 'line two\n').replace('line 25\n', 'line twenty-five\n');
+    const { hunks } = createFileDiff('a.txt', original, modified);
+
+    expect(applyHunks(original, [hunks[1]])).toBe(original.replace('line 25\n', 'line twenty-five\n'));
+    expect(applyHunks(original, [])).toBe(original);
+  });
+
+  it('keeps a missing trailing newline', () => {
+    const { hunks } = createFileDiff('a.txt', 'a\nb', 'a\nc');
+    expect(applyHunks('a\nb', hunks)).toBe('a\nc');
+  });
+
+  it('throws when the content no longer matches', () => {
+    const { hunks } = createFileDiff('a.txt', lines(10), lines(10).replace('line 5\n', 'line five\n'));
+    expect(() => applyHunks(lines(10).replace('line 4\n', 'changed\n'), hunks)).toThrow();
+  });
+
+  it('rejects overlapping hunks', () => {
+    const { hunks } = createFileDiff('a.txt', lines(10), lines(10).replace('line 5\n', 'line five\n'));
+    expect(() => applyHunks(lines(10), [hunks[0], hunks[0]])).toThrow('overlaps the previous hunk');
+  });
+
+  it('handles a full rewrite of a large file', () => {
+    const original = lines(3000, 'old');
+    const modified = lines(3000, 'new');
+    const { hunks } = createFileDiff('a.txt', original, modified);
+    expect(applyHunks(original, hunks)).toBe(modified);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Unified Diff Utilities
+ */
+
+import { DiffHunk, FileDiff } from '../types/task';
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+type EditOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Build a unified diff between two versions of a file.
+ * `original` is null for files that do not exist yet, `modified` is null for deletions.
+ */
+export function createFileDiff(
+  filePath: string,
+  original: string | null,
+  modified: string | null,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): FileDiff {
+  const oldLines = splitLines(original ?? '');
+  const newLines = splitLines(modified ?? '');
+  const hunks = buildHunks(diffLines(oldLines, newLines), contextLines);
+
+  const status = original === null ? 'added' : modified === null ? 'deleted' : 'modified';
+
+  return {
+    path: filePath,
+    status,
+    hunks,
+    patch: formatPatch(filePath, status, hunks),
+  };
+}
+
+/**
+ * Render hunks back into unified diff text
+ */
+export function formatPatch(filePath: string, status: FileDiff['status'], hunks: DiffHunk[]): string {
+  const header = [
+    `--- ${status === 'added' ? '/dev/null' : `a/${filePath}`}`,
+    `+++ ${status === 'deleted' ? '/dev/null' : `b/${filePath}`}`,
+  ];
+
+  const body = hunks.flatMap((hunk) => [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines,
+  ]);
+
+  return [...header, ...body].join('\n');
+}
+
+/**
+ * Apply hunks (in old-file coordinates) to content. Hunks left out are simply
+ * not applied, so a subset of a diff's hunks yields a partial change.
+ * Throws if a hunk's context or removed lines no longer match the content.
+ */
+export function applyHunks(content: string, hunks: DiffHunk[]): string {
+  const lines = splitLines(content);
+  const trailingNewline = content === '' || content.endsWith('\n');
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const hunk of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    if (start < cursor) {
+      throw new Error(`Hunk @@ -${hunk.oldStart},${hunk.oldLines} overlaps the previous hunk`);
+    }
+
+    result.push(...lines.slice(cursor, start));
+    let position = start;
+
+    for (const line of hunk.lines) {
+      const op = line.charAt(0);
+      const text = line.substring(1);
+
+      if (op === '+') {
+        result.push(text);
+        continue;
+      }
+
+      if (lines[position] !== text) {
+        throw new Error(
+          `Hunk @@ -${hunk.oldStart},${hunk.oldLines} does not match line ${position + 1}: expected "${text}"`
+        );
+      }
+
+      if (op !== '-') {
+        result.push(text);
+      }
+      position++;
+    }
+
+    cursor = position;
+  }
+
+  result.push(...lines.slice(cursor));
+
+  return result.length > 0 ? result.join('\n') + (trailingNewline ? '\n' : '') : '';
+}
+
+function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+  const lines = content.split('\n');
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line-level shortest edit script (Myers' O(ND) algorithm)
+ */
+function diffLines(a: string[], b: string[]): EditOp[] {
+  // Common prefix and suffix never change, so keep them out of the search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMid = a.slice(prefix, a.length - suffix);
+  const newMid = b.slice(prefix, b.length - suffix);
+
+  return [
+    ...a.slice(0, prefix).map((line): EditOp => ({ type: ' ', line })),
+    ...myers(oldMid, newMid),
+    ...a.slice(a.length - suffix).map((line): EditOp => ({ type: ' ', line })),
+  ];
+}
+
+/**
+ * Linear-space variant: find the middle snake of the shortest edit path, then
+ * diff the parts before and after it. Memory stays O(N + M) however different
+ * the files are; the trace-keeping variant needs O(N * D).
+ */
+function myers(a: string[], b: string[]): EditOp[] {
+  // Compare numbers instead of strings in the inner loops
+  const ids = new Map<string, number>();
+  const intern = (line: string): number => {
+    let id = ids.get(line);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(line, id);
+    }
+    return id;
+  };
+  const aIds = Int32Array.from(a, intern);
+  const bIds = Int32Array.from(b, intern);
+  const ops: EditOp[] = [];
+
+  const diffRange = (aStart: number, aEnd: number, bStart: number, bEnd: number): void => {
+    while (aStart < aEnd && bStart < bEnd && aIds[aStart] === bIds[bStart]) {
+      ops.push({ type: ' ', line: a[aStart++] });
+      bStart++;
+    }
+    let suffix = 0;
+    while (aStart < aEnd - suffix && bStart < bEnd - suffix && aIds[aEnd - 1 - suffix] === bIds[bEnd - 1 - suffix]) {
+      suffix++;
+    }
+    aEnd -= suffix;
+    bEnd -= suffix;
+
+    if (aStart === aEnd) {
+      for (let y = bStart; y < bEnd; y++) ops.push({ type: '+', line: b[y] });
+    } else if (bStart === bEnd) {
+      for (let x = aStart; x < aEnd; x++) ops.push({ type: '-', line: a[x] });
+    } else {
+      // Both ends differ here, so the path has at least two edits and both halves are smaller
+      const snake = middleSnake(aIds, aStart, aEnd, bIds, bStart, bEnd);
+      diffRange(aStart, snake.startX, bStart, snake.startY);
+      for (let x = snake.startX; x < snake.endX; x++) ops.push({ type: ' ', line: a[x] });
+      diffRange(snake.endX, aEnd, snake.endY, bEnd);
+    }
+
+    for (let x = aEnd; x < aEnd + suffix; x++) ops.push({ type: ' ', line: a[x] });
+  };
+
+  diffRange(0, a.length, 0, b.length);
+  return ops;
+}
+
+/**
+ * Search from both ends at once until the paths meet; the snake where they
+ * meet lies on a shortest edit path. Coordinates are absolute indexes.
+ */
+function middleSnake(
+  a: Int32Array,
+  aStart: number,
+  aEnd: number,
+  b: Int32Array,
+  bStart: number,
+  bEnd: number
+): { startX: number; startY: number; endX: number; endY: number } {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = (delta & 1) === 1;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+
+  // Furthest x per diagonal k = x - y; backward x counts from the ends
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+
+      // Backward diagonal delta - k is the same line
+      const c = delta - k;
+      if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[offset + c] >= n) {
+        return { startX: aStart + startX, startY: bStart + startY, endX: aStart + x, endY: bStart + y };
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2) {
+      let x =
+        c === -d || (c !== d && backward[offset + c - 1] < backward[offset + c + 1])
+          ? backward[offset + c + 1]
+          : backward[offset + c - 1] + 1;
+      let y = x - c;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + c] = x;
+
+      const k = delta - c;
+      if (!odd && k >= -d && k <= d && x + forward[offset + k] >= n) {
+        return { startX: aEnd - x, startY: bEnd - y, endX: aEnd - startX, endY: bEnd - startY };
+      }
+    }
+  }
+
+  throw new Error('Edit path not found'); // Unreachable: the paths meet by d = max
+}
+
+function buildHunks(ops: EditOp[], contextLines: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const changed = ops.map((op) => op.type !== ' ');
+  let i = 0;
+
+  // Line numbers (1-based) of ops[i] in the old and new file
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+
+  while (i < ops.length) {
+    if (!changed[i]) {
+      i++;
+      continue;
+    }
+
+    const start = Math.max(0, i - contextLines);
+    let end = i;
+
+    // Extend the hunk while the next change is within 2 * context lines
+    while (end < ops.length) {
+      if (changed[end]) {
+        end++;
+        continue;
+      }
+      let gap = 0;
+      while (end + gap < ops.length && !changed[end + gap]) gap++;
+      if (end + gap < ops.length && gap <= contextLines * 2) {
+        end += gap;
+        continue;
+      }
+      end = Math.min(ops.length, end + contextLines);
+      break;
+    }
+
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter((op) => op.type !== '+').length;
+    const newCount = slice.filter((op) => op.type !== '-').length;
+
+    hunks.push({
+      // Unified diff convention: an empty range starts at the line before it
+      oldStart: oldCount === 0 ? oldLineAt[start] - 1 : oldLineAt[start],
+      oldLines: oldCount,
+      newStart: newCount === 0 ? newLineAt[start] - 1 : newLineAt[start],
+      newLines: newCount,
+      lines: slice.map((op) => `${op.type}${op.line}`),
+    });
+
+    i = end;
+  }
+
+  return hunks;
+}
@@ -5,6 +5,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
+import { TEMP_DIR } from '../constants';
 
 const readFileAsync = promisify(fs.readFile);
 const writeFileAsync = promisify(fs.writeFile);
@@ -40,15 +41,32 @@ export async function ensureDirectory(dirPath: string): Promise<void> {
   }
 }
 
+/**
+ * A directory under the project's TEMP_DIR, created if needed. TEMP_DIR gets a
+ * `.gitignore` so logs (which can hold secrets from command output), backups
+ * and the code index never end up in the user's commits.
+ */
+export async function ensureTempDirectory(workingDirectory: string, ...subdirectories: string[]): Promise<string> {
+  const tempDir = path.join(workingDirectory, TEMP_DIR);
+  const dir = path.join(tempDir, ...subdirectories);
+  await mkdirAsync(dir, { recursive: true });
+  await ensureIgnoredByGit(tempDir);
+  return dir;
+}
+
+/**
+ * Keep a scratch directory out of the user's `git status`
+ */
+export async function ensureIgnoredByGit(dir: string): Promise<void> {
+  const gitignorePath = path.join(dir, '.gitignore');
+  if (!await existsAsync(gitignorePath)) {
+    await writeFileAsync(gitignorePath, '*\n', 'utf-8');
+  }
+}
+
 export function getAbsolutePath(relativePath: string, basePath?: string): string {
   if (path.isAbsolute(relativePath)) {
     return relativePath;
   }
   return path.resolve(basePath || process.cwd(), relativePath);
 }
-
-export function isPathSafe(targetPath: string, basePath: string): boolean {
-  const resolvedPath = path.resolve(basePath, targetPath);
-  const resolvedBase = path.resolve(basePath);
-  return resolvedPath.startsWith(resolvedBase);
-}
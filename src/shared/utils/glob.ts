@@ -0,0 +1,269 @@
+/**
+ * Glob Matching, .gitignore Rules and Project Walking
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TEMP_DIR } from '../constants';
+
+/**
+ * Convert a glob to a RegExp over forward-slash relative paths.
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    switch (char) {
+      case '*':
+        if (glob[i + 1] === '*') {
+          // `**/` matches zero or more directories, a trailing `**` matches everything
+          if (glob[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+        break;
+
+      case '?':
+        source += '[^/]';
+        break;
+
+      case '[': {
+        const end = glob.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+          source += `[${body}]`;
+          i = end;
+        }
+        break;
+      }
+
+      case '{':
+        braceDepth++;
+        source += '(?:';
+        break;
+
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          source += ')';
+        } else {
+          source += '\\}';
+        }
+        break;
+
+      case ',':
+        source += braceDepth > 0 ? '|' : ',';
+        break;
+
+      default:
+        source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a relative path matches a glob. Globs without a slash match the
+ * file name at any depth, so `*.ts` finds TypeScript files everywhere.
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+  if (!glob.includes('/')) {
+    return globToRegExp(glob).test(path.posix.basename(normalized));
+  }
+  return globToRegExp(glob.replace(/^\.?\//, '')).test(normalized);
+}
+
+export interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  base: string; // Directory of the .gitignore, relative to the root
+}
+
+/**
+ * Parse one line of .gitignore syntax; null for blank lines and comments
+ */
+export function parseIgnoreRule(rawLine: string, relativeDir: string = ''): IgnoreRule | null {
+  let line = rawLine.replace(/(?<!\\)\s+$/, '');
+  if (!line || line.startsWith('#')) {
+    return null;
+  }
+
+  const negated = line.startsWith('!');
+  if (negated) {
+    line = line.slice(1);
+  }
+
+  const directoryOnly = line.endsWith('/');
+  if (directoryOnly) {
+    line = line.slice(0, -1);
+  }
+
+  // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+  const anchored = line.includes('/');
+  line = line.replace(/^\//, '');
+  if (!line) {
+    return null;
+  }
+
+  return {
+    regex: globToRegExp(anchored ? line : `**/${line}`),
+    negated,
+    directoryOnly,
+    base: relativeDir.split(path.sep).join('/').replace(/^\.$/, ''),
+  };
+}
+
+/**
+ * Whether rules exclude a path; later rules override earlier ones
+ */
+export function matchesIgnoreRules(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.base && !normalized.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+    const subject = rule.base ? normalized.slice(rule.base.length + 1) : normalized;
+    if (rule.regex.test(subject)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * .gitignore rules collected while walking a project. Nested .gitignore files
+ * apply to their own directory, and later rules override earlier ones.
+ */
+export class IgnoreRules {
+  private rules: IgnoreRule[] = [];
+  private loaded = new Set<string>();
+
+  constructor(private rootDir: string) {}
+
+  /**
+   * Load the .gitignore in a directory (relative to the root), once
+   */
+  async load(relativeDir: string): Promise<void> {
+    if (this.loaded.has(relativeDir)) {
+      return;
+    }
+    this.loaded.add(relativeDir);
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(path.join(this.rootDir, relativeDir, '.gitignore'), 'utf-8');
+    } catch {
+      return;
+    }
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const rule = parseIgnoreRule(rawLine, relativeDir);
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+  }
+
+  isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    // Git internals and Mikasa's own scratch space are never part of the project
+    const topLevel = relativePath.split(path.sep).join('/').split('/')[0];
+    if (topLevel === '.git' || topLevel === TEMP_DIR) {
+      return true;
+    }
+
+    return matchesIgnoreRules(this.rules, relativePath, isDirectory);
+  }
+}
+
+export interface ProjectEntry {
+  relativePath: string; // Forward slashes, relative to the project directory
+  absolutePath: string;
+  isDirectory: boolean;
+  depth: number; // 0 for entries directly inside the walk root
+}
+
+export interface WalkOptions {
+  maxDepth?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Depth-first walk of `root` (inside `projectDir`) in sorted order, skipping
+ * anything .gitignore excludes. Symlinked directories are not followed, so
+ * cycles cannot occur.
+ */
+export async function* walkProject(
+  projectDir: string,
+  root: string = projectDir,
+  options: WalkOptions = {}
+): AsyncGenerator<ProjectEntry> {
+  const ignore = new IgnoreRules(projectDir);
+
+  // Rules from the project root down to the walk root apply as well
+  const rootRelative = path.relative(projectDir, root);
+  const ancestors = rootRelative ? rootRelative.split(path.sep) : [];
+  for (let i = 0; i <= ancestors.length; i++) {
+    await ignore.load(ancestors.slice(0, i).join(path.sep) || '.');
+  }
+
+  yield* walkDirectory(projectDir, root, 0, options.maxDepth ?? Infinity, ignore, options.signal);
+}
+
+async function* walkDirectory(
+  projectDir: string,
+  dir: string,
+  depth: number,
+  maxDepth: number,
+  ignore: IgnoreRules,
+  signal?: AbortSignal
+): AsyncGenerator<ProjectEntry> {
+  if (signal?.aborted) {
+    throw new Error('Walk cancelled');
+  }
+
+  await ignore.load(path.relative(projectDir, dir) || '.');
+
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return; // Unreadable directories are skipped rather than failing the walk
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const dirent of entries) {
+    const absolutePath = path.join(dir, dirent.name);
+    const relativePath = path.relative(projectDir, absolutePath).split(path.sep).join('/');
+    const isDirectory = dirent.isDirectory();
+
+    if (ignore.isIgnored(relativePath, isDirectory)) {
+      continue;
+    }
+
+    yield { relativePath, absolutePath, isDirectory, depth };
+
+    if (isDirectory && depth + 1 < maxDepth) {
+      yield* walkDirectory(projectDir, absolutePath, depth + 1, maxDepth, ignore, signal);
+    }
+  }
+}
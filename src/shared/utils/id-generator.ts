@@ -23,3 +23,11 @@ export function generateStepId(index: number): string {
 export function generateJobId(): string {
   return `job-${uuidv4()}`;
 }
+
+export function generateApprovalId(): string {
+  return `approval-${uuidv4()}`;
+}
+
+export function generateQuestionId(): string {
+  return `question-${uuidv4()}`;
+}
@@ -0,0 +1,170 @@
+import { applyEdits, parseUnifiedDiff } from './patch';
+
+const FILE = ['function add(a, b) {', '  return a + b;', '}', '', 'function sub(a, b) {', '  return a - b;', '}', ''].join(
+  '\n'
+);
+
+describe('applyEdits', () => {
+  it('requires at least one edit', () => {
+    expect(() => applyEdits(FILE, [])).toThrow('At least one edit is required');
+  });
+
+  describe('search/replace', () => {
+    it('replaces a unique exact match', () => {
+      const result = applyEdits(FILE, [{ search: 'a + b', replace: 'b + a' }]);
+      expect(result).toContain('return b + a;');
+      expect(result).toContain('return a - b;');
+    });
+
+    it('rejects an ambiguous match unless replaceAll is set', () => {
+      expect(() => applyEdits(FILE, [{ search: '(a, b)', replace: '(x, y)' }])).toThrow(
+        'search text matches 2 times (lines 1, 5)'
+      );
+      expect(applyEdits(FILE, [{ search: '(a, b)', replace: '(x, y)', replaceAll: true }])).not.toContain('(a, b)');
+    });
+
+    it('falls back to matching whole lines ignoring whitespace', () => {
+      const result = applyEdits(FILE, [{ search: 'return   a + b;\n}', replace: '  return a + b + 0;\n}' }]);
+      expect(result).toContain('  return a + b + 0;\n}\n\nfunction sub');
+    });
+
+    it('names the edit that was not found and applies nothing', () => {
+      expect(() =>
+        applyEdits(FILE, [
+          { search: 'a + b', replace: 'b + a' },
+          { search: 'a * b', replace: 'b * a' },
+        ])
+      ).toThrow(/^Edit 2 of 2: search text not found/);
+    });
+  });
+
+  describe('line ranges', () => {
+    it('replaces inclusive line ranges in original line numbers', () => {
+      const result = applyEdits(FILE, [
+        { startLine: 2, endLine: 2, replace: '  return b + a;' },
+        { startLine: 6, endLine: 6, replace: '  return b - a;\n' },
+      ]);
+      expect(result).toBe(FILE.replace('a + b', 'b + a').replace('a - b', 'b - a'));
+    });
+
+    it('inserts before startLine when endLine is startLine - 1', () => {
+      const result = applyEdits(FILE, [{ startLine: 1, endLine: 0, replace: "'use strict';" }]);
+      expect(result).toBe(`'use strict';\n${FILE}`);
+    });
+
+    it('appends after a last line without a newline', () => {
+      expect(applyEdits('a\nb', [{ startLine: 3, endLine: 2, replace: 'c' }])).toBe('a\nb\nc');
+    });
+
+    it('rejects ranges outside the file', () => {
+      expect(() => applyEdits(FILE, [{ startLine: 9, endLine: 9, replace: 'x' }])).toThrow('startLine 9 is outside the file');
+      expect(() => applyEdits(FILE, [{ startLine: 3, endLine: 1, replace: 'x' }])).toThrow('endLine 1 is invalid');
+    });
+
+    it('keeps CRLF line endings', () => {
+      expect(applyEdits('a\r\nb\r\nc\r\n', [{ startLine: 2, endLine: 2, replace: 'B' }])).toBe('a\r\nB\r\nc\r\n');
+    });
+  });
+
+  it('rejects overlapping edits', () => {
+    expect(() =>
+      applyEdits(FILE, [
+        { startLine: 1, endLine: 3, replace: '' },
+        { search: 'return a + b;', replace: 'return 0;' },
+      ])
+    ).toThrow('Edit 2 of 2: overlaps edit 1 at line 2');
+  });
+
+  describe('unified diffs', () => {
+    it('applies a hunk at its header position', () => {
+      const diff = ['@@ -1,3 +1,3 @@', ' function add(a, b) {', '-  return a + b;', '+  return b + a;', ' }'].join('\n');
+      expect(applyEdits(FILE, [{ diff }])).toBe(FILE.replace('a + b', 'b + a'));
+    });
+
+    it('finds a hunk whose header line numbers are off', () => {
+      const diff = ['@@ -40,3 +40,3 @@', ' function sub(a, b) {', '-  return a - b;', '+  return b - a;', ' }'].join('\n');
+      expect(applyEdits(FILE, [{ diff }])).toBe(FILE.replace('a - b', 'b - a'));
+    });
+
+    it('matches ignoring whitespace when indentation differs', () => {
+      const diff = ['@@ -1,3 +1,3 @@', ' function add(a, b) {', '-    return a + b;', '+  return b + a;', ' }'].join('\n');
+      expect(applyEdits(FILE, [{ diff }])).toBe(FILE.replace('a + b', 'b + a'));
+    });
+
+    it('drops up to two stale context lines from each end', () => {
+      const diff = [
+        '@@ -3,5 +3,5 @@',
+        ' // stale comment',
+        ' }',
+        ' ',
+        '-function sub(a, b) {',
+        '+function subtract(a, b) {',
+        '   return a - b;',
+        ' } // stale',
+      ].join('\n');
+      expect(applyEdits(FILE, [{ diff }])).toBe(FILE.replace('function sub(', 'function subtract('));
+    });
+
+    it('gives up when more than two context lines are stale', () => {
+      const diff = [
+        '@@ -1,6 +1,6 @@',
+        ' // stale one',
+        ' // stale two',
+        ' // stale three',
+        '-  return a + b;',
+        '+  return b + a;',
+      ].join('\n');
+      expect(() => applyEdits(FILE, [{ diff }])).toThrow(/hunk 1 \(@@ -1,4\) does not match the file/);
+    });
+
+    it('never drops changed lines as fuzz', () => {
+      const diff = ['@@ -1,2 +1,2 @@', '-  return a * b;', '+  return b * a;'].join('\n');
+      expect(() => applyEdits(FILE, [{ diff }])).toThrow('does not match the file');
+    });
+
+    it('prefers the match closest to the header when several fit', () => {
+      const content = ['x', 'same', 'y', 'same', 'z', ''].join('\n');
+      const diff = ['@@ -4,1 +4,1 @@', '-same', '+changed'].join('\n');
+      expect(applyEdits(content, [{ diff }])).toBe(['x', 'same', 'y', 'changed', 'z', ''].join('\n'));
+    });
+
+    it('carries the offset of one hunk over to the next', () => {
+      const diff = [
+        '@@ -11,1 +11,1 @@',
+        '-function add(a, b) {',
+        '+function plus(a, b) {',
+        '@@ -15,1 +15,1 @@',
+        '-function sub(a, b) {',
+        '+function minus(a, b) {',
+      ].join('\n');
+      const result = applyEdits(FILE, [{ diff }]);
+      expect(result).toContain('function plus(a, b)');
+      expect(result).toContain('function minus(a, b)');
+    });
+
+    it('inserts at the header position for hunks without old lines', () => {
+      const diff = ['@@ -3,0 +4,1 @@', '+// end of add'].join('\n');
+      expect(applyEdits(FILE, [{ diff }])).toBe(FILE.replace('}\n\n', '}\n// end of add\n\n'));
+    });
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('skips file headers and recomputes hunk line counts', () => {
+    const hunks = parseUnifiedDiff(
+      ['--- a/file.ts', '+++ b/file.ts', '@@ -1,9 +1,9 @@', ' keep', '-old', '+new', '+added', '\\ No newline at end of file'].join(
+        '\n'
+      )
+    );
+    expect(hunks).toEqual([{ oldStart: 1, oldLines: 2, newStart: 1, newLines: 3, lines: [' keep', '-old', '+new', '+added'] }]);
+  });
+
+  it('treats blank lines as context and drops trailing ones', () => {
+    const hunks = parseUnifiedDiff(['@@ -1 +1 @@', ' a', '', '-b', '+c', '', ''].join('\n'));
+    expect(hunks[0].lines).toEqual([' a', ' ', '-b', '+c']);
+  });
+
+  it('rejects lines that are not part of a hunk body', () => {
+    expect(() => parseUnifiedDiff(['@@ -1 +1 @@', '*oops'].join('\n'))).toThrow('invalid diff line: "*oops"');
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Structured Edits - Apply a batch of search/replace, line-range and
+ * unified-diff edits to file content, all or nothing
+ *
+ * Every edit is located against the original content, so edits never see
+ * each other's results and line numbers stay those of the file as read.
+ * Overlapping edits are rejected rather than guessed at.
+ */
+
+import { DiffHunk } from '../types/task';
+
+const MAX_FUZZ = 2; // Context lines a diff hunk may drop from each end to find a match
+
+export type FileEdit = SearchEdit | LineRangeEdit | DiffEdit;
+
+export interface SearchEdit {
+  search: string;
+  replace: string;
+  replaceAll?: boolean; // Replace every occurrence instead of requiring exactly one
+}
+
+export interface LineRangeEdit {
+  startLine: number; // 1-based, inclusive
+  endLine: number; // Inclusive; startLine - 1 inserts before startLine
+  replace: string;
+}
+
+export interface DiffEdit {
+  diff: string; // Unified diff hunks; headers and hunk line counts are optional
+}
+
+interface Span {
+  start: number; // Character offsets into the original content
+  end: number;
+  text: string;
+  edit: number; // 1-based edit index, for error messages
+}
+
+/**
+ * Lines of the original content with their character offsets
+ */
+class LineIndex {
+  readonly lines: string[];
+  readonly offsets: number[];
+  readonly eol: string;
+
+  constructor(readonly content: string) {
+    this.eol = content.includes('\r\n') ? '\r\n' : '\n';
+    this.lines = content.split('\n');
+    // A trailing newline does not start another line
+    if (this.lines.length > 1 && this.lines[this.lines.length - 1] === '') {
+      this.lines.pop();
+    }
+    if (content === '') {
+      this.lines = [];
+    }
+
+    this.offsets = [];
+    let offset = 0;
+    for (const line of this.lines) {
+      this.offsets.push(offset);
+      offset += line.length + 1;
+    }
+    this.lines = this.lines.map((line) => line.replace(/\r$/, ''));
+  }
+
+  get count(): number {
+    return this.lines.length;
+  }
+
+  lineOf(offset: number): number {
+    let line = 0;
+    while (line + 1 < this.offsets.length && this.offsets[line + 1] <= offset) {
+      line++;
+    }
+    return line + 1;
+  }
+
+  /**
+   * Span replacing whole lines [from, to) with new lines, newlines included
+   */
+  replaceLines(from: number, to: number, newLines: string[], edit: number): Span {
+    const start = from < this.count ? this.offsets[from] : this.content.length;
+    const end = to < this.count ? this.offsets[to] : this.content.length;
+    const endsWithoutNewline = to >= this.count && this.content.length > 0 && !/\n$/.test(this.content);
+
+    let text = newLines.map((line) => line + this.eol).join('');
+    if (endsWithoutNewline && text.endsWith(this.eol)) {
+      text = text.slice(0, -this.eol.length);
+    }
+    // Appending after a final line that has no newline needs one in between
+    if (from >= this.count && this.count > 0 && endsWithoutNewline && text !== '') {
+      text = this.eol + text;
+    }
+
+    return { start, end, text, edit };
+  }
+}
+
+/**
+ * Apply all edits to content and return the result. Throws an Error naming the
+ * failing edit and the reason; nothing is applied in that case.
+ */
+export function applyEdits(content: string, edits: FileEdit[]): string {
+  if (!Array.isArray(edits) || edits.length === 0) {
+    throw new Error('At least one edit is required');
+  }
+
+  const index = new LineIndex(content);
+  const spans: Span[] = [];
+
+  edits.forEach((edit, i) => {
+    const label = `Edit ${i + 1} of ${edits.length}`;
+    try {
+      spans.push(...locateEdit(index, edit, i + 1));
+    } catch (error: any) {
+      throw new Error(`${label}: ${error.message}`);
+    }
+  });
+
+  // Pure insertions sort before a replacement starting at the same offset
+  spans.sort((a, b) => a.start - b.start || a.end - b.end || a.edit - b.edit);
+  for (let i = 1; i < spans.length; i++) {
+    if (spans[i].start < spans[i - 1].end) {
+      const [first, second] = [spans[i - 1].edit, spans[i].edit].sort((a, b) => a - b);
+      throw new Error(
+        `Edit ${second} of ${edits.length}: overlaps edit ${first} at line ${index.lineOf(spans[i].start)}`
+      );
+    }
+  }
+
+  let result = '';
+  let cursor = 0;
+  for (const span of spans) {
+    result += content.slice(cursor, span.start) + span.text;
+    cursor = span.end;
+  }
+  return result + content.slice(cursor);
+}
+
+function locateEdit(index: LineIndex, edit: FileEdit, editNumber: number): Span[] {
+  if (edit && typeof (edit as DiffEdit).diff === 'string') {
+    return locateDiff(index, (edit as DiffEdit).diff, editNumber);
+  }
+  if (edit && typeof (edit as SearchEdit).search === 'string') {
+    return locateSearch(index, edit as SearchEdit, editNumber);
+  }
+  if (edit && (edit as LineRangeEdit).startLine !== undefined) {
+    return [locateLineRange(index, edit as LineRangeEdit, editNumber)];
+  }
+  throw new Error('expected { search, replace }, { startLine, endLine, replace } or { diff }');
+}
+
+function locateSearch(index: LineIndex, edit: SearchEdit, editNumber: number): Span[] {
+  const { search, replace, replaceAll } = edit;
+  if (search === '') {
+    throw new Error('search text is empty');
+  }
+  if (typeof replace !== 'string') {
+    throw new Error('replace is required');
+  }
+
+  // Exact matches first
+  const exact: number[] = [];
+  for (let at = index.content.indexOf(search); at !== -1; at = index.content.indexOf(search, at + search.length)) {
+    exact.push(at);
+  }
+  if (exact.length > 0) {
+    checkUnique(exact.map((at) => index.lineOf(at)), replaceAll);
+    return exact.map((at) => ({ start: at, end: at + search.length, text: replace, edit: editNumber }));
+  }
+
+  // Then whole lines, ignoring differences in indentation and spacing
+  const searchLines = trimBlankEdges(search.split('\n').map((line) => line.replace(/\r$/, '')));
+  const starts = findLineSequence(index.lines, searchLines, normalizeWhitespace);
+  if (starts.length === 0) {
+    throw new Error(`search text not found (also tried ignoring whitespace): "${preview(search)}"`);
+  }
+  checkUnique(starts.map((start) => start + 1), replaceAll);
+
+  const replaceLines = replace === '' ? [] : trimTrailingNewline(replace).split('\n');
+  return starts.map((start) => index.replaceLines(start, start + searchLines.length, replaceLines, editNumber));
+}
+
+function locateLineRange(index: LineIndex, edit: LineRangeEdit, editNumber: number): Span {
+  const { startLine, endLine, replace } = edit;
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine)) {
+    throw new Error('startLine and endLine must be integers');
+  }
+  if (typeof replace !== 'string') {
+    throw new Error('replace is required');
+  }
+  if (startLine < 1 || startLine > index.count + 1) {
+    throw new Error(`startLine ${startLine} is outside the file (1-${index.count})`);
+  }
+  if (endLine < startLine - 1 || endLine > index.count) {
+    throw new Error(`endLine ${endLine} is invalid for startLine ${startLine} (file has ${index.count} lines)`);
+  }
+
+  const replaceLines = replace === '' ? [] : trimTrailingNewline(replace).split('\n');
+  return index.replaceLines(startLine - 1, endLine, replaceLines, editNumber);
+}
+
+function locateDiff(index: LineIndex, diff: string, editNumber: number): Span[] {
+  const hunks = parseUnifiedDiff(diff);
+  if (hunks.length === 0) {
+    throw new Error('diff contains no hunks');
+  }
+
+  const spans: Span[] = [];
+  let offset = 0; // How far earlier hunks were found from where their headers said
+
+  hunks.forEach((hunk, i) => {
+    // A hunk without old lines inserts after its start line (`@@ -3,0 +4 @@`)
+    const headerStart = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const hint = Math.max(0, headerStart + offset);
+    const match = matchHunk(index.lines, hunk.lines, hint);
+    if (!match) {
+      const firstOld = hunk.lines.find((line) => line[0] !== '+');
+      throw new Error(
+        `hunk ${i + 1} (@@ -${hunk.oldStart},${hunk.oldLines}) does not match the file` +
+          (firstOld !== undefined ? ` near line ${hint + 1}; first expected line: "${preview(firstOld.substring(1))}"` : '')
+      );
+    }
+
+    offset = match.start - headerStart;
+    const newLines = match.lines.filter((line) => line[0] !== '-').map((line) => line.substring(1));
+    spans.push(index.replaceLines(match.start, match.start + match.oldCount, newLines, editNumber));
+  });
+
+  return spans;
+}
+
+/**
+ * Find where a hunk's old side sits in the file: exact at the hinted line,
+ * then exact anywhere, then ignoring whitespace, then with up to MAX_FUZZ
+ * context lines dropped from each end. The closest match to the hint wins.
+ */
+function matchHunk(
+  fileLines: string[],
+  hunkLines: string[],
+  hint: number
+): { start: number; oldCount: number; lines: string[] } | null {
+  for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+    const trimmed = dropContext(hunkLines, fuzz);
+    if (!trimmed) {
+      break;
+    }
+    const oldLines = trimmed.lines.filter((line) => line[0] !== '+').map((line) => line.substring(1));
+
+    // Pure insertions have nothing to match; trust the header
+    if (oldLines.length === 0) {
+      return { start: Math.min(hint + trimmed.dropped, fileLines.length), oldCount: 0, lines: trimmed.lines };
+    }
+
+    const expected = hint + trimmed.dropped;
+    for (const normalize of [(line: string) => line, normalizeWhitespace]) {
+      const starts = findLineSequence(fileLines, oldLines, normalize);
+      if (starts.length > 0) {
+        const start = starts.reduce((best, s) => (Math.abs(s - expected) < Math.abs(best - expected) ? s : best));
+        return { start, oldCount: oldLines.length, lines: trimmed.lines };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Drop up to `fuzz` leading and trailing context lines (never changed lines)
+ */
+function dropContext(lines: string[], fuzz: number): { lines: string[]; dropped: number } | null {
+  let start = 0;
+  let end = lines.length;
+  while (start < fuzz && start < end && lines[start][0] === ' ') start++;
+  while (lines.length - end < fuzz && end > start && lines[end - 1][0] === ' ') end--;
+
+  if (fuzz > 0 && start === 0 && end === lines.length) {
+    return null; // Nothing left to drop
+  }
+  return { lines: lines.slice(start, end), dropped: start };
+}
+
+/**
+ * Parse unified diff hunks. File headers are skipped, and hunk line counts
+ * are recomputed from the body since generated diffs often get them wrong.
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const rawLine of diff.replace(/\r\n/g, '\n').split('\n')) {
+    const header = rawLine.match(/^@@\s*-(\d+)(?:,(\d+))?\s+\+(\d+)(?:,(\d+))?\s*@@/);
+    if (header) {
+      current = { oldStart: parseInt(header[1]), oldLines: 0, newStart: parseInt(header[3]), newLines: 0, lines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current || rawLine.startsWith('---') || rawLine.startsWith('+++') || rawLine.startsWith('\\')) {
+      continue;
+    }
+
+    // Blank lines inside a hunk are context lines whose leading space got lost
+    const line = rawLine === '' ? ' ' : rawLine;
+    if (![' ', '-', '+'].includes(line[0])) {
+      throw new Error(`invalid diff line: "${preview(rawLine)}"`);
+    }
+    current.lines.push(line);
+  }
+
+  for (const hunk of hunks) {
+    // Trailing blank lines are usually just the end of the diff text
+    while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === ' ') {
+      hunk.lines.pop();
+    }
+    hunk.oldLines = hunk.lines.filter((line) => line[0] !== '+').length;
+    hunk.newLines = hunk.lines.filter((line) => line[0] !== '-').length;
+  }
+
+  return hunks.filter((hunk) => hunk.lines.length > 0);
+}
+
+function findLineSequence(lines: string[], sequence: string[], normalize: (line: string) => string): number[] {
+  if (sequence.length === 0) {
+    return [];
+  }
+  const target = sequence.map(normalize);
+  const starts: number[] = [];
+  for (let start = 0; start + target.length <= lines.length; start++) {
+    let matches = true;
+    for (let i = 0; i < target.length && matches; i++) {
+      matches = normalize(lines[start + i]) === target[i];
+    }
+    if (matches) {
+      starts.push(start);
+    }
+  }
+  return starts;
+}
+
+function checkUnique(lineNumbers: number[], replaceAll?: boolean): void {
+  if (lineNumbers.length > 1 && !replaceAll) {
+    throw new Error(
+      `search text matches ${lineNumbers.length} times (lines ${lineNumbers.join(', ')}); ` +
+        'include more surrounding lines to make it unique, or set replaceAll'
+    );
+  }
+}
+
+function normalizeWhitespace(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+function trimBlankEdges(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+function trimTrailingNewline(text: string): string {
+  return text.replace(/\r?\n$/, '');
+}
+
+function preview(text: string): string {
+  const firstLine = text.split('\n')[0];
+  return firstLine.length > 60 ? `${firstLine.substring(0, 60)}…` : firstLine;
+}
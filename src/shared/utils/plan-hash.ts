@@ -0,0 +1,44 @@
+/**
+ * Plan Hashing Utilities
+ */
+
+import { createHash } from 'crypto';
+import { TaskPlan } from '../types/task';
+
+/**
+ * Content hash of the executable parts of a plan.
+ * Step status is excluded so the hash is stable across runs.
+ */
+export function hashPlan(plan: TaskPlan): string {
+  const executable = plan.steps.map((step) => ({
+    stepId: step.stepId,
+    description: step.description,
+    tool: step.tool,
+    params: step.params,
+    dependencies: step.dependencies || [],
+  }));
+
+  return createHash('sha256').update(stableStringify(executable)).digest('hex');
+}
+
+/**
+ * Hash of a file's contents as the preview saw them, 'deleted' for a file that does not exist
+ */
+export function hashFileContent(content: string | null): string {
+  return content === null ? 'deleted' : createHash('sha256').update(content).digest('hex');
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
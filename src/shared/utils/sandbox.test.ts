@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PathSandbox } from './sandbox';
+import { SandboxViolationError } from '../errors';
+
+describe('PathSandbox', () => {
+  let base: string;
+  let root: string;
+
+  beforeEach(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-')));
+    root = path.join(base, 'repo');
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'src', 'index.ts'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  it('resolves paths inside the project, existing or not', () => {
+    const sandbox = new PathSandbox(root);
+    expect(sandbox.resolve('src/index.ts')).toBe(path.join(root, 'src', 'index.ts'));
+    expect(sandbox.resolve('src/new/file.ts')).toBe(path.join(root, 'src', 'new', 'file.ts'));
+    expect(sandbox.resolve(path.join(root, 'src'))).toBe(path.join(root, 'src'));
+  });
+
+  it('rejects paths outside the project', () => {
+    const sandbox = new PathSandbox(root);
+    expect(() => sandbox.resolve('../secret')).toThrow(SandboxViolationError);
+    expect(() => sandbox.resolve('/etc/passwd')).toThrow('is outside the project directory');
+    expect(sandbox.isAllowed('src/../../repo/src/index.ts')).toBe(true);
+    expect(sandbox.isAllowed('')).toBe(false);
+  });
+
+  it('does not mistake a sibling with the same prefix for the project', () => {
+    fs.mkdirSync(path.join(base, 'repo-evil'));
+    expect(new PathSandbox(root).isAllowed('../repo-evil/file')).toBe(false);
+  });
+
+  it('rejects symlinks that lead outside, including dangling ones', () => {
+    fs.mkdirSync(path.join(base, 'outside'));
+    fs.symlinkSync(path.join(base, 'outside'), path.join(root, 'link'));
+    fs.symlinkSync(path.join(base, 'outside', 'missing'), path.join(root, 'dangling'));
+
+    const sandbox = new PathSandbox(root);
+    expect(() => sandbox.resolve('link/file')).toThrow(/outside the project directory \(links to /);
+    expect(sandbox.isAllowed('dangling')).toBe(false);
+  });
+
+  it('allows symlinks that stay inside', () => {
+    fs.symlinkSync(path.join(root, 'src'), path.join(root, 'source'));
+    expect(new PathSandbox(root).isAllowed('source/index.ts')).toBe(true);
+  });
+
+  it('survives symlink loops', () => {
+    fs.symlinkSync(path.join(root, 'b'), path.join(root, 'a'));
+    fs.symlinkSync(path.join(root, 'a'), path.join(root, 'b'));
+    expect(() => new PathSandbox(root).isAllowed('a/file')).not.toThrow();
+  });
+
+  describe('default deny rules', () => {
+    it('protects secrets, git internals and dependencies', () => {
+      fs.mkdirSync(path.join(root, '.git'));
+      fs.mkdirSync(path.join(root, 'node_modules'));
+      const sandbox = new PathSandbox(root);
+
+      for (const denied of ['.env', '.env.local', 'src/.env', '.git', '.git/config', 'node_modules/x/index.js']) {
+        expect(sandbox.isAllowed(denied)).toBe(false);
+      }
+      expect(() => sandbox.resolve('.env')).toThrow('is protected by the sandbox rules');
+      expect(sandbox.isAllowed('.env.example')).toBe(true);
+      expect(sandbox.isAllowed('src/environment.ts')).toBe(true);
+    });
+
+    it('checks where a symlink points, not only its name', () => {
+      fs.writeFileSync(path.join(root, '.env'), 'SECRET=1');
+      fs.symlinkSync(path.join(root, '.env'), path.join(root, 'config.txt'));
+      expect(new PathSandbox(root).isAllowed('config.txt')).toBe(false);
+    });
+  });
+
+  it('uses configured deny rules instead of the defaults', () => {
+    const sandbox = new PathSandbox(root, { deny: ['*.pem', 'secrets/'] });
+    expect(sandbox.isAllowed('.env')).toBe(true);
+    expect(sandbox.isAllowed('certs/server.pem')).toBe(false);
+    expect(sandbox.isAllowed('secrets/token')).toBe(false);
+    expect(sandbox.isAllowed('src/secrets.ts')).toBe(true);
+  });
+
+  it('limits files to the allow list but still lets directories be walked', () => {
+    const sandbox = new PathSandbox(root, { allow: ['src/', '*.md'] });
+    expect(sandbox.isAllowed('src/index.ts')).toBe(true);
+    expect(sandbox.isAllowed('docs/README.md')).toBe(true);
+    expect(sandbox.isAllowed('package.json')).toBe(false);
+    expect(() => sandbox.resolve('package.json')).toThrow('is not in the sandbox allow list');
+    expect(sandbox.isAllowed('src')).toBe(true);
+  });
+
+  it('applies deny rules over the allow list', () => {
+    const sandbox = new PathSandbox(root, { allow: ['src/'], deny: ['src/generated/'] });
+    expect(sandbox.isAllowed('src/generated/types.ts')).toBe(false);
+  });
+
+  it('resolves only existing directories as directories', () => {
+    const sandbox = new PathSandbox(root);
+    expect(sandbox.resolveDirectory('src')).toBe(path.join(root, 'src'));
+    expect(() => sandbox.resolveDirectory('src/index.ts')).toThrow('Not a directory: src/index.ts');
+    expect(() => sandbox.resolveDirectory('missing')).toThrow('Not a directory');
+  });
+});
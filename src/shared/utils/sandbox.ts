@@ -0,0 +1,161 @@
+/**
+ * Path Sandbox - Keep tool file access inside the working directory
+ *
+ * Paths are checked after resolving symlinks, so a link inside the project
+ * cannot reach outside it, and against proper directory boundaries, so a
+ * sibling like `/repo-evil` never passes for `/repo`. Allow and deny rules use
+ * .gitignore syntax and apply to the path and every directory above it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SandboxConfig } from '../types/config';
+import { SandboxViolationError } from '../errors';
+import { IgnoreRule, parseIgnoreRule, matchesIgnoreRules } from './glob';
+
+export const DEFAULT_SANDBOX_DENY = ['.env', '.env.*', '!.env.example', '.git/', 'node_modules/'];
+
+const MAX_LINK_DEPTH = 40; // Same limit as Linux, so link loops end
+
+export class PathSandbox {
+  readonly rootDir: string;
+  private realRoot: string;
+  private allowRules: IgnoreRule[] | null;
+  private denyRules: IgnoreRule[];
+
+  constructor(rootDir: string, config: SandboxConfig = {}) {
+    this.rootDir = path.resolve(rootDir);
+    this.realRoot = realpathOfExisting(this.rootDir);
+    this.allowRules = config.allow && config.allow.length > 0 ? parseRules(config.allow) : null;
+    this.denyRules = parseRules(config.deny ?? DEFAULT_SANDBOX_DENY);
+  }
+
+  /**
+   * Absolute path of a project path, or a SandboxViolationError saying why it is off limits
+   */
+  resolve(targetPath: string): string {
+    if (typeof targetPath !== 'string' || !targetPath) {
+      throw new SandboxViolationError('Access denied: no path given', String(targetPath));
+    }
+
+    const absolutePath = path.resolve(this.rootDir, targetPath);
+    const realPath = realpathOfExisting(absolutePath);
+
+    const lexical = relativeInside(this.rootDir, absolutePath);
+    const real = relativeInside(this.realRoot, realPath);
+    if (lexical === null || real === null) {
+      const via = lexical !== null ? ` (links to ${realPath})` : '';
+      throw new SandboxViolationError(`Access denied: ${targetPath} is outside the project directory${via}`, targetPath);
+    }
+
+    // Check the path as written and where it really points, so neither can sneak past the rules
+    const isDirectory = isExistingDirectory(realPath);
+    for (const relativePath of new Set([lexical, real])) {
+      if (relativePath && this.isDenied(relativePath, isDirectory)) {
+        throw new SandboxViolationError(`Access denied: ${targetPath} is protected by the sandbox rules`, targetPath);
+      }
+      if (relativePath && !isDirectory && this.allowRules && !this.matchesAny(this.allowRules, relativePath)) {
+        throw new SandboxViolationError(`Access denied: ${targetPath} is not in the sandbox allow list`, targetPath);
+      }
+    }
+
+    return absolutePath;
+  }
+
+  isAllowed(targetPath: string): boolean {
+    try {
+      this.resolve(targetPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Like resolve, for directories that must already exist (e.g. a command's cwd)
+   */
+  resolveDirectory(targetPath: string): string {
+    const absolutePath = this.resolve(targetPath);
+    if (!isExistingDirectory(absolutePath)) {
+      throw new SandboxViolationError(`Not a directory: ${targetPath}`, targetPath);
+    }
+    return absolutePath;
+  }
+
+  private isDenied(relativePath: string, isDirectory: boolean): boolean {
+    return this.matchesAny(this.denyRules, relativePath, isDirectory);
+  }
+
+  /**
+   * Whether rules match the path or any directory above it
+   */
+  private matchesAny(rules: IgnoreRule[], relativePath: string, isDirectory: boolean = false): boolean {
+    const parts = relativePath.split('/');
+    for (let i = 1; i <= parts.length; i++) {
+      const last = i === parts.length;
+      if (matchesIgnoreRules(rules, parts.slice(0, i).join('/'), last ? isDirectory : true)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+function parseRules(patterns: string[]): IgnoreRule[] {
+  return patterns.map((pattern) => parseIgnoreRule(pattern)).filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+/**
+ * Forward-slash path of `target` relative to `root`, or null if it is not inside
+ */
+function relativeInside(root: string, target: string): string | null {
+  const relative = path.relative(root, target);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    return null;
+  }
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * Real path of a possibly not-yet-existing file: the deepest existing
+ * ancestor is resolved through symlinks and the rest appended as written.
+ * Dangling links are followed too, since writing through one creates its target.
+ */
+function realpathOfExisting(absolutePath: string, linkDepth: number = 0): string {
+  let existing = absolutePath;
+  const rest: string[] = [];
+
+  while (true) {
+    try {
+      return path.join(fs.realpathSync(existing), ...rest);
+    } catch {
+      const link = readLinkIfAny(existing);
+      if (link !== null && linkDepth < MAX_LINK_DEPTH) {
+        return realpathOfExisting(path.join(path.resolve(path.dirname(existing), link), ...rest), linkDepth + 1);
+      }
+
+      const parent = path.dirname(existing);
+      if (parent === existing) {
+        return absolutePath;
+      }
+      rest.unshift(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+function readLinkIfAny(filePath: string): string | null {
+  try {
+    return fs.lstatSync(filePath).isSymbolicLink() ? fs.readlinkSync(filePath) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isExistingDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
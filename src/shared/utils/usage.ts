@@ -0,0 +1,50 @@
+/**
+ * Usage Utilities - Price LLM requests and add them up
+ */
+
+import { ModelPrice } from '../types/config';
+import { LLMUsage, TokenUsage, UsageSummary } from '../types/usage';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+
+/**
+ * Estimated USD cost of a request. The most specific matching entry wins, so
+ * "claude-opus-4-5" takes precedence over "claude-opus-4".
+ */
+export function estimateCost(
+  model: string,
+  usage: TokenUsage,
+  pricing: Record<string, ModelPrice> = {}
+): { cost: number; priced: boolean } {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...pricing };
+  const key = Object.keys(prices)
+    .filter((name) => model === name || model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!key) {
+    return { cost: 0, priced: false };
+  }
+
+  const price = prices[key];
+  return {
+    cost: (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000,
+    priced: true,
+  };
+}
+
+export function emptyUsageSummary(): UsageSummary {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpricedRequests: 0 };
+}
+
+/**
+ * A new summary with one more request counted
+ */
+export function addUsage(summary: UsageSummary, usage: LLMUsage): UsageSummary {
+  return {
+    requests: summary.requests + 1,
+    promptTokens: summary.promptTokens + usage.promptTokens,
+    completionTokens: summary.completionTokens + usage.completionTokens,
+    totalTokens: summary.totalTokens + usage.totalTokens,
+    cost: summary.cost + usage.cost,
+    unpricedRequests: summary.unpricedRequests + (usage.priced ? 0 : 1),
+  };
+}